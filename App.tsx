@@ -1,12 +1,32 @@
 
-import React, { useState, useRef } from 'react';
-import { CameraMode, CapturedImage, LensProfile, LegionRole, CameraFilter } from './types';
+import React, { useState, useRef, useEffect } from 'react';
+import { CameraMode, CapturedImage, LensProfile, LegionRole, CameraFilter, EditOperation, ClipFormat } from './types';
 import CameraInterface, { CameraInterfaceHandle } from './components/CameraInterface';
 import AIAssistant from './components/AIAssistant';
 import LegionHUD from './components/LegionHUD';
 import BrandLogo from './components/BrandLogo';
 import Dashboard from './components/Dashboard';
+import VersionStackPanel from './components/VersionStackPanel';
+import CompareView from './components/CompareView';
+import VideoReviewPanel from './components/VideoReviewPanel';
+import MediaThumb from './components/MediaThumb';
 import { enhanceImage } from './services/geminiService';
+import { mediaStore, StorageStatus } from './services/mediaStore';
+import { bundleFilename, exportBundle, importBundle } from './services/bundleService';
+import { downloadBlob, formatBytes, toJpegDataUrl, urlToBlob, urlToDataUrl } from './utils/mediaUtils';
+import { stillsArchive, timelapseStills } from './services/timelapseService';
+import { applyFilterToImage } from './services/colorPipeline';
+import { applyPortrait } from './services/portraitService';
+import { applyStitch } from './services/panoramaService';
+import { codecLabel } from './services/recordingProfiles';
+import { CLIP_POSTER, posterFromCanvas, trimClip } from './services/clipService';
+import { previewService } from './services/previewService';
+import { WAV_TRACK } from './services/wavRecorder';
+import { createVersion, groupStacks, metadataOf, rootIdOf } from './utils/versioning';
+import { embedJpegMetadata } from './utils/jpegMetadata';
+import { formatClipTimecode } from './utils/timecode';
+
+const DEFAULT_ENHANCE_INSTRUCTION = "Upscale resolution, balance lighting using Imperial Roma palettes, and sharpen edges with neural stacking.";
 
 const App: React.FC = () => {
   const [mode, setMode] = useState<CameraMode>(CameraMode.PHOTO);
@@ -17,40 +37,251 @@ const App: React.FC = () => {
   const [isLegionHUDOpen, setIsLegionHUDOpen] = useState(false);
   const [isDashboardOpen, setIsDashboardOpen] = useState(false);
   const [legionRole, setLegionRole] = useState<LegionRole | null>(null);
+  const [storageStatus, setStorageStatus] = useState<StorageStatus | null>(null);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bundleStatus, setBundleStatus] = useState<string | null>(null);
+  const [comparePair, setComparePair] = useState<[CapturedImage, CapturedImage] | null>(null);
+  const [operationError, setOperationError] = useState<string | null>(null);
   const cameraRef = useRef<CameraInterfaceHandle>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const unsubStatus = mediaStore.onStatusChange(setStorageStatus);
+    mediaStore.requestPersistence();
+    mediaStore.loadAll()
+      .then(stored => {
+        if (cancelled) return;
+        setGallery(prev => [...prev, ...stored.filter(s => !prev.some(p => p.id === s.id))]
+          .sort((a, b) => b.timestamp - a.timestamp));
+      })
+      .catch(err => console.error("Archive restore failed", err));
+    return () => {
+      cancelled = true;
+      unsubStatus();
+      mediaStore.releaseAll();
+      previewService.releaseAll();
+    };
+  }, []);
+
+  // Proxies re-record clips in real time, so they wait until the camera is out of use behind the Light Table
+  const isReviewing = !!selectedImage;
+  useEffect(() => {
+    previewService.setIdle(isReviewing && !isProcessing);
+  }, [isReviewing, isProcessing]);
+
+  const replaceInGallery = (image: CapturedImage) => {
+    setGallery(prev => prev.map(i => i.id === image.id ? image : i));
+    setSelectedImage(prev => prev?.id === image.id ? image : prev);
+  };
+
+  const persistImage = async (image: CapturedImage) => {
+    try {
+      const stored = await mediaStore.save(image);
+      replaceInGallery(stored);
+      previewService.request(stored, stored.assets?.[CLIP_POSTER] ?? posterOf(stored));
+      // Transient blob URLs are superseded by the store-managed URLs once React swaps them out
+      const transient = [image.url, ...Object.values(image.assets || {})].filter(u => u.startsWith('blob:'));
+      if (transient.length) setTimeout(() => transient.forEach(u => URL.revokeObjectURL(u)), 1000);
+    } catch (err) {
+      console.error("Archive write failed", err);
+    }
+  };
 
   const handleCapture = (image: CapturedImage) => {
     setGallery(prev => [image, ...prev]);
     setSelectedImage(image);
+    persistImage(image);
+  };
+
+  /** Purging a stack root takes its versions with it; they cannot be re-edited without the root's assets. */
+  const handleDelete = async (image: CapturedImage) => {
+    const purged = gallery.filter(i => i.id === image.id || (image.id === rootIdOf(image) && rootIdOf(i) === image.id));
+    const remaining = gallery.filter(i => !purged.includes(i));
+    setGallery(remaining);
+    setSelectedImage(remaining[0] || null);
+    try {
+      for (const item of purged) {
+        await mediaStore.remove(item.id);
+        await previewService.remove(item.id);
+      }
+    } catch (err) {
+      console.error("Archive purge failed", err);
+    }
+  };
+
+  const toggleSelection = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const handleExport = async () => {
+    const selected = gallery.filter(i => selectedIds.has(i.id));
+    if (selected.length === 0) return;
+    // A version's assets (masks, frames, poster, WAV) live on its stack root, so the root travels with it
+    const roots = gallery.filter(g => !selectedIds.has(g.id) && selected.some(i => rootIdOf(i) === g.id));
+    const items = [...selected, ...roots];
+    setBundleStatus(`Packing ${items.length} items...`);
+    try {
+      downloadBlob(await exportBundle(items), bundleFilename());
+      setIsSelecting(false);
+      setSelectedIds(new Set());
+      setBundleStatus(null);
+    } catch (err) {
+      console.error("Bundle export failed", err);
+      setBundleStatus('Export failed');
+    }
+  };
+
+  const handleExportStills = async (image: CapturedImage) => {
+    setBundleStatus(`Packing ${timelapseStills(image.assets).length} stills...`);
+    try {
+      downloadBlob(await stillsArchive(image.assets!), `QUAN_STILLS_${image.id.split('-')[0].toUpperCase()}.zip`);
+      setBundleStatus(null);
+    } catch (err) {
+      console.error("Stills export failed", err);
+      setBundleStatus('Export failed');
+    }
+  };
+
+  const handleExportWav = async (image: CapturedImage) => {
+    const url = (gallery.find(g => g.id === rootIdOf(image))?.assets ?? image.assets)?.[WAV_TRACK];
+    if (!url) return;
+    try {
+      downloadBlob(await urlToBlob(url), `QUAN_AUDIO_${rootIdOf(image).split('-')[0].toUpperCase()}.wav`);
+    } catch (err) {
+      console.error("WAV export failed", err);
+      setBundleStatus('Export failed');
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setBundleStatus('Unpacking bundle...');
+    try {
+      const imported = await importBundle(file);
+      const fresh = imported.filter(i => !gallery.some(g => g.id === i.id));
+      imported.filter(i => !fresh.includes(i)).forEach(i => {
+        URL.revokeObjectURL(i.url);
+        Object.values(i.assets || {}).forEach(u => URL.revokeObjectURL(u));
+      });
+      setGallery(prev => [...prev, ...fresh].sort((a, b) => b.timestamp - a.timestamp));
+      fresh.forEach(persistImage);
+      setBundleStatus(`Imported ${fresh.length} of ${imported.length}`);
+    } catch (err) {
+      console.error("Bundle import failed", err);
+      setBundleStatus('Import failed');
+    }
   };
 
   const handleAIStatus = (status: boolean) => {
     setIsProcessing(status);
   };
 
-  const handleEnhance = async (image: CapturedImage) => {
-    if (image.mediaType !== 'image') return;
+  const runOperation = async (source: CapturedImage, operation: EditOperation) => {
+    if (source.mediaType !== 'image' && operation.type !== 'trim') return;
     setIsProcessing(true);
+    setOperationError(null);
     try {
-      const enhancedUrl = await enhanceImage(image.url, "Upscale resolution, balance lighting using Imperial Roma palettes, and sharpen edges with neural stacking.");
-      if (enhancedUrl) {
-        const newImage: CapturedImage = {
-          ...image,
-          id: crypto.randomUUID(),
-          url: enhancedUrl,
-          analysis: `Enhanced: ${image.analysis}`,
-          metadata: { ...image.metadata, enhanced: true } as any
-        };
-        setGallery(prev => [newImage, ...prev]);
-        setSelectedImage(newImage);
+      let url: string | null = null;
+      let format: ClipFormat | undefined;
+      if (operation.type === 'enhance') url = await enhanceImage(await urlToDataUrl(source.url), operation.instruction);
+      else if (operation.type === 'filter') url = await applyFilterToImage(source.url, operation.filter);
+      else if (operation.type === 'portrait' || operation.type === 'stitch') {
+        // Without the root's assets these throw, rather than silently producing nothing
+        const assets = source.assets ?? gallery.find(g => g.id === rootIdOf(source))?.assets ?? {};
+        if (operation.type === 'portrait') url = await applyPortrait(assets, operation.aperture, operation.focus, source.metadata?.lens);
+        else url = await applyStitch(assets, operation.fov);
+      }
+      else if (operation.type === 'trim') {
+        const trimmed = await trimClip(source.url, operation.in, operation.out, source.metadata?.format);
+        url = URL.createObjectURL(trimmed.blob);
+        format = trimmed.format;
+      }
+      if (url) {
+        const version = createVersion(source, url, operation);
+        if (operation.type === 'enhance') version.analysis = `Enhanced: ${source.analysis}`;
+        if (format) version.metadata = { ...metadataOf(version), format };
+        // Re-encoded stills lose the original's EXIF and XMP, so the version writes its own
+        if (version.mediaType === 'image') version.url = embedJpegMetadata(await toJpegDataUrl(url), version);
+        handleCapture(version);
+        // A revert pins the stack to an older version; a new edit takes over as head
+        if (gallery.find(g => g.id === rootIdOf(version))?.version?.headId) setStackHead(version);
       }
     } catch (err) {
-      console.error("Enhancement failed", err);
+      console.error("Operation failed", err);
+      setOperationError(err instanceof Error ? err.message : 'Operation failed');
     } finally {
       setIsProcessing(false);
     }
   };
 
+  const posterOf = (image: CapturedImage) => image.mediaType === 'video'
+    ? (gallery.find(g => g.id === rootIdOf(image))?.assets ?? image.assets)?.[CLIP_POSTER]
+    : undefined;
+
+  /** Pulls the shown frame of a clip into the gallery as a still that remembers where it came from. */
+  const handleGrabFrame = (clip: CapturedImage, frame: HTMLCanvasElement, time: number) => {
+    const { format, preRoll, posterTime, audio, ...metadata } = metadataOf(clip);
+    const still: CapturedImage = {
+      id: crypto.randomUUID(), url: '', timestamp: Date.now(), mediaType: 'image',
+      analysis: `Frame Grab @ ${formatClipTimecode(time, format?.fps ?? 30)} // ${clip.analysis ?? 'Quantum Cinematic Capture'}`,
+      metadata: { ...metadata, frameOf: { clipId: clip.id, time } },
+    };
+    still.url = embedJpegMetadata(frame.toDataURL('image/jpeg', 0.95), still);
+    setGallery(prev => [still, ...prev]);
+    persistImage(still);
+  };
+
+  /** The poster lives on the stack root so every version of the clip shares one thumbnail. */
+  const handleSetPoster = async (clip: CapturedImage, frame: HTMLCanvasElement, time: number) => {
+    const root = gallery.find(g => g.id === rootIdOf(clip));
+    if (!root) return;
+    try {
+      const poster = posterFromCanvas(frame);
+      const posterUrl = await mediaStore.setAsset(root.id, CLIP_POSTER, poster);
+      const withTime = (image: CapturedImage): CapturedImage => ({ ...image, metadata: { ...metadataOf(image), posterTime: time } });
+      const updatedRoot = { ...(clip.id === root.id ? withTime(root) : root), assets: { ...root.assets, [CLIP_POSTER]: posterUrl } };
+      replaceInGallery(updatedRoot);
+      await mediaStore.update(updatedRoot);
+      if (clip.id !== root.id) {
+        const updatedClip = withTime(clip);
+        replaceInGallery(updatedClip);
+        await mediaStore.update(updatedClip);
+      }
+      gallery.filter(g => rootIdOf(g) === root.id).forEach(v => previewService.refreshThumb(v, poster));
+    } catch (err) {
+      console.error("Poster update failed", err);
+    }
+  };
+
+  const handleEnhance = (image: CapturedImage) => runOperation(image, { type: 'enhance', instruction: DEFAULT_ENHANCE_INSTRUCTION });
+
+  const setStackHead = (image: CapturedImage) => {
+    const root = gallery.find(g => g.id === rootIdOf(image));
+    if (!root) return;
+    const updated: CapturedImage = {
+      ...root,
+      version: { ...(root.version || { rootId: root.id, appliedAt: root.timestamp }), headId: image.id }
+    };
+    replaceInGallery(updated);
+    mediaStore.update(updated).catch(err => console.error("Archive update failed", err));
+  };
+
+  const stacks = groupStacks(gallery);
+  const selectedStack = selectedImage ? stacks.find(st => st.rootId === rootIdOf(selectedImage)) : undefined;
+
+  const openCompare = (image: CapturedImage) => {
+    const images = gallery.filter(g => g.mediaType === 'image');
+    const source = gallery.find(g => g.id === image.version?.parentId)
+      || (selectedStack && selectedStack.root.id !== image.id ? selectedStack.root : undefined)
+      || images.find(g => g.id !== image.id);
+    if (source) setComparePair([source, image]);
+  };
+
   const checkProPermissions = async (targetMode: CameraMode) => {
     const proModes = [CameraMode.CINEMA, CameraMode.AI_GENERATE, CameraMode.M_PRO];
     if (proModes.includes(targetMode)) {
@@ -97,7 +328,20 @@ const App: React.FC = () => {
            </div>
         </div>
         
-        <div className="flex gap-4 pointer-events-auto">
+        <div className="flex gap-4 items-center pointer-events-auto">
+          {bundleStatus && !selectedImage && (
+            <span className="text-[8px] mono text-cyan-400/70 uppercase tracking-widest">{bundleStatus}</span>
+          )}
+          <button 
+            onClick={() => importInputRef.current?.click()}
+            className="glass px-8 py-4 rounded-2xl roman text-[10px] font-black uppercase tracking-widest border border-white/10 text-white/60 shadow-2xl hover:bg-white/10 transition-all active:scale-95"
+          >
+            Import Bundle
+          </button>
+          <input 
+            ref={importInputRef} type="file" accept=".zip,application/zip" className="hidden"
+            onChange={e => { const f = e.target.files?.[0]; if (f) handleImport(f); e.target.value = ''; }}
+          />
           {legionRole === 'LEGATUS' && (
             <button 
               onClick={() => setIsDashboardOpen(true)}
@@ -109,6 +353,15 @@ const App: React.FC = () => {
         </div>
       </header>
 
+      {storageStatus && storageStatus.level !== 'OK' && (
+        <div className="absolute top-28 left-1/2 -translate-x-1/2 z-[160] glass px-6 py-3 rounded-2xl border border-amber-400/40 flex items-center gap-4 shadow-2xl">
+          <div className={`w-1.5 h-1.5 rounded-full animate-pulse ${storageStatus.level === 'CRITICAL' ? 'bg-red-500' : 'bg-amber-400'}`} />
+          <span className={`text-[9px] mono font-bold uppercase tracking-widest ${storageStatus.level === 'CRITICAL' ? 'text-red-400' : 'text-amber-400'}`}>
+            Archive {Math.round(storageStatus.ratio * 100)}% Full // {formatBytes(Math.max(0, storageStatus.quota - storageStatus.usage))} Free
+          </span>
+        </div>
+      )}
+
       <main className="flex-1 relative">
         <AIAssistant 
           onTriggerCapture={p => cameraRef.current?.triggerCapture(p)} 
@@ -167,7 +420,7 @@ const App: React.FC = () => {
             className="group w-16 h-16 rounded-[1.8rem] border-2 border-white/10 overflow-hidden shadow-[0_20px_50px_rgba(0,0,0,0.5)] transition-all hover:scale-110 active:scale-90 bg-zinc-900 flex items-center justify-center p-0.5"
            >
              {gallery.length > 0 ? (
-               <img src={gallery[0].url} className="w-full h-full object-cover rounded-[1.6rem]" alt="Recent Capture" />
+               <MediaThumb image={gallery[0]} poster={posterOf(gallery[0])} className="w-full h-full object-cover rounded-[1.6rem]" alt="Recent Capture" />
              ) : (
                <div className="text-xl roman text-white/20 opacity-30">Q</div>
              )}
@@ -186,18 +439,58 @@ const App: React.FC = () => {
                   TS: {new Date(selectedImage.timestamp).toLocaleString()} // UUID: {selectedImage.id.split('-')[0].toUpperCase()}
                 </span>
               </div>
-              <button 
-                onClick={() => setSelectedImage(null)} 
-                className="text-[10px] roman font-black bg-white/5 border border-white/10 px-10 py-4 rounded-full uppercase tracking-[0.4em] hover:bg-white/15 transition-all active:scale-95"
-              >
-                Exit Light Table
-              </button>
+              <div className="flex gap-4">
+                {selectedImage.mediaType === 'image' && gallery.filter(g => g.mediaType === 'image').length > 1 && (
+                  <button 
+                    onClick={() => openCompare(selectedImage)} 
+                    className="text-[10px] roman font-black bg-cyan-500/5 border border-cyan-500/30 text-cyan-400 px-8 py-4 rounded-full uppercase tracking-[0.4em] hover:bg-cyan-500/15 transition-all active:scale-95"
+                  >
+                    Compare
+                  </button>
+                )}
+                {timelapseStills(selectedImage.assets).length > 0 && (
+                  <button 
+                    onClick={() => handleExportStills(selectedImage)} 
+                    className="text-[10px] roman font-black bg-cyan-500/5 border border-cyan-500/30 text-cyan-400 px-8 py-4 rounded-full uppercase tracking-[0.4em] hover:bg-cyan-500/15 transition-all active:scale-95"
+                  >
+                    Export Stills
+                  </button>
+                )}
+                {(gallery.find(g => g.id === rootIdOf(selectedImage))?.assets ?? selectedImage.assets)?.[WAV_TRACK] && (
+                  <button 
+                    onClick={() => handleExportWav(selectedImage)} 
+                    className="text-[10px] roman font-black bg-cyan-500/5 border border-cyan-500/30 text-cyan-400 px-8 py-4 rounded-full uppercase tracking-[0.4em] hover:bg-cyan-500/15 transition-all active:scale-95"
+                  >
+                    Export WAV
+                  </button>
+                )}
+                <button 
+                  onClick={() => handleDelete(selectedImage)} 
+                  className="text-[10px] roman font-black bg-red-500/5 border border-red-500/20 text-red-400 px-8 py-4 rounded-full uppercase tracking-[0.4em] hover:bg-red-500/15 transition-all active:scale-95"
+                >
+                  {selectedStack?.root.id === selectedImage.id && selectedStack.versions.length > 1 ? 'Purge Stack' : 'Purge'}
+                </button>
+                <button 
+                  onClick={() => setSelectedImage(null)} 
+                  className="text-[10px] roman font-black bg-white/5 border border-white/10 px-10 py-4 rounded-full uppercase tracking-[0.4em] hover:bg-white/15 transition-all active:scale-95"
+                >
+                  Exit Light Table
+                </button>
+              </div>
            </div>
            
            <div className="flex-1 flex flex-col lg:flex-row gap-10 p-10">
               <div className="flex-[3] flex items-center justify-center rounded-[4rem] overflow-hidden border border-white/10 shadow-2xl bg-black relative group min-h-[60vh]">
                  {selectedImage.mediaType === 'video' ? (
-                   <video src={selectedImage.url} autoPlay loop muted playsInline className="max-w-full max-h-full" />
+                   <VideoReviewPanel 
+                     key={selectedImage.id}
+                     clip={selectedImage}
+                     posterTime={selectedImage.metadata?.posterTime}
+                     isProcessing={isProcessing}
+                     onTrim={(clip, start, end) => runOperation(clip, { type: 'trim', in: start, out: end })}
+                     onGrabFrame={handleGrabFrame}
+                     onSetPoster={handleSetPoster}
+                   />
                  ) : (
                    <img src={selectedImage.url} className="max-w-full max-h-full object-contain" alt="Captured" />
                  )}
@@ -244,6 +537,26 @@ const App: React.FC = () => {
                   )}
                 </div>
 
+                {operationError && (
+                  <div className="glass px-8 py-4 rounded-2xl border border-red-500/30 flex justify-between items-center gap-4">
+                    <span className="text-[9px] mono font-bold text-red-400 uppercase tracking-widest">{operationError}</span>
+                    <button onClick={() => setOperationError(null)} className="text-[9px] mono text-white/40 hover:text-white/70">✕</button>
+                  </div>
+                )}
+
+                {selectedStack && (selectedStack.versions.length > 1 || selectedImage.mediaType === 'image') && (
+                  <VersionStackPanel 
+                    stack={selectedStack}
+                    gallery={gallery}
+                    selected={selectedImage}
+                    defaultInstruction={DEFAULT_ENHANCE_INSTRUCTION}
+                    isProcessing={isProcessing}
+                    onSelect={setSelectedImage}
+                    onSetHead={setStackHead}
+                    onRun={runOperation}
+                  />
+                )}
+
                 <div className="glass p-10 rounded-[3.5rem] border border-white/5">
                    <span className="text-[10px] roman text-white/40 font-black uppercase tracking-[0.5em] mb-8 block">Optical Signature</span>
                    <div className="grid grid-cols-2 gap-6">
@@ -255,21 +568,93 @@ const App: React.FC = () => {
                          <span className="text-[8px] mono text-white/20 uppercase tracking-widest">Digital Filter</span>
                          <span className="text-[11px] roman font-black uppercase text-white/90">{selectedImage.metadata?.filter || 'None'}</span>
                       </div>
+                      {selectedImage.metadata?.format && (
+                        <div className="p-5 bg-white/5 rounded-3xl flex flex-col gap-2">
+                           <span className="text-[8px] mono text-white/20 uppercase tracking-widest">Clip Format</span>
+                           <span className="text-[11px] roman font-black uppercase text-white/90">
+                             {codecLabel(selectedImage.metadata.format.codec)} {selectedImage.metadata.format.height ? `${selectedImage.metadata.format.height}P` : ''}{selectedImage.metadata.format.fps ?? ''} // {Math.round(selectedImage.metadata.format.bitrate / 1000000)} Mbps{selectedImage.metadata.format.remuxed ? ' // Remuxed' : ''}
+                           </span>
+                        </div>
+                      )}
+                      {selectedImage.metadata?.audio && (
+                        <div className="p-5 bg-white/5 rounded-3xl flex flex-col gap-2">
+                           <span className="text-[8px] mono text-white/20 uppercase tracking-widest">Audio</span>
+                           <span className="text-[11px] roman font-black uppercase text-white/90">
+                             {[
+                               selectedImage.metadata.audio.input,
+                               [selectedImage.metadata.audio.echoCancellation && 'EC', selectedImage.metadata.audio.noiseSuppression && 'NS', selectedImage.metadata.audio.autoGainControl && 'AGC'].filter(Boolean).join('/') || 'No DSP',
+                               selectedImage.metadata.audio.peakDb !== undefined && `Peak ${selectedImage.metadata.audio.peakDb} dBFS`,
+                             ].filter(Boolean).join(' // ')}
+                             {selectedImage.metadata.audio.clipped && <span className="text-red-400"> // Clipped</span>}
+                           </span>
+                        </div>
+                      )}
+                      {selectedImage.metadata?.frameOf && (
+                        <button 
+                          onClick={() => { const clip = gallery.find(g => g.id === selectedImage.metadata?.frameOf?.clipId); if (clip) setSelectedImage(clip); }}
+                          className="p-5 bg-white/5 rounded-3xl flex flex-col gap-2 text-left hover:bg-white/10 transition-all"
+                        >
+                           <span className="text-[8px] mono text-white/20 uppercase tracking-widest">Frame Of</span>
+                           <span className="text-[11px] roman font-black uppercase text-white/90">Clip {selectedImage.metadata.frameOf.clipId.split('-')[0].toUpperCase()} @ {selectedImage.metadata.frameOf.time.toFixed(2)}s</span>
+                        </button>
+                      )}
+                      {selectedImage.metadata?.preRoll !== undefined && (
+                        <div className="p-5 bg-white/5 rounded-3xl flex flex-col gap-2">
+                           <span className="text-[8px] mono text-white/20 uppercase tracking-widest">Pre-Roll</span>
+                           <span className="text-[11px] roman font-black uppercase text-white/90">{selectedImage.metadata.preRoll.toFixed(2)}s Before Record</span>
+                        </div>
+                      )}
                    </div>
                 </div>
               </div>
            </div>
 
-           {gallery.length > 1 && (
+           {gallery.length > 0 && (
              <div className="px-10 pb-16">
-               <span className="text-[9px] mono text-white/20 uppercase tracking-[0.4em] mb-6 block">Light Table Index</span>
+               <div className="flex justify-between items-center mb-6 gap-4">
+                 <span className="text-[9px] mono text-white/20 uppercase tracking-[0.4em]">Light Table Index</span>
+                 <div className="flex items-center gap-3">
+                   {bundleStatus && (
+                     <span className="text-[8px] mono text-cyan-400/70 uppercase tracking-widest">{bundleStatus}</span>
+                   )}
+                   {isSelecting && (
+                     <button 
+                       onClick={handleExport}
+                       disabled={selectedIds.size === 0}
+                       className="px-5 py-2 rounded-xl border border-cyan-500/40 text-[9px] roman font-black uppercase tracking-widest text-cyan-400 hover:bg-cyan-500 hover:text-black transition-all disabled:opacity-30"
+                     >
+                       Export ZIP ({selectedIds.size})
+                     </button>
+                   )}
+                   <button 
+                     onClick={() => { setIsSelecting(!isSelecting); setSelectedIds(new Set()); }}
+                     className={`px-5 py-2 rounded-xl border text-[9px] roman font-black uppercase tracking-widest transition-all ${isSelecting ? 'border-cyan-400 text-cyan-400 bg-cyan-400/10' : 'border-white/10 text-white/40 hover:text-white/70'}`}
+                   >
+                     {isSelecting ? 'Cancel' : 'Select'}
+                   </button>
+                 </div>
+               </div>
                <div className="flex gap-5 overflow-x-auto no-scrollbar pb-6 scroll-smooth">
-                 {gallery.map(img => (
+                 {stacks.map(({ rootId, head, versions }) => (
                    <button 
-                    key={img.id} onClick={() => setSelectedImage(img)}
-                    className={`flex-shrink-0 w-28 h-28 rounded-3xl overflow-hidden border-2 transition-all active:scale-90 ${selectedImage.id === img.id ? 'border-cyan-500 scale-110 shadow-[0_10px_30px_rgba(34,211,238,0.2)]' : 'border-white/10 opacity-40 hover:opacity-100 hover:border-white/30'}`}
+                    key={rootId} onClick={() => isSelecting ? toggleSelection(head.id) : setSelectedImage(head)}
+                    className={`relative flex-shrink-0 w-28 h-28 rounded-3xl overflow-hidden border-2 transition-all active:scale-90 ${
+                      isSelecting
+                        ? selectedIds.has(head.id) ? 'border-cyan-500' : 'border-white/10 opacity-60'
+                        : selectedStack?.rootId === rootId ? 'border-cyan-500 scale-110 shadow-[0_10px_30px_rgba(34,211,238,0.2)]' : 'border-white/10 opacity-40 hover:opacity-100 hover:border-white/30'
+                    }`}
                    >
-                     <img src={img.url} className="w-full h-full object-cover" alt="Gallery item" />
+                     <MediaThumb image={head} poster={posterOf(head)} className="w-full h-full object-cover" />
+                     {versions.length > 1 && (
+                       <div className="absolute bottom-2 left-2 glass px-2 py-0.5 rounded-md text-[8px] mono font-bold text-cyan-400">
+                         ×{versions.length}
+                       </div>
+                     )}
+                     {isSelecting && (
+                       <div className={`absolute top-2 right-2 w-5 h-5 rounded-full border-2 flex items-center justify-center text-[9px] font-black ${selectedIds.has(head.id) ? 'bg-cyan-500 border-cyan-500 text-black' : 'border-white/40 bg-black/40'}`}>
+                         {selectedIds.has(head.id) ? '✓' : ''}
+                       </div>
+                     )}
                    </button>
                  ))}
                </div>
@@ -277,6 +662,15 @@ const App: React.FC = () => {
            )}
         </div>
       )}
+
+      {comparePair && (
+        <CompareView 
+          gallery={gallery}
+          initialA={comparePair[0]}
+          initialB={comparePair[1]}
+          onClose={() => setComparePair(null)}
+        />
+      )}
     </div>
   );
 };
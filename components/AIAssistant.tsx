@@ -2,6 +2,7 @@
 import { FunctionDeclaration, GoogleGenAI, LiveServerMessage, Modality, Type } from '@google/genai';
 import React, { useEffect, useRef, useState } from 'react';
 import { decode, decodeAudioData, encode } from '../utils/audioUtils';
+import { frameTap } from '../services/frameTap';
 import { CameraMode, LensProfile, CameraFilter } from '../types';
 import BrandLogo from './BrandLogo';
 
@@ -19,7 +20,7 @@ const AIAssistant: React.FC<AIAssistantProps> = ({ onTriggerCapture, onSetMode,
   const sessionRef = useRef<any>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const nextStartTimeRef = useRef<number>(0);
-  const frameIntervalRef = useRef<number | null>(null);
+  const visionUnsubscribeRef = useRef<(() => void) | null>(null);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
   const activeSourcesCountRef = useRef<number>(0);
 
@@ -59,25 +60,21 @@ const AIAssistant: React.FC<AIAssistantProps> = ({ onTriggerCapture, onSetMode,
     }
   ];
 
+  useEffect(() => () => visionUnsubscribeRef.current?.(), []);
+
   const startVisionStream = (sessionPromise: Promise<any>) => {
-    const video = document.querySelector('video');
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d');
-    if (!video || !ctx) return;
-
-    frameIntervalRef.current = window.setInterval(() => {
-      canvas.width = 320; 
-      canvas.height = 240;
-      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-      const base64 = canvas.toDataURL('image/jpeg', 0.5).split(',')[1];
-      sessionPromise.then(s => s.sendRealtimeInput({ media: { data: base64, mimeType: 'image/jpeg' } }));
-    }, 1500); 
+    visionUnsubscribeRef.current?.();
+    visionUnsubscribeRef.current = frameTap.subscribe({ kind: 'jpeg', fps: 1 / 1.5, maxEdge: 320, quality: 0.5 }, result => {
+      if (result.kind !== 'jpeg') return;
+      sessionPromise.then(s => s.sendRealtimeInput({ media: { data: result.base64, mimeType: 'image/jpeg' } }));
+    });
   };
 
   const toggleAssistant = async () => {
     if (isActive) {
       sessionRef.current?.close();
-      if (frameIntervalRef.current) clearInterval(frameIntervalRef.current);
+      visionUnsubscribeRef.current?.();
+      visionUnsubscribeRef.current = null;
       sourcesRef.current.forEach(s => { try { s.stop(); } catch (e) {} });
       sourcesRef.current.clear();
       activeSourcesCountRef.current = 0;
@@ -0,0 +1,89 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChannelLevel, LevelMeter } from '../services/audioInput';
+import { toDbfs } from '../utils/audioUtils';
+
+interface AudioMetersProps {
+  meter: LevelMeter | null;
+  /** Thin bars for the recording HUD instead of the full panel meter */
+  compact?: boolean;
+}
+
+interface HeldLevel extends ChannelLevel {
+  hold: number;
+  holdAt: number;
+  clipAt: number;
+}
+
+const FLOOR_DB = -60;
+const PEAK_HOLD_MS = 1500;
+const CLIP_HOLD_MS = 2000;
+
+const toPercent = (level: number) => Math.max(0, Math.min(100, (1 - toDbfs(level) / FLOOR_DB) * 100));
+
+const formatDb = (level: number) => {
+  const db = toDbfs(level);
+  return db <= FLOOR_DB ? '-∞' : db.toFixed(1);
+};
+
+const AudioMeters: React.FC<AudioMetersProps> = ({ meter, compact = false }) => {
+  const [levels, setLevels] = useState<HeldLevel[]>([]);
+  const heldRef = useRef<HeldLevel[]>([]);
+
+  useEffect(() => {
+    heldRef.current = [];
+    setLevels([]);
+    if (!meter) return;
+    let frame = 0;
+    const tick = () => {
+      const now = performance.now();
+      heldRef.current = meter.read().map((level, i) => {
+        const prev = heldRef.current[i];
+        const holding = prev && now - prev.holdAt < PEAK_HOLD_MS && prev.hold >= level.peak;
+        return {
+          ...level,
+          hold: holding ? prev.hold : level.peak,
+          holdAt: holding ? prev.holdAt : now,
+          clipAt: level.clipped ? now : prev?.clipAt ?? -Infinity,
+        };
+      });
+      setLevels(heldRef.current);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [meter]);
+
+  const now = performance.now();
+  const clipping = levels.some(l => now - l.clipAt < CLIP_HOLD_MS);
+
+  if (!meter) {
+    return <span className="text-[8px] mono text-white/30 uppercase tracking-widest">No Audio Input</span>;
+  }
+
+  return (
+    <div className={`flex items-center ${compact ? 'gap-2' : 'gap-3 w-full'}`}>
+      <div className={`flex flex-col ${compact ? 'gap-0.5 w-24' : 'gap-1.5 flex-1'}`}>
+        {levels.map((l, i) => (
+          <div key={i} className={`relative ${compact ? 'h-1' : 'h-2'} rounded-full bg-white/10 overflow-hidden`}>
+            <div
+              className={`absolute inset-y-0 left-0 rounded-full ${toDbfs(l.rms) > -6 ? 'bg-amber-400' : 'bg-cyan-400'}`}
+              style={{ width: `${toPercent(l.rms)}%` }}
+            />
+            <div className="absolute inset-y-0 w-px bg-white/70" style={{ left: `${toPercent(l.peak)}%` }} />
+            <div className={`absolute inset-y-0 w-0.5 ${now - l.clipAt < CLIP_HOLD_MS ? 'bg-red-500' : 'bg-white'}`} style={{ left: `${toPercent(l.hold)}%` }} />
+          </div>
+        ))}
+      </div>
+      {!compact && (
+        <span className="text-[8px] mono text-white/50 uppercase w-20 text-right">
+          {levels.length ? `${formatDb(Math.max(...levels.map(l => l.hold)))} dBFS` : '—'}
+        </span>
+      )}
+      <span className={`text-[8px] mono font-bold uppercase tracking-widest ${clipping ? 'text-red-500 animate-pulse' : 'text-white/20'}`}>
+        {clipping ? 'Clip' : compact ? '' : 'OK'}
+      </span>
+    </div>
+  );
+};
+
+export default AudioMeters;
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+
+export interface BurstCandidate {
+  /** Position in the burst, counting frames that rolled out of the buffer */
+  index: number;
+  thumb: string;
+  /** 0..1 within this burst */
+  rating: number;
+}
+
+interface BurstReviewSheetProps {
+  candidates: BurstCandidate[];
+  captured: number;
+  picks: number;
+  onCommit: (indices: number[]) => void;
+  onDiscard: () => void;
+}
+
+const BurstReviewSheet: React.FC<BurstReviewSheetProps> = ({ candidates, captured, picks, onCommit, onDiscard }) => {
+  const ranked = [...candidates].sort((a, b) => b.rating - a.rating);
+  const topPicks = ranked.slice(0, picks).map(c => c.index);
+  const [selected, setSelected] = useState<Set<number>>(() => new Set(topPicks));
+
+  const toggle = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index); else next.add(index);
+      return next;
+    });
+  };
+
+  return (
+    <div className="absolute inset-0 bg-black/90 backdrop-blur-2xl flex flex-col z-50 p-8 pt-28 gap-6 animate-in fade-in">
+      <div className="flex justify-between items-center">
+        <div className="flex flex-col">
+          <span className="text-[12px] roman font-black text-cyan-400 uppercase tracking-[0.5em]">Burst Review</span>
+          <span className="text-[8px] mono text-white/40 uppercase tracking-widest mt-2">
+            {captured} Captured // {candidates.length} Buffered // {selected.size} Selected
+          </span>
+        </div>
+        <button
+          onClick={() => setSelected(new Set(topPicks))}
+          className="px-4 py-2 border border-white/10 rounded-xl text-[8px] roman font-black uppercase tracking-widest text-white/50 hover:bg-white/10 transition-all"
+        >
+          Top {picks} Only
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto no-scrollbar grid grid-cols-3 md:grid-cols-4 gap-3 content-start">
+        {candidates.map(c => {
+          const rank = topPicks.indexOf(c.index);
+          return (
+            <button
+              key={c.index} onClick={() => toggle(c.index)}
+              className={`relative rounded-2xl overflow-hidden border-2 transition-all ${selected.has(c.index) ? 'border-cyan-400' : 'border-white/5 opacity-50'}`}
+            >
+              <img src={c.thumb} className="w-full aspect-video object-cover" alt={`Burst frame ${c.index + 1}`} />
+              {rank >= 0 && (
+                <span className="absolute top-2 left-2 text-[7px] mono font-bold text-black bg-cyan-400 px-2 py-1 rounded-md uppercase">#{rank + 1}</span>
+              )}
+              <span className="absolute top-2 right-2 text-[7px] mono font-bold text-white/70 bg-black/60 px-2 py-1 rounded-md">{c.index + 1}</span>
+              <div className="absolute bottom-0 left-0 right-0 h-1 bg-white/10">
+                <div className="h-full bg-cyan-400" style={{ width: `${Math.round(c.rating * 100)}%` }} />
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <button
+          onClick={onDiscard}
+          className="py-4 rounded-2xl border border-red-500/30 text-[9px] roman font-black uppercase tracking-widest text-red-400 hover:bg-red-500/10 transition-all"
+        >
+          Discard Burst
+        </button>
+        <button
+          onClick={() => onCommit(candidates.filter(c => selected.has(c.index)).map(c => c.index))}
+          disabled={selected.size === 0}
+          className="py-4 rounded-2xl border border-cyan-500/40 text-[9px] roman font-black uppercase tracking-widest text-cyan-400 hover:bg-cyan-500 hover:text-black transition-all disabled:opacity-30"
+        >
+          Commit {selected.size} to Gallery
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default BurstReviewSheet;
@@ -2,9 +2,98 @@
 import { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
 import { scoutScene, neuralStacking, generateAIImage, generateCinemaClip } from '../services/geminiService';
 import { legionService } from '../services/legionService';
-import { CameraFilter, CameraMode, CameraXTelemetry, CapturedImage, DeviceTelemetry, LegionMessage, LegionRole, LensProfile, ManualConfig, GroundingLabel } from '../types';
+import { locationService } from '../services/locationService';
+import { embedJpegMetadata } from '../utils/jpegMetadata';
+import { toJpegDataUrl } from '../utils/mediaUtils';
+import { canvasToFrame, frameToDataUrl, grabFrame, planeToDataUrl, waitForFrames } from '../utils/frameUtils';
+import { SETTLE_FRAMES, captureBracket, planBracket } from '../services/bracketCapture';
+import { MeteringLock, lockMetering, meterAt } from '../services/meteringService';
+import { stackingService } from '../services/stackingService';
+import { frameTap } from '../services/frameTap';
+import { GradeRenderer, RenderSettings, gradeCanvasCpu, gradeImage, lensSqueeze, outputSize, renderGraded } from '../services/colorPipeline';
+import { lutLibrary } from '../services/lutLibrary';
+import { cameraDevices } from '../services/cameraDevices';
+import { PreRollRecorder } from '../services/preRollRecorder';
+import { BurnIns, ProgramFeed } from '../services/programFeed';
+import { BITRATE_PRESETS, DEFAULT_PROFILE, FPS_PRESETS, RESOLUTION_PRESETS, clipFormat, createRecorder, finishRecording, needsRemux, probeCodecs, profileConstraints, recordedFormat, recorderOptions, resolveCodec } from '../services/recordingProfiles';
+import { CLIP_POSTER, clipPoster } from '../services/clipService';
+import { AudioDevice, DEFAULT_AUDIO, LevelMeter, appliedAudio, audioConstraints, audioInputs } from '../services/audioInput';
+import { WAV_TRACK, WavRecorder } from '../services/wavRecorder';
+import { controlRanges, hardwareTone, manualConstraints, shutterStops } from '../services/manualControls';
+import { LOCAL_SEGMENTATION, segmentationService } from '../services/segmentation';
+import { PORTRAIT_DEPTH, PORTRAIT_SOURCE, bokehFor, renderPortrait } from '../services/portraitService';
+import { panoramaFrameKey, stitchToDataUrl, sweepFov } from '../services/panoramaService';
+import { TimelapseStatus, TimelapseStill, assembleClip, runTimelapse, timelapseFrameCount, timelapseStillKey } from '../services/timelapseService';
+import { APERTURE_STOPS } from '../utils/bokeh';
+import { RgbaFrame, toLuma } from '../utils/imaging';
+import { FrameScore, rateBurst } from '../utils/frameScore';
+import { Offset, PANORAMA_OVERLAP } from '../utils/panorama';
+import { NEUTRAL_KELVIN } from '../utils/tone';
+import { spotMeter, viewToFrame } from '../utils/metering';
+import { PEAKING_COLORS, hasAssists, renderAssistOverlay } from '../utils/exposureAssist';
+import { AssistConfig, AudioConfig, AudioTakeInfo, CameraDevice, CameraFilter, CameraMode, CameraXTelemetry, CapturedImage, ClipFormat, DeviceTelemetry, FilterPreset, LegionMessage, LegionRole, LensProfile, ManualConfig, GroundingLabel, PeakingColor, RecordingConfig, RecordingProfile, TimelapseConfig } from '../types';
 import BrandLogo from './BrandLogo';
-import Histogram from './Histogram';
+import BurstReviewSheet, { BurstCandidate } from './BurstReviewSheet';
+import ScopesPanel from './ScopesPanel';
+import AudioMeters from './AudioMeters';
+
+interface SweepState {
+  frames: RgbaFrame[];
+  hints: (Offset | undefined)[];
+  dx: number;
+  dy: number;
+  drift: number;
+  unsubscribe: () => void;
+}
+
+interface SweepGuide {
+  frames: number;
+  /** Travel toward the next grab, 0..1 */
+  progress: number;
+  /** Accumulated vertical drift as a fraction of frame height */
+  drift: number;
+  direction: number;
+  tooFast: boolean;
+}
+
+interface BurstFrame {
+  index: number;
+  bitmap: ImageBitmap;
+  score?: FrameScore;
+  scored: Promise<void>;
+}
+
+interface BurstState {
+  frames: BurstFrame[];
+  captured: number;
+}
+
+interface BurstReview {
+  frames: BurstFrame[];
+  candidates: BurstCandidate[];
+  captured: number;
+}
+
+interface FocusReticle {
+  /** Position on the viewfinder, in percent */
+  x: number;
+  y: number;
+  locked: boolean;
+  /** Whether the camera metered the point itself rather than the software spot meter */
+  hardware: boolean;
+  lock?: MeteringLock;
+}
+
+interface ViewfinderGesture {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  startEv: number;
+  moved: boolean;
+  longPress: boolean;
+  timer: number;
+}
 
 interface CameraInterfaceProps {
   mode: CameraMode;
@@ -27,39 +116,112 @@ const MODULAR_UNITS = [
   { id: 'filtrum', label: 'FILTER', icon: '✦' },
   { id: 'scout', label: 'SCOUT', icon: '⚲' },
   { id: 'neural', label: 'NEURAL', icon: '⌬' },
+  { id: 'bokeh', label: 'BOKEH', icon: '◎' },
+  { id: 'interval', label: 'INTERVAL', icon: '⧗' },
+  { id: 'reel', label: 'REEL', icon: '◉' },
+  { id: 'audio', label: 'AUDIO', icon: '♪' },
   { id: 'manual', label: 'M-PRO', icon: '⚙' }
 ];
 
 const LEGION_UNITS = [
   { id: 'legion', label: 'FLEET', icon: '🛰️' },
+  { id: 'reel', label: 'REEL', icon: '◉' },
+  { id: 'audio', label: 'AUDIO', icon: '♪' },
   { id: 'optics', label: 'OPTICS', icon: '◈' },
   { id: 'filtrum', label: 'FILTER', icon: '✦' }
 ];
 
-const FILTER_MAPPING: Record<CameraFilter, string> = {
-  [CameraFilter.NONE]: 'none',
-  [CameraFilter.VINTAGE_ROMA]: 'sepia(0.6) contrast(1.1) brightness(0.9) saturate(0.8)',
-  [CameraFilter.IMPERIAL_MONO]: 'grayscale(1) contrast(1.2) brightness(1.1)',
-  [CameraFilter.NEURAL_VIBRANCE]: 'saturate(1.8) contrast(1.1) brightness(1.05)',
-  [CameraFilter.CYBER_LATIUM]: 'hue-rotate(180deg) saturate(1.4) contrast(1.2) brightness(0.8)',
-  [CameraFilter.GLOAMING]: 'contrast(1.1) brightness(0.8) sepia(0.3) saturate(1.5)',
-  [CameraFilter.MARBLE_STATUE]: 'grayscale(0.4) contrast(0.9) brightness(1.2) saturate(0.2)',
-  [CameraFilter.AURELIUS]: 'contrast(1.1) saturate(1.2) brightness(1.05) sepia(0.1)',
-};
+const HDR_STOPS = [-2, 0, 2];
+// Long-edge cap for on-device stacking; keeps worker memory within mid-range phone budgets
+const STACK_MAX_EDGE = 2048;
+const NIGHT_MAX_IN_FLIGHT = 6;
+// Graded preview resolution; the CPU fallback runs at a lower size to stay interactive
+const PREVIEW_MAX_EDGE = 1920;
+const PREVIEW_CPU_MAX_EDGE = 480;
+// Portraits are blurred on the CPU in a worker; this keeps a render around a second
+const PORTRAIT_MAX_EDGE = 2048;
+// Sweep frames are graded at this size before stitching
+const PANORAMA_MAX_EDGE = 1280;
+const PANORAMA_MAX_FRAMES = 12;
+const SWEEP_FPS = 15;
+// Per-tick shift (tap px) close to the motion tap's search limit means the sweep is outrunning it
+const SWEEP_FAST_SHIFT = 12;
+const SWEEP_MAX_DRIFT = 0.05;
+// Time-lapse stills are kept at this size; the clip is encoded from them
+const TIMELAPSE_MAX_EDGE = 1920;
+const TIMELAPSE_INTERVALS = [1, 2, 5, 10, 30, 60];
+const TIMELAPSE_DELAYS = [0, 3, 10, 60];
+const TIMELAPSE_FPS = [24, 30];
+// Burst ring buffer: frames are held as bitmaps at this size and graded only when committed
+const BURST_MAX_EDGE = 1600;
+const BURST_CAPACITY = 36;
+const BURST_SCORE_MAX_EDGE = 320;
+const BURST_PICKS = 3;
+const BURST_THUMB_MAX_EDGE = 320;
+// A burst from a tap or voice trigger rather than a held shutter
+const BURST_TAP_MS = 1000;
+// Viewfinder gestures: hold to lock AE/AF, drag vertically to bias exposure
+const LONG_PRESS_MS = 600;
+const DRAG_THRESHOLD = 12;
+const BIAS_PX_PER_STOP = 80;
+const RETICLE_HOLD_MS = 2500;
+const METER_MAX_EDGE = 320;
+// Seconds of footage kept from before the record press; 0 leaves the buffer off
+const PRE_ROLL_SECONDS = [0, 3, 5, 10, 30];
+const ZEBRA_LEVELS = [70, 80, 90, 95, 100];
+// Steadiness cue for multi-frame modes: global shift in px at the motion tap's sampling size
+const MOTION_MAX_EDGE = 160;
+const STEADY_SHIFT = 1.5;
 
 const CameraInterface = forwardRef<CameraInterfaceHandle, CameraInterfaceProps>(({ 
   mode, onCapture, isProcessing, setIsProcessing, activeLens, onLensChange, legionRole 
 }, ref) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const previewRendererRef = useRef<GradeRenderer | null | undefined>(undefined);
+  const renderSettingsRef = useRef<RenderSettings | null>(null);
+  const assistRef = useRef<HTMLCanvasElement>(null);
+  const assistRendererRef = useRef<GradeRenderer | null | undefined>(undefined);
+  const assistsRef = useRef<AssistConfig | null>(null);
+  const lutInputRef = useRef<HTMLInputElement>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const recordedChunksRef = useRef<Blob[]>([]);
+  const preRollRef = useRef<PreRollRecorder | null>(null);
+  const programRef = useRef<ProgramFeed | null>(null);
+  const burnInsRef = useRef<BurnIns>({});
+  const preRollTakeRef = useRef<{ buffer: PreRollRecorder; finish: (blob: Blob, preRoll: number) => Promise<void> } | null>(null);
   const prevModeRef = useRef<CameraMode>(mode);
+  const sweepRef = useRef<SweepState | null>(null);
+  const timelapseRef = useRef<AbortController | null>(null);
+  const burstRef = useRef<BurstState | null>(null);
+  const gestureRef = useRef<ViewfinderGesture | null>(null);
+  const reticleTimerRef = useRef<number | null>(null);
+  
+  const streamRef = useRef<MediaStream | null>(null);
+  const swappingRef = useRef(false);
+  const failedDevicesRef = useRef<Set<string>>(new Set());
+  const audioRef = useRef<AudioConfig>(DEFAULT_AUDIO);
+  // The audio constraints the current stream was opened with, so a re-acquire runs once per change
+  const audioKeyRef = useRef<string | null>(null);
+  const meterRef = useRef<LevelMeter | null>(null);
+  const retiredMeterRef = useRef<LevelMeter | null>(null);
+  const wavRef = useRef<WavRecorder | null>(null);
+  const takeAudioRef = useRef<{ info?: AudioTakeInfo; wav?: Blob } | null>(null);
   
   const [stream, setStream] = useState<MediaStream | null>(null);
+  const [cameras, setCameras] = useState<CameraDevice[]>(() => cameraDevices.list());
+  const [activeDeviceId, setActiveDeviceId] = useState<string | undefined>(undefined);
+  const [swapQueued, setSwapQueued] = useState(false);
+  const [microphones, setMicrophones] = useState<AudioDevice[]>(() => audioInputs.list());
+  const [audio, setAudio] = useState<AudioConfig>(DEFAULT_AUDIO);
+  const [audioError, setAudioError] = useState<string | null>(null);
+  const [meter, setMeter] = useState<LevelMeter | null>(null);
   const [shutterPulse, setShutterPulse] = useState(false);
   const [activeUnit, setActiveUnit] = useState('optics');
-  const [activeFilter, setActiveFilter] = useState<CameraFilter>(CameraFilter.NONE);
+  const [activeFilter, setActiveFilter] = useState<string>(CameraFilter.NONE);
+  const [presets, setPresets] = useState<FilterPreset[]>(() => lutLibrary.list());
+  const [lutError, setLutError] = useState<string | null>(null);
   const [isRecording, setIsRecording] = useState(false);
   const [recordingTime, setRecordingTime] = useState(0);
   const [aiPrompt, setAiPrompt] = useState('');
@@ -67,15 +229,74 @@ const CameraInterface = forwardRef<CameraInterfaceHandle, CameraInterfaceProps>(
   const [devices, setDevices] = useState<DeviceTelemetry[]>([]);
   const [showGrid, setShowGrid] = useState(true);
   const [gridType, setGridType] = useState<'3x3' | 'GOLDEN'>('3x3');
-  const [manual, setManual] = useState<ManualConfig>({ iso: 400, shutter: '1/125', ev: 0, wb: 5600, zoom: 1, flashMode: 'off' });
+  const [manual, setManual] = useState<ManualConfig>({ iso: 400, shutter: '1/125', ev: 0, wb: 5600, zoom: 1, flashMode: 'off', focus: 1, autoExposure: true, autoWhiteBalance: true, autoFocus: true });
   const [veoMessage, setVeoMessage] = useState('Generating Quantum Cinema...');
   const [groundingLabels, setGroundingLabels] = useState<GroundingLabel[]>([]);
   const [capabilities, setCapabilities] = useState<MediaTrackCapabilities | null>(null);
+  const [cloudRefine, setCloudRefine] = useState(false);
+  const [nightFrames, setNightFrames] = useState(8);
+  const [isSteady, setIsSteady] = useState(true);
+  const [aperture, setAperture] = useState(2.8);
+  const [segmenter, setSegmenter] = useState(LOCAL_SEGMENTATION);
+  const [sweep, setSweep] = useState<SweepGuide | null>(null);
+  const [timelapse, setTimelapse] = useState<TimelapseConfig>({ interval: 5, limit: 'frames', frames: 240, duration: 30, delay: 3, lockExposure: true, autoRamp: false, fps: 24 });
+  const [timelapseStatus, setTimelapseStatus] = useState<TimelapseStatus | null>(null);
+  const [clock, setClock] = useState(Date.now());
+  const [burstReview, setBurstReview] = useState<BurstReview | null>(null);
+  const [reticle, setReticle] = useState<FocusReticle | null>(null);
+  const [meterBias, setMeterBias] = useState(0);
+  const [preRoll, setPreRoll] = useState(0);
+  const [recording, setRecording] = useState<RecordingConfig>({ processed: false, burnTimecode: true, burnRole: true, burnGuide: false });
+  const [program, setProgram] = useState<ProgramFeed | null>(null);
+  const [profile, setProfile] = useState<RecordingProfile>(DEFAULT_PROFILE);
+  const [assists, setAssists] = useState<AssistConfig>({ peaking: false, peakingColor: 'RED', peakingThreshold: 0.25, zebra: false, zebraLevel: 95, falseColor: false });
 
   const isLegionMode = mode === CameraMode.LEGION_LINK;
+  const isVideoMode = mode === CameraMode.VIDEO || isLegionMode;
   const currentUnits = isLegionMode ? LEGION_UNITS : MODULAR_UNITS;
+  const ranges = controlRanges(capabilities);
+  const tone = hardwareTone(manual, capabilities);
+  const isoRange = ranges.iso ?? { min: 50, max: 3200, step: 50 };
+  const evRange = tone.ev ? ranges.exposureCompensation! : { min: -3, max: 3, step: 0.1 };
+  const evSpan = Math.max(Math.abs(evRange.min), Math.abs(evRange.max));
+  const held = reticle?.lock;
+  const renderSettings: RenderSettings = {
+    lut: lutLibrary.getLut(activeFilter),
+    // A held exposure ignores compensation, so the bias moves to the grade
+    ev: (tone.ev && !held?.exposure ? 0 : manual.ev) + meterBias,
+    kelvin: tone.whiteBalance ? NEUTRAL_KELVIN : manual.wb,
+    squeeze: lensSqueeze(activeLens),
+  };
+  renderSettingsRef.current = renderSettings;
+  programRef.current = program;
+  audioRef.current = audio;
+  meterRef.current = meter;
+  burnInsRef.current = {
+    clock: recording.burnTimecode ? (isLegionMode ? () => legionService.getSynchronizedTime() : Date.now) : undefined,
+    label: recording.burnRole && isLegionMode && legionRole ? `LEGION // ${legionRole} // Node_${legionService.getDeviceId().slice(0, 4)}` : undefined,
+    guide: recording.burnGuide && showGrid ? gridType : undefined,
+  };
+  const recordingCodec = resolveCodec(profile, preRoll || profile.container === 'webm' ? 'webm' : undefined);
+  // Processed takes record the program feed; swapping cameras under it leaves the recorder's tracks intact
+  const recordStream = program?.stream ?? stream;
+  assistsRef.current = assists;
+  const gradeMetadata = {
+    filter: lutLibrary.label(activeFilter),
+    ev: manual.ev,
+    whiteBalance: manual.wb,
+    squeeze: renderSettings.squeeze !== 1 ? renderSettings.squeeze : undefined,
+  };
+  // Only values the sensor actually ran with are recorded; everything else is the camera's auto exposure
+  const sensorMetadata = {
+    iso: !manual.autoExposure && ranges.iso ? manual.iso.toString() : 'Auto',
+    shutter: !manual.autoExposure && ranges.exposureTime ? manual.shutter : 'Auto',
+    deviceId: activeDeviceId,
+  };
   const timerRef = useRef<number | null>(null);
   const isRecordingRef = useRef(false);
+  // Fleet commands arrive on a long-lived subscription; these always hold this render's handlers
+  const startRecordingRef = useRef<(broadcast?: boolean) => void>(() => {});
+  const stopRecordingRef = useRef<(broadcast?: boolean) => void>(() => {});
 
   useEffect(() => {
     isRecordingRef.current = isRecording;
@@ -88,6 +309,9 @@ const CameraInterface = forwardRef<CameraInterfaceHandle, CameraInterfaceProps>(
       else if (mode === CameraMode.CINEMA) setActiveUnit('cinema');
       else if (mode === CameraMode.HDR_FUSION || mode === CameraMode.NIGHT_STACK) setActiveUnit('neural');
       else if (mode === CameraMode.M_PRO) setActiveUnit('manual');
+      else if (mode === CameraMode.PORTRAIT) setActiveUnit('bokeh');
+      else if (mode === CameraMode.TIME_LAPSE) setActiveUnit('interval');
+      else if (mode === CameraMode.VIDEO) setActiveUnit('reel');
       else setActiveUnit('optics');
       prevModeRef.current = mode;
       setGroundingLabels([]); 
@@ -107,28 +331,130 @@ const CameraInterface = forwardRef<CameraInterfaceHandle, CameraInterfaceProps>(
     setFilter: (f: CameraFilter) => setActiveFilter(f)
   }));
 
+  const openStream = (deviceId?: string) => {
+    const audioTrack = audioConstraints(audioRef.current);
+    audioKeyRef.current = JSON.stringify(audioTrack);
+    return navigator.mediaDevices.getUserMedia({
+      video: { 
+        ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: 'environment' }), 
+        width: { ideal: 3840 }, height: { ideal: 2160 } 
+      },
+      audio: audioTrack
+    });
+  };
+
+  const attachStream = (s: MediaStream) => {
+    streamRef.current = s;
+    setStream(s);
+    if (videoRef.current) videoRef.current.srcObject = s;
+    
+    const track = s.getVideoTracks()[0];
+    setCapabilities(track?.getCapabilities ? track.getCapabilities() : null);
+    setActiveDeviceId(track?.getSettings?.().deviceId);
+  };
+
+  /** Moves the viewfinder to another camera. The old stream is released first: many phones cannot open two at once. */
+  const swapCamera = async (deviceId: string) => {
+    if (swappingRef.current) return;
+    swappingRef.current = true;
+    const previous = activeDeviceId;
+    streamRef.current?.getTracks().forEach(t => t.stop());
+    try {
+      attachStream(await openStream(deviceId));
+    } catch (err) {
+      console.error("Camera swap failed", err);
+      failedDevicesRef.current.add(deviceId);
+      attachStream(await openStream(previous).catch(() => openStream()));
+    } finally {
+      swappingRef.current = false;
+      setSwapQueued(false);
+    }
+  };
+
   useEffect(() => {
     const startCamera = async () => {
       try {
-        const s = await navigator.mediaDevices.getUserMedia({
-          video: { facingMode: 'environment', width: { ideal: 3840 }, height: { ideal: 2160 } },
-          audio: true
-        });
-        setStream(s);
-        if (videoRef.current) videoRef.current.srcObject = s;
-        
-        const track = s.getVideoTracks()[0];
-        if (track && track.getCapabilities) {
-          setCapabilities(track.getCapabilities());
-        }
+        attachStream(await openStream());
+        await Promise.all([cameraDevices.load(), cameraDevices.discover(), audioInputs.discover()]);
       } catch (err) { 
         console.error("Optics Engine initialization failed", err); 
       }
     };
+    const unsubscribe = cameraDevices.onChange(setCameras);
+    const unsubMics = audioInputs.onChange(setMicrophones);
     startCamera();
-    return () => stream?.getTracks().forEach(t => t.stop());
+    return () => {
+      unsubscribe();
+      unsubMics();
+      streamRef.current?.getTracks().forEach(t => t.stop());
+    };
   }, []);
 
+  useEffect(() => {
+    if (!stream || !activeDeviceId) return;
+    const target = cameraDevices.deviceFor(activeLens);
+    if (!target || target === activeDeviceId || failedDevicesRef.current.has(target)) return;
+    // A recorder is bound to its stream's tracks; the swap waits for the take to end
+    if (isRecording && !program) { setSwapQueued(true); return; }
+    swapCamera(target).catch(err => console.error("Camera swap failed", err));
+  }, [activeLens, cameras, stream, activeDeviceId, isRecording, program]);
+
+  // Input and processing changes re-open only the microphone; the camera track carries over
+  useEffect(() => {
+    const current = streamRef.current;
+    if (!stream || !current || isRecording || swappingRef.current) return;
+    const constraints = audioConstraints(audio);
+    const key = JSON.stringify(constraints);
+    if (key === audioKeyRef.current) return;
+    const previousKey = audioKeyRef.current;
+    audioKeyRef.current = key;
+    const reopen = async () => {
+      // Released first: some phones cannot hold two microphone captures
+      current.getAudioTracks().forEach(t => t.stop());
+      // The new settings, then the ones that last worked, then whatever the browser picks
+      const attempts: (MediaTrackConstraints | boolean)[] = [constraints, ...(previousKey ? [JSON.parse(previousKey)] : []), true];
+      let mic: MediaStream | null = null;
+      let attempt = 0;
+      for (; attempt < attempts.length && !mic; attempt++) {
+        mic = await navigator.mediaDevices.getUserMedia({ audio: attempts[attempt] })
+          .catch(err => { console.error("Microphone change failed", err); return null; });
+      }
+      if (streamRef.current !== current) {
+        mic?.getTracks().forEach(t => t.stop());
+        return;
+      }
+      setAudioError(!mic ? 'Microphone Lost // Recording Silent' : attempt > 1 ? 'Settings Refused // Fallback Input' : null);
+      // Without a microphone the stream carries video only, rather than a stopped audio track
+      attachStream(new MediaStream([...current.getVideoTracks(), ...(mic?.getAudioTracks() ?? [])]));
+    };
+    reopen().catch(err => console.error("Microphone unavailable", err));
+  }, [stream, isRecording, audio.deviceId, audio.echoCancellation, audio.noiseSuppression, audio.autoGainControl]);
+
+  const monitorAudio = isVideoMode || activeUnit === 'audio';
+  useEffect(() => {
+    if (!stream || !monitorAudio || stream.getAudioTracks().length === 0) return;
+    let levels: LevelMeter;
+    try {
+      levels = new LevelMeter(stream);
+    } catch (err) {
+      console.warn("Audio meter unavailable", err);
+      return;
+    }
+    // A lens swap mid-take replaces the meter; the take's peak and clipping carry across
+    if (isRecordingRef.current && retiredMeterRef.current) levels.carryOver(retiredMeterRef.current);
+    retiredMeterRef.current = null;
+    setMeter(levels);
+    return () => {
+      setMeter(null);
+      if (isRecordingRef.current) retiredMeterRef.current = levels;
+      levels.dispose();
+    };
+  }, [stream, monitorAudio]);
+
+  useEffect(() => {
+    if (stream) wavRef.current?.setSource(stream);
+  }, [stream]);
+
   useEffect(() => {
     if (!stream) return;
     const track = stream.getVideoTracks()[0];
@@ -142,6 +468,122 @@ const CameraInterface = forwardRef<CameraInterfaceHandle, CameraInterfaceProps>(
     }
   }, [manual.zoom, manual.flashMode, stream]);
 
+  useEffect(() => {
+    const track = stream?.getVideoTracks()[0];
+    if (!track?.applyConstraints) return;
+    const sets = manualConstraints(manual, capabilities, held);
+    if (sets.length === 0) return;
+    track.applyConstraints({ advanced: sets }).catch(e => console.warn("Manual control application failed", e));
+  }, [stream, capabilities, manual.iso, manual.shutter, manual.ev, manual.wb, manual.focus, manual.autoExposure, manual.autoWhiteBalance, manual.autoFocus, held?.exposure, held?.focus]);
+
+  useEffect(() => () => {
+    if (reticleTimerRef.current) clearTimeout(reticleTimerRef.current);
+    if (gestureRef.current) clearTimeout(gestureRef.current.timer);
+  }, []);
+
+  useEffect(() => {
+    locationService.start(mode === CameraMode.SCOUT);
+  }, [mode]);
+
+  useEffect(() => {
+    const unsubscribe = lutLibrary.onChange(setPresets);
+    lutLibrary.load();
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    const canvas = previewRef.current;
+    const overlay = assistRef.current;
+    if (!video || !canvas || !overlay) return;
+
+    if (previewRendererRef.current === undefined) previewRendererRef.current = GradeRenderer.create(canvas);
+    const gpu = previewRendererRef.current;
+    const ctx = gpu ? null : canvas.getContext('2d', { willReadFrequently: true });
+    if (assistRendererRef.current === undefined) assistRendererRef.current = gpu ? GradeRenderer.create(overlay) : null;
+    const assistGpu = assistRendererRef.current;
+    const assistCtx = assistGpu ? null : overlay.getContext('2d');
+
+    let frame = 0;
+    const draw = () => {
+      const settings = renderSettingsRef.current;
+      const activeAssists = assistsRef.current;
+      if (settings && video.videoWidth && !video.paused) {
+        const { width, height } = outputSize(video.videoWidth, video.videoHeight, settings.squeeze, gpu ? PREVIEW_MAX_EDGE : PREVIEW_CPU_MAX_EDGE);
+        if (gpu) {
+          gpu.setSettings(settings);
+          gpu.render(video, width, height);
+        } else if (ctx) {
+          if (canvas.width !== width || canvas.height !== height) { canvas.width = width; canvas.height = height; }
+          ctx.drawImage(video, 0, 0, width, height);
+          gradeCanvasCpu(ctx, settings);
+        }
+        programRef.current?.draw(canvas, burnInsRef.current);
+
+        if (activeAssists && hasAssists(activeAssists)) {
+          if (assistGpu) {
+            assistGpu.setSettings(settings);
+            assistGpu.setAssists(activeAssists);
+            assistGpu.render(video, width, height);
+          } else if (ctx && assistCtx) {
+            if (overlay.width !== width || overlay.height !== height) { overlay.width = width; overlay.height = height; }
+            const layer = assistCtx.createImageData(width, height);
+            renderAssistOverlay({ data: ctx.getImageData(0, 0, width, height).data, width, height }, activeAssists, layer.data);
+            assistCtx.putImageData(layer, 0, 0);
+          }
+        }
+      }
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [stream]);
+
+  useEffect(() => {
+    frameTap.setSource(previewRef.current);
+    return () => frameTap.setSource(null);
+  }, []);
+
+  useEffect(() => {
+    if (mode !== CameraMode.HDR_FUSION && mode !== CameraMode.NIGHT_STACK) return;
+    return frameTap.subscribe({ kind: 'motion', fps: 8, maxEdge: MOTION_MAX_EDGE }, result => {
+      if (result.kind === 'motion') setIsSteady(Math.hypot(result.dx, result.dy) <= STEADY_SHIFT);
+    });
+  }, [mode]);
+
+  useEffect(() => {
+    if (mode === CameraMode.PANORAMA) return;
+    cancelSweep();
+  }, [mode]);
+
+  useEffect(() => {
+    if (mode === CameraMode.TIME_LAPSE) return;
+    timelapseRef.current?.abort();
+  }, [mode]);
+
+  useEffect(() => {
+    if (mode === CameraMode.BURST) return;
+    cancelBurst();
+  }, [mode]);
+
+  useEffect(() => {
+    if (!timelapseStatus) return;
+    const timer = window.setInterval(() => setClock(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [!!timelapseStatus]);
+
+  useEffect(() => () => {
+    cancelSweep();
+    timelapseRef.current?.abort();
+    cancelBurst();
+    preRollTakeRef.current?.buffer.dispose();
+    wavRef.current?.dispose();
+    previewRendererRef.current?.dispose();
+    assistRendererRef.current?.dispose();
+  }, []);
+
+  useEffect(() => () => locationService.stop(), []);
+
   useEffect(() => {
     if (isRecording) {
       timerRef.current = window.setInterval(() => {
@@ -158,16 +600,26 @@ const CameraInterface = forwardRef<CameraInterfaceHandle, CameraInterfaceProps>(
     if (isLegionMode) {
       const unsubTelemetry = legionService.onTelemetryUpdate(setDevices);
       setDevices(legionService.getConnectedDevices());
+      // A scheduled start left over from Legion mode would record with another mode's feed and profile
+      const pendingStarts = new Set<number>();
       const unsubMessages = legionService.onMessage((msg: LegionMessage) => {
         if (msg.senderId === legionService.getDeviceId()) return;
         if (msg.type === 'START_REC') {
           const delay = Math.max(0, (msg.timestamp + (msg.payload?.delay || 0)) - legionService.getSynchronizedTime());
-          setTimeout(() => { if (!isRecordingRef.current) startRecording(false); }, delay);
+          const handle = window.setTimeout(() => {
+            pendingStarts.delete(handle);
+            if (!isRecordingRef.current) startRecordingRef.current(false);
+          }, delay);
+          pendingStarts.add(handle);
         } else if (msg.type === 'STOP_REC') {
-          if (isRecordingRef.current) stopRecording(false);
+          if (isRecordingRef.current) stopRecordingRef.current(false);
         }
       });
-      return () => { unsubTelemetry(); unsubMessages(); };
+      return () => {
+        unsubTelemetry();
+        unsubMessages();
+        pendingStarts.forEach(handle => clearTimeout(handle));
+      };
     }
   }, [isLegionMode]);
 
@@ -182,16 +634,78 @@ const CameraInterface = forwardRef<CameraInterfaceHandle, CameraInterfaceProps>(
     }
   };
 
+  useEffect(() => {
+    if (!isVideoMode || !recording.processed) return;
+    let feed: ProgramFeed;
+    try {
+      feed = new ProgramFeed();
+    } catch (err) {
+      console.error("Program feed failed", err);
+      return;
+    }
+    setProgram(feed);
+    return () => {
+      setProgram(null);
+      feed.dispose();
+    };
+  }, [isVideoMode, recording.processed]);
+
+  useEffect(() => {
+    if (program && stream) program.setAudio(stream);
+  }, [program, stream]);
+
+  useEffect(() => {
+    if (!isVideoMode || !preRoll || !recordStream || isRecording) return;
+    // The buffer is cut on WebM clusters, so it records WebM whatever the profile's container
+    const support = resolveCodec(profile, 'webm');
+    if (!support) {
+      console.warn("Pre-roll needs a WebM recorder");
+      return;
+    }
+    let buffer: PreRollRecorder;
+    try {
+      buffer = new PreRollRecorder(recordStream, preRoll, recorderOptions(profile, support));
+      buffer.start();
+    } catch (err) {
+      console.error("Pre-roll buffer failed", err);
+      return;
+    }
+    preRollRef.current = buffer;
+    return () => {
+      if (preRollRef.current === buffer) preRollRef.current = null;
+      // A marked buffer has become the take and is finished by stopRecording
+      if (!buffer.marked) buffer.dispose();
+    };
+  }, [isVideoMode, preRoll, recordStream, isRecording, profile]);
+
+  useEffect(() => {
+    const track = stream?.getVideoTracks()[0];
+    if (!isVideoMode || !track?.applyConstraints) return;
+    track.applyConstraints(profileConstraints(profile)).catch(err => console.warn("Recording profile constraints failed", err));
+    return () => {
+      if (track.readyState !== 'live') return;
+      track.applyConstraints({ width: { ideal: 3840 }, height: { ideal: 2160 } }).catch(err => console.warn("Still constraints failed", err));
+    };
+  }, [isVideoMode, profile.resolution, profile.fps, stream]);
+
   const startRecording = (broadcast = true) => {
-    if (!stream) return;
-    recordedChunksRef.current = [];
-    const recorder = new MediaRecorder(stream, { mimeType: 'video/webm;codecs=vp9', videoBitsPerSecond: 15000000 });
-    
-    recorder.ondataavailable = (e) => { if (e.data.size > 0) recordedChunksRef.current.push(e.data); };
-    recorder.onstop = async () => {
-      const blob = new Blob(recordedChunksRef.current, { type: 'video/webm' });
-      const url = URL.createObjectURL(blob);
+    if (!recordStream) return;
+    program?.resume();
+    const processed = !!program;
+    const buffered = preRollRef.current;
+    const support = resolveCodec(profile, buffered || profile.container === 'webm' ? 'webm' : undefined);
+    const videoTrack = recordStream.getVideoTracks()[0];
+
+    const finishTake = async (recorded: Blob, format: ClipFormat, preRollSeconds?: number) => {
+      const takeAudio = takeAudioRef.current;
+      takeAudioRef.current = null;
       setIsProcessing(true);
+      if (needsRemux(recorded, profile)) setVeoMessage('Remuxing to MP4...');
+      const finished = await finishRecording(recorded, format, profile);
+      const blob = finished.blob;
+      format = finished.format;
+      setVeoMessage('Generating Quantum Cinema...');
+      const url = URL.createObjectURL(blob);
       let analysisText = mode === CameraMode.LEGION_LINK ? `Fleet Sync [${legionRole}]` : "Quantum Cinematic Capture";
       
       if (videoRef.current && canvasRef.current) {
@@ -199,9 +713,8 @@ const CameraInterface = forwardRef<CameraInterfaceHandle, CameraInterfaceProps>(
         canvasRef.current.height = videoRef.current.videoHeight;
         const ctx = canvasRef.current.getContext('2d');
         if (ctx) {
-          ctx.filter = FILTER_MAPPING[activeFilter];
-          ctx.drawImage(videoRef.current, 0, 0);
-          const thumb = canvasRef.current.toDataURL('image/jpeg');
+          const thumb = renderGraded(videoRef.current, videoRef.current.videoWidth, videoRef.current.videoHeight, renderSettings)
+            .toDataURL('image/jpeg');
           if (mode === CameraMode.SCOUT) {
              const result = await scoutScene(thumb);
              analysisText = result.text;
@@ -209,41 +722,104 @@ const CameraInterface = forwardRef<CameraInterfaceHandle, CameraInterfaceProps>(
           }
         }
       }
+      // The poster is the frame where record was pressed, not the start of the pre-roll
+      const posterTime = preRollSeconds ?? 0;
+      const poster = await clipPoster(url, posterTime).catch(err => { console.warn("Poster extraction failed", err); return null; });
+      // The WAV starts at record, after any pre-roll the clip carries
+      const audioInfo = takeAudio?.info && { ...takeAudio.info, wavOffset: takeAudio.wav ? preRollSeconds ?? 0 : undefined };
+      const assets = {
+        ...(poster ? { [CLIP_POSTER]: poster } : {}),
+        ...(takeAudio?.wav ? { [WAV_TRACK]: URL.createObjectURL(takeAudio.wav) } : {}),
+      };
       setIsProcessing(false);
       onCapture({ 
         id: crypto.randomUUID(), url, timestamp: Date.now(), mediaType: 'video', analysis: analysisText,
-        metadata: { iso: 'Auto', shutter: 'Auto', lens: activeLens, mode, filter: activeFilter, role: legionRole || undefined, zoom: manual.zoom, flash: manual.flashMode }
+        metadata: { iso: 'Auto', shutter: 'Auto', deviceId: activeDeviceId, lens: activeLens, mode, filter: lutLibrary.label(activeFilter), role: legionRole || undefined, zoom: manual.zoom, flash: manual.flashMode, preRoll: preRollSeconds, format, posterTime: poster ? posterTime : undefined, audio: audioInfo, ...(processed ? { ...gradeMetadata, processed } : {}) },
+        assets: Object.keys(assets).length ? assets : undefined
       });
     };
 
-    recorder.start();
-    mediaRecorderRef.current = recorder;
+    if (buffered) {
+      buffered.mark();
+      preRollRef.current = null;
+      const format = clipFormat(profile, null, support?.mimeType ?? 'video/webm', videoTrack);
+      preRollTakeRef.current = { buffer: buffered, finish: (blob, seconds) => finishTake(blob, format, seconds) };
+    } else {
+      recordedChunksRef.current = [];
+      const recorder = createRecorder(recordStream, recorderOptions(profile, support));
+      const format = clipFormat(profile, recorder, support?.mimeType ?? '', videoTrack);
+      recorder.ondataavailable = (e) => { if (e.data.size > 0) recordedChunksRef.current.push(e.data); };
+      recorder.onstop = () => finishTake(new Blob(recordedChunksRef.current, { type: (recorder.mimeType || 'video/webm').split(';')[0] }), recordedFormat(format, recorder));
+      recorder.start();
+      mediaRecorderRef.current = recorder;
+    }
+    meterRef.current?.resetStats();
+    const mic = stream?.getAudioTracks()[0];
+    if (audio.recordWav && stream && mic) {
+      try {
+        wavRef.current = new WavRecorder(stream, Math.min(2, mic.getSettings?.().channelCount ?? 1));
+        wavRef.current.start();
+      } catch (err) {
+        console.error("WAV capture failed", err);
+      }
+    }
     setIsRecording(true);
     if (broadcast && isLegionMode && legionRole === 'LEGATUS') legionService.sendCommand('START_REC', { delay: 500 });
   };
 
   const stopRecording = (broadcast = true) => {
-    if (mediaRecorderRef.current && isRecordingRef.current) {
-      mediaRecorderRef.current.stop();
-      setIsRecording(false);
-      if (broadcast && isLegionMode && legionRole === 'LEGATUS') legionService.sendCommand('STOP_REC');
+    if (!isRecordingRef.current) return;
+    // Read now: the meter is replaced when the stream changes after the take
+    const mic = streamRef.current?.getAudioTracks()[0];
+    const wav = wavRef.current;
+    wavRef.current = null;
+    takeAudioRef.current = {
+      info: mic ? { ...appliedAudio(mic, audioInputs.label(mic.getSettings?.().deviceId)), ...(meterRef.current ?? retiredMeterRef.current)?.stats } : undefined,
+      wav: wav?.stop(),
+    };
+    const take = preRollTakeRef.current;
+    if (take) {
+      preRollTakeRef.current = null;
+      take.buffer.finish()
+        .then(result => take.finish(result.blob, result.preRoll))
+        .catch(err => console.error("Pre-roll take failed", err));
+    } else {
+      mediaRecorderRef.current?.stop();
     }
+    setIsRecording(false);
+    if (broadcast && isLegionMode && legionRole === 'LEGATUS') legionService.sendCommand('STOP_REC');
   };
+  startRecordingRef.current = startRecording;
+  stopRecordingRef.current = stopRecording;
 
   const handleShutterAction = async () => {
     if (isProcessing) return;
-    const isVideoMode = mode === CameraMode.VIDEO || mode === CameraMode.LEGION_LINK;
     if (isVideoMode) {
       if (isRecording) stopRecording(); else startRecording();
     } else {
       if (mode === CameraMode.SCOUT) await handleScout();
       else if (mode === CameraMode.CINEMA) handleCinema(aiPrompt);
-      else if (mode === CameraMode.HDR_FUSION) await handleNeuralStack('hdr');
-      else if (mode === CameraMode.NIGHT_STACK) await handleNeuralStack('night');
+      else if (mode === CameraMode.HDR_FUSION) await handleHdr();
+      else if (mode === CameraMode.NIGHT_STACK) await handleNightStack();
+      else if (mode === CameraMode.PORTRAIT) await handlePortrait();
+      else if (mode === CameraMode.PANORAMA) {
+        if (sweepRef.current) await finishSweep(); else startSweep();
+      }
+      else if (mode === CameraMode.TIME_LAPSE) {
+        if (timelapseRef.current) timelapseRef.current.abort(); else startTimelapse();
+      }
+      else if (mode === CameraMode.BURST) {
+        if (!burstRef.current && startBurst()) setTimeout(finishBurst, BURST_TAP_MS);
+      }
       else capturePhoto();
     }
   };
 
+  const finalizeStill = (image: CapturedImage): CapturedImage => ({
+    ...image,
+    url: embedJpegMetadata(image.url, image)
+  });
+
   const capturePhoto = () => {
     if (!videoRef.current || !canvasRef.current) return;
     setShutterPulse(true);
@@ -255,48 +831,421 @@ const CameraInterface = forwardRef<CameraInterfaceHandle, CameraInterfaceProps>(
     }
 
     setTimeout(() => setShutterPulse(false), 200);
-    const ctx = canvasRef.current.getContext('2d');
-    if (!ctx) return;
-    canvasRef.current.width = videoRef.current.videoWidth;
-    canvasRef.current.height = videoRef.current.videoHeight;
-    ctx.filter = FILTER_MAPPING[activeFilter];
-    ctx.drawImage(videoRef.current, 0, 0);
-    const url = canvasRef.current.toDataURL('image/jpeg');
-    onCapture({ 
+    const video = videoRef.current;
+    const url = renderGraded(video, video.videoWidth, video.videoHeight, renderSettings).toDataURL('image/jpeg');
+    onCapture(finalizeStill({ 
       id: crypto.randomUUID(), url, timestamp: Date.now(), mediaType: 'image', 
       analysis: "Quantum Standard Capture", 
-      metadata: { iso: manual.iso.toString(), shutter: manual.shutter, lens: activeLens, mode, filter: activeFilter, zoom: manual.zoom, flash: manual.flashMode } 
+      metadata: { ...sensorMetadata, lens: activeLens, mode, ...gradeMetadata, zoom: manual.zoom, flash: manual.flashMode, location: locationService.getLocation() } 
+    }));
+  };
+
+  const handleHdr = async () => {
+    if (!videoRef.current) return;
+    setIsProcessing(true);
+    setVeoMessage('Bracketing Exposures...');
+    try {
+      const bracket = await captureBracket(videoRef.current, stream?.getVideoTracks()[0], HDR_STOPS, STACK_MAX_EDGE, i => {
+        setBurstCount(i + 1);
+        setShutterPulse(true);
+        setTimeout(() => setShutterPulse(false), 120);
+      });
+      setBurstCount(0);
+      setVeoMessage('Fusing Exposures On-Device...');
+      const fused = await stackingService.fuseExposures(bracket.frames);
+      let url = frameToDataUrl(fused);
+      let analysis = bracket.method === 'synthetic' ? "Quantum HDR Fusion (single-frame tone fusion)" : `Quantum HDR Fusion (${bracket.frames.length}-frame ${bracket.method} bracket)`;
+
+      if (cloudRefine && navigator.onLine) {
+        setVeoMessage('Cloud Refinement...');
+        try {
+          const refined = await neuralStacking([url], 'hdr');
+          if (refined) {
+            url = await toJpegDataUrl(refined);
+            analysis += ' + cloud refinement';
+          }
+        } catch (err) {
+          console.warn("Cloud refinement skipped", err);
+        }
+      }
+      url = await gradeImage(url, renderSettings);
+
+      const id = crypto.randomUUID();
+      const timestamp = Date.now();
+      onCapture(finalizeStill({ 
+        id, url, timestamp, mediaType: 'image', analysis,
+        metadata: { ...sensorMetadata, lens: activeLens, mode, ...gradeMetadata, zoom: manual.zoom, location: locationService.getLocation() },
+        version: { rootId: id, operation: { type: 'stack', kind: 'hdr', frames: bracket.frames.length }, appliedAt: timestamp }
+      }));
+    } catch (err) {
+      console.error("HDR fusion failed", err);
+    } finally {
+      setBurstCount(0);
+      setVeoMessage('Generating Quantum Cinema...');
+      setIsProcessing(false);
+    }
+  };
+
+  const handleNightStack = async () => {
+    if (!videoRef.current) return;
+    const video = videoRef.current;
+    setIsProcessing(true);
+    setVeoMessage('Gathering Light...');
+    try {
+      await waitForFrames(video, 1);
+      const session = await stackingService.beginNightStack(grabFrame(video, STACK_MAX_EDGE));
+      setBurstCount(1);
+      const inFlight: Promise<boolean>[] = [];
+      for (let i = 1; i < nightFrames; i++) {
+        if (inFlight.length >= NIGHT_MAX_IN_FLIGHT) await inFlight.shift();
+        await waitForFrames(video, 1);
+        inFlight.push(stackingService.addNightFrame(session, grabFrame(video, STACK_MAX_EDGE)));
+        setBurstCount(i + 1);
+      }
+      setVeoMessage('Merging Stack On-Device...');
+      await Promise.all(inFlight);
+      const stacked = await stackingService.finishNightStack(session);
+      let url = frameToDataUrl(stacked.frame);
+      let analysis = `Quantum Night Stack (${stacked.frameCount}/${nightFrames} frames merged)`;
+
+      if (cloudRefine && navigator.onLine) {
+        setVeoMessage('Cloud Refinement...');
+        try {
+          const refined = await neuralStacking([url], 'night');
+          if (refined) {
+            url = await toJpegDataUrl(refined);
+            analysis += ' + cloud refinement';
+          }
+        } catch (err) {
+          console.warn("Cloud refinement skipped", err);
+        }
+      }
+      url = await gradeImage(url, renderSettings);
+
+      const id = crypto.randomUUID();
+      const timestamp = Date.now();
+      onCapture(finalizeStill({ 
+        id, url, timestamp, mediaType: 'image', analysis,
+        metadata: { ...sensorMetadata, lens: activeLens, mode, ...gradeMetadata, zoom: manual.zoom, location: locationService.getLocation(), frameCount: stacked.frameCount },
+        version: { rootId: id, operation: { type: 'stack', kind: 'night', frames: stacked.frameCount }, appliedAt: timestamp }
+      }));
+    } catch (err) {
+      console.error("Night stack failed", err);
+    } finally {
+      setBurstCount(0);
+      setVeoMessage('Generating Quantum Cinema...');
+      setIsProcessing(false);
+    }
+  };
+
+  const handlePortrait = async () => {
+    if (!videoRef.current) return;
+    const video = videoRef.current;
+    setIsProcessing(true);
+    setShutterPulse(true);
+    setTimeout(() => setShutterPulse(false), 200);
+    setVeoMessage('Mapping Subject Depth...');
+    try {
+      const sharp = renderGraded(video, video.videoWidth, video.videoHeight, renderSettings, PORTRAIT_MAX_EDGE);
+      const sourceUrl = sharp.toDataURL('image/jpeg', 0.92);
+      const { depth, provider } = await segmentationService.segment(sharp, segmenter);
+      setVeoMessage('Rendering Lens Blur...');
+      const url = await renderPortrait(canvasToFrame(sharp), depth, bokehFor(activeLens, aperture, 1));
+      const providerLabel = segmentationService.list().find(p => p.id === provider)?.label ?? provider;
+
+      const id = crypto.randomUUID();
+      const timestamp = Date.now();
+      onCapture(finalizeStill({ 
+        id, url, timestamp, mediaType: 'image', analysis: `Quantum Portrait (f/${aperture}, ${providerLabel} mask)`,
+        metadata: { ...sensorMetadata, lens: activeLens, mode, ...gradeMetadata, zoom: manual.zoom, location: locationService.getLocation(), aperture, focalPlane: 1, segmentation: provider },
+        version: { rootId: id, operation: { type: 'portrait', aperture, focus: 1 }, appliedAt: timestamp },
+        assets: { [PORTRAIT_SOURCE]: sourceUrl, [PORTRAIT_DEPTH]: planeToDataUrl(depth) }
+      }));
+    } catch (err) {
+      console.error("Portrait render failed", err);
+    } finally {
+      setVeoMessage('Generating Quantum Cinema...');
+      setIsProcessing(false);
+    }
+  };
+
+  const cancelSweep = () => {
+    sweepRef.current?.unsubscribe();
+    sweepRef.current = null;
+    setSweep(null);
+    setBurstCount(0);
+  };
+
+  const startSweep = () => {
+    const video = videoRef.current;
+    const preview = previewRef.current;
+    if (!video || !preview || !video.videoWidth) return;
+    const grab = () => canvasToFrame(renderGraded(video, video.videoWidth, video.videoHeight, renderSettings, PANORAMA_MAX_EDGE));
+    const first = grab();
+    // Motion is measured on the tap's downscaled copy of the preview; scale it to sweep-frame pixels
+    const tapWidth = Math.max(1, Math.round(preview.width * Math.min(1, MOTION_MAX_EDGE / Math.max(preview.width, preview.height))));
+    const tapScale = first.width / tapWidth;
+    const stride = first.width * (1 - PANORAMA_OVERLAP);
+    const state: SweepState = { frames: [first], hints: [undefined], dx: 0, dy: 0, drift: 0, unsubscribe: () => {} };
+    sweepRef.current = state;
+    setBurstCount(1);
+    setSweep({ frames: 1, progress: 0, drift: 0, direction: 0, tooFast: false });
+
+    state.unsubscribe = frameTap.subscribe({ kind: 'motion', fps: SWEEP_FPS, maxEdge: MOTION_MAX_EDGE }, result => {
+      if (result.kind !== 'motion' || sweepRef.current !== state) return;
+      // The tap reports the shift mapping the current frame onto the previous one; frame offsets run the other way
+      state.dx -= result.dx * tapScale;
+      state.dy -= result.dy * tapScale;
+      state.drift -= result.dy * tapScale;
+      if (Math.abs(state.dx) >= stride) {
+        state.frames.push(grab());
+        state.hints.push({ dx: state.dx, dy: state.dy });
+        state.dx = 0;
+        state.dy = 0;
+        setBurstCount(state.frames.length);
+        setShutterPulse(true);
+        setTimeout(() => setShutterPulse(false), 120);
+      }
+      setSweep({
+        frames: state.frames.length,
+        progress: Math.min(1, Math.abs(state.dx) / stride),
+        drift: state.drift / first.height,
+        direction: Math.sign(state.dx),
+        tooFast: Math.hypot(result.dx, result.dy) > SWEEP_FAST_SHIFT,
+      });
+      if (state.frames.length >= PANORAMA_MAX_FRAMES) finishSweep();
     });
   };
 
-  const handleNeuralStack = async (type: 'hdr' | 'night') => {
-    if (!videoRef.current || !canvasRef.current) return;
+  const finishSweep = async () => {
+    const state = sweepRef.current;
+    if (!state) return;
+    cancelSweep();
+    if (state.frames.length < 2) return;
     setIsProcessing(true);
-    const ctx = canvasRef.current.getContext('2d');
-    if (!ctx) return;
-    canvasRef.current.width = videoRef.current.videoWidth;
-    canvasRef.current.height = videoRef.current.videoHeight;
-    const frames: string[] = [];
-    const burstSize = 3;
+    setVeoMessage('Stitching Panorama On-Device...');
+    try {
+      const fov = sweepFov(activeLens, manual.zoom);
+      const assets = Object.fromEntries(state.frames.map((f, i) => [panoramaFrameKey(i), frameToDataUrl(f)]));
+      const captured = state.frames.length;
+      const { url, frameCount } = await stitchToDataUrl(state.frames, fov, state.hints);
+
+      const id = crypto.randomUUID();
+      const timestamp = Date.now();
+      onCapture(finalizeStill({ 
+        id, url, timestamp, mediaType: 'image', analysis: `Quantum Panorama (${frameCount}/${captured} frames stitched at ${fov}° FOV)`,
+        metadata: { ...sensorMetadata, lens: activeLens, mode, ...gradeMetadata, zoom: manual.zoom, location: locationService.getLocation(), frameCount },
+        version: { rootId: id, operation: { type: 'stitch', frames: captured, fov }, appliedAt: timestamp },
+        assets
+      }));
+    } catch (err) {
+      console.error("Panorama stitch failed", err);
+    } finally {
+      setVeoMessage('Generating Quantum Cinema...');
+      setIsProcessing(false);
+    }
+  };
+
+  const startTimelapse = async () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const controller = new AbortController();
+    timelapseRef.current = controller;
+    const config = timelapse;
 
-    for (let i = 0; i < burstSize; i++) {
-      setBurstCount(i + 1);
+    const grabStill = async (gain: number): Promise<TimelapseStill> => {
+      const settings = renderSettingsRef.current!;
+      const canvas = renderGraded(video, video.videoWidth, video.videoHeight, { ...settings, ev: settings.ev + gain }, TIMELAPSE_MAX_EDGE);
+      const meter = toLuma(canvasToFrame(canvas, 64));
+      const luma = meter.data.reduce((sum, v) => sum + v, 0) / meter.data.length;
+      const blob = await new Promise<Blob>((resolve, reject) =>
+        canvas.toBlob(b => b ? resolve(b) : reject(new Error('Still encode failed')), 'image/jpeg', 0.92));
       setShutterPulse(true);
-      ctx.filter = type === 'hdr' 
-        ? `brightness(${0.5 + i * 0.5}) contrast(${1.0 + i * 0.1})` 
-        : `brightness(${1.5 + i * 0.5}) contrast(0.9)`;
-      ctx.drawImage(videoRef.current, 0, 0);
-      frames.push(canvasRef.current.toDataURL('image/jpeg', 0.8));
-      await new Promise(r => setTimeout(r, 150));
-      setShutterPulse(false);
-      await new Promise(r => setTimeout(r, 50));
+      setTimeout(() => setShutterPulse(false), 120);
+      return { blob, luma };
+    };
+
+    try {
+      const run = await runTimelapse(config, stream?.getVideoTracks()[0], grabStill, status => {
+        setTimelapseStatus(status);
+        setBurstCount(status.frame);
+      }, controller.signal);
+      timelapseRef.current = null;
+      setTimelapseStatus(null);
+      if (run.stills.length < 2) return;
+
+      setIsProcessing(true);
+      setVeoMessage('Assembling Time-Lapse...');
+      const clip = await assembleClip(run.stills, config.fps, profile, i => setBurstCount(i + 1));
+      const locks = [run.exposureLocked && 'AE', run.whiteBalanceLocked && 'WB'].filter(Boolean).join('/');
+      const ramp = Math.round(run.ramp * 10) / 10;
+      const url = URL.createObjectURL(clip.blob);
+      const poster = await clipPoster(url).catch(err => { console.warn("Poster extraction failed", err); return null; });
+      onCapture({ 
+        id: crypto.randomUUID(), url, timestamp: Date.now(), mediaType: 'video',
+        analysis: `Quantum Time-Lapse (${run.stills.length} frames every ${config.interval}s at ${config.fps}fps${locks ? `, ${locks} locked` : ''}${ramp ? `, ramped ${ramp > 0 ? '+' : ''}${ramp} EV` : ''})`,
+        metadata: { ...sensorMetadata, lens: activeLens, mode, ...gradeMetadata, zoom: manual.zoom, location: locationService.getLocation(), frameCount: run.stills.length, interval: config.interval, ramp: ramp || undefined, format: clip.format },
+        assets: { ...Object.fromEntries(run.stills.map((blob, i) => [timelapseStillKey(i), URL.createObjectURL(blob)])), ...(poster ? { [CLIP_POSTER]: poster } : {}) }
+      });
+    } catch (err) {
+      console.error("Time-lapse failed", err);
+    } finally {
+      timelapseRef.current = null;
+      setTimelapseStatus(null);
+      setBurstCount(0);
+      setVeoMessage('Generating Quantum Cinema...');
+      setIsProcessing(false);
     }
+  };
+
+  /** Fills the ring buffer with every frame the stream presents until finishBurst. */
+  const startBurst = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth || burstRef.current || burstReview || isProcessing) return false;
+    const state: BurstState = { frames: [], captured: 0 };
+    burstRef.current = state;
+    const scale = Math.min(1, BURST_MAX_EDGE / Math.max(video.videoWidth, video.videoHeight));
+    const resizeWidth = Math.round(video.videoWidth * scale);
+    const resizeHeight = Math.round(video.videoHeight * scale);
+
+    const grab = async () => {
+      if (burstRef.current !== state) return;
+      // Both reads snapshot the frame currently presented
+      const sample = grabFrame(video, BURST_SCORE_MAX_EDGE);
+      const pending = createImageBitmap(video, { resizeWidth, resizeHeight });
+      try {
+        const bitmap = await pending;
+        if (burstRef.current !== state) { bitmap.close(); return; }
+        const frame: BurstFrame = { index: state.captured++, bitmap, scored: Promise.resolve() };
+        frame.scored = stackingService.scoreFrame(sample)
+          .then(score => { frame.score = score; })
+          .catch(err => console.warn("Burst scoring failed", err));
+        state.frames.push(frame);
+        if (state.frames.length > BURST_CAPACITY) state.frames.shift()!.bitmap.close();
+        setBurstCount(state.captured);
+      } catch (err) {
+        console.error("Burst frame grab failed", err);
+      }
+      waitForFrames(video, 1).then(grab);
+    };
+    grab();
+    return true;
+  };
+
+  const finishBurst = async () => {
+    const state = burstRef.current;
+    if (!state) return;
+    burstRef.current = null;
     setBurstCount(0);
-    const resultUrl = await neuralStacking(frames, type);
-    if (resultUrl) {
-      onCapture({ id: crypto.randomUUID(), url: resultUrl, timestamp: Date.now(), mediaType: 'image', analysis: type === 'hdr' ? "Quantum HDR Fusion" : "Quantum Night Stack" });
+    if (state.frames.length === 0) return;
+    setIsProcessing(true);
+    setVeoMessage('Ranking Burst Frames...');
+    try {
+      await Promise.all(state.frames.map(f => f.scored));
+      const ratings = rateBurst(state.frames.map(f => f.score ?? { sharpness: 0, motionBlur: 1, exposure: 0 }));
+      const candidates = state.frames.map((f, i) => ({
+        index: f.index,
+        rating: ratings[i],
+        thumb: renderGraded(f.bitmap, f.bitmap.width, f.bitmap.height, renderSettings, BURST_THUMB_MAX_EDGE).toDataURL('image/jpeg', 0.8),
+      }));
+      setBurstReview({ frames: state.frames, candidates, captured: state.captured });
+    } catch (err) {
+      console.error("Burst review failed", err);
+      state.frames.forEach(f => f.bitmap.close());
+    } finally {
+      setVeoMessage('Generating Quantum Cinema...');
+      setIsProcessing(false);
     }
-    setIsProcessing(false);
+  };
+
+  const cancelBurst = () => {
+    const state = burstRef.current;
+    burstRef.current = null;
+    state?.frames.forEach(f => f.bitmap.close());
+    setBurstCount(0);
+    setBurstReview(prev => {
+      prev?.frames.forEach(f => f.bitmap.close());
+      return null;
+    });
+  };
+
+  const commitBurst = (indices: number[]) => {
+    if (!burstReview) return;
+    const { frames, candidates, captured } = burstReview;
+    const ranked = [...candidates].sort((a, b) => b.rating - a.rating).map(c => c.index);
+    const timestamp = Date.now();
+    for (const frame of frames.filter(f => indices.includes(f.index))) {
+      const url = renderGraded(frame.bitmap, frame.bitmap.width, frame.bitmap.height, renderSettings).toDataURL('image/jpeg');
+      onCapture(finalizeStill({ 
+        id: crypto.randomUUID(), url, timestamp: timestamp + frame.index, mediaType: 'image',
+        analysis: `Quantum Burst (frame ${frame.index + 1}/${captured}, ranked ${ranked.indexOf(frame.index) + 1} of ${frames.length})`,
+        metadata: { ...sensorMetadata, lens: activeLens, mode, ...gradeMetadata, zoom: manual.zoom, location: locationService.getLocation() }
+      }));
+    }
+    frames.forEach(f => f.bitmap.close());
+    setBurstReview(null);
+  };
+
+  /** Keeps an unlocked reticle on screen for a moment after the last interaction. */
+  const holdReticle = (locked: boolean) => {
+    if (reticleTimerRef.current) clearTimeout(reticleTimerRef.current);
+    reticleTimerRef.current = locked ? null : window.setTimeout(() => setReticle(r => r?.locked ? r : null), RETICLE_HOLD_MS);
+  };
+
+  const meterPoint = async (gesture: ViewfinderGesture, lock: boolean) => {
+    const video = videoRef.current;
+    const preview = previewRef.current;
+    if (!video || !preview || !preview.width) return;
+    // The viewfinder shows the desqueezed preview with object-cover; normalised coordinates are shared with the raw stream
+    const point = viewToFrame(gesture.x, gesture.y, gesture.width, gesture.height, preview.width, preview.height);
+    const track = stream?.getVideoTracks()[0];
+    const hardware = await meterAt(track, point);
+    setMeterBias(hardware ? 0 : spotMeter(grabFrame(video, METER_MAX_EDGE), point));
+    let lockState: MeteringLock | undefined;
+    if (lock) {
+      if (hardware) await waitForFrames(video, SETTLE_FRAMES);
+      lockState = await lockMetering(track);
+    }
+    setReticle({ x: (gesture.x / gesture.width) * 100, y: (gesture.y / gesture.height) * 100, locked: lock, hardware, lock: lockState });
+    holdReticle(lock);
+  };
+
+  const handleViewfinderDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.target !== e.currentTarget && e.target !== videoRef.current) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const gesture: ViewfinderGesture = {
+      x: e.clientX - rect.left, y: e.clientY - rect.top, width: rect.width, height: rect.height,
+      startEv: manual.ev, moved: false, longPress: false, timer: 0,
+    };
+    gesture.timer = window.setTimeout(() => {
+      gesture.longPress = true;
+      meterPoint(gesture, true);
+    }, LONG_PRESS_MS);
+    gestureRef.current = gesture;
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handleViewfinderMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const gesture = gestureRef.current;
+    if (!gesture) return;
+    const dy = e.clientY - e.currentTarget.getBoundingClientRect().top - gesture.y;
+    if (!gesture.moved && Math.abs(dy) < DRAG_THRESHOLD) return;
+    if (!gesture.moved) {
+      gesture.moved = true;
+      clearTimeout(gesture.timer);
+    }
+    if (!reticle) return;
+    const ev = Math.round(Math.min(evSpan, Math.max(-evSpan, gesture.startEv - dy / BIAS_PX_PER_STOP)) * 10) / 10;
+    setManual(m => ({ ...m, ev }));
+    holdReticle(reticle.locked);
+  };
+
+  const handleViewfinderUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const gesture = gestureRef.current;
+    gestureRef.current = null;
+    if (!gesture) return;
+    clearTimeout(gesture.timer);
+    if (e.type === 'pointerup' && !gesture.moved && !gesture.longPress) meterPoint(gesture, false);
   };
 
   const handleScout = async () => {
@@ -304,12 +1253,13 @@ const CameraInterface = forwardRef<CameraInterfaceHandle, CameraInterfaceProps>(
     setIsProcessing(true);
     const ctx = canvasRef.current.getContext('2d');
     if (!ctx) return;
-    canvasRef.current.width = videoRef.current.videoWidth;
-    canvasRef.current.height = videoRef.current.videoHeight;
-    ctx.drawImage(videoRef.current, 0, 0);
-    const dataUrl = canvasRef.current.toDataURL('image/jpeg');
-    const result = await scoutScene(dataUrl);
-    onCapture({ id: crypto.randomUUID(), url: dataUrl, timestamp: Date.now(), mediaType: 'image', analysis: result.text, grounding: result.grounding });
+    const dataUrl = renderGraded(videoRef.current, videoRef.current.videoWidth, videoRef.current.videoHeight, renderSettings).toDataURL('image/jpeg');
+    const location = locationService.getLocation();
+    const result = await scoutScene(dataUrl, location?.latitude, location?.longitude);
+    onCapture(finalizeStill({ 
+      id: crypto.randomUUID(), url: dataUrl, timestamp: Date.now(), mediaType: 'image', analysis: result.text, grounding: result.grounding,
+      metadata: { iso: 'Auto', shutter: 'Auto', deviceId: activeDeviceId, lens: activeLens, mode, ...gradeMetadata, zoom: manual.zoom, location }
+    }));
     setGroundingLabels(result.labels || []);
     setIsProcessing(false);
   };
@@ -337,7 +1287,26 @@ const CameraInterface = forwardRef<CameraInterfaceHandle, CameraInterfaceProps>(
     setIsProcessing(false);
   };
 
-  const filterStyle = FILTER_MAPPING[activeFilter];
+  const handleLutImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    setLutError(null);
+    for (const file of files) {
+      try {
+        const preset = await lutLibrary.importCube(file);
+        setActiveFilter(preset.id);
+      } catch (err) {
+        console.error("LUT import failed", err);
+        setLutError(`${file.name}: ${err instanceof Error ? err.message : 'import failed'}`);
+      }
+    }
+  };
+
+  const handleLutRemove = async (id: string) => {
+    if (activeFilter === id) setActiveFilter(CameraFilter.NONE);
+    await lutLibrary.remove(id).catch(err => console.error("LUT removal failed", err));
+  };
+
 
   return (
     <div className="relative w-full h-full bg-[#030303] flex flex-col overflow-hidden">
@@ -350,7 +1319,39 @@ const CameraInterface = forwardRef<CameraInterfaceHandle, CameraInterfaceProps>(
                   {isRecording ? `CORE_REC_${recordingTime}s` : mode}
                 </span>
              </div>
-             <Histogram videoRef={videoRef} />
+             {isVideoMode && preRoll > 0 && (
+               <span className="text-[8px] mono uppercase tracking-widest text-cyan-400/70">
+                 {isRecording ? `◉ +${preRoll}s Pre-Roll` : `◌ Buffering ${preRoll}s`}
+               </span>
+             )}
+             {isRecording && (
+               <div className="flex items-center gap-2">
+                 <AudioMeters meter={meter} compact />
+                 {audio.recordWav && <span className="text-[8px] mono uppercase tracking-widest text-cyan-400/70">+WAV</span>}
+               </div>
+             )}
+             {(mode === CameraMode.HDR_FUSION || mode === CameraMode.NIGHT_STACK) && (
+               <span className={`text-[8px] mono uppercase tracking-widest ${isSteady ? 'text-cyan-400/70' : 'text-amber-400 animate-pulse'}`}>
+                 {isSteady ? '◉ Steady' : '◌ Hold Still'}
+               </span>
+             )}
+             {mode === CameraMode.PORTRAIT && (
+               <span className="text-[8px] mono uppercase tracking-widest text-cyan-400/70">◎ f/{aperture}</span>
+             )}
+             {mode === CameraMode.BURST && (
+               <span className={`text-[8px] mono uppercase tracking-widest ${burstCount > 0 ? 'text-amber-400' : 'text-cyan-400/70'}`}>
+                 {burstCount > 0 ? `⁂ Bursting // ${Math.min(burstCount, BURST_CAPACITY)}/${BURST_CAPACITY} Buffered` : '⁂ Hold Shutter to Burst'}
+               </span>
+             )}
+             {mode === CameraMode.TIME_LAPSE && (
+               <span className={`text-[8px] mono uppercase tracking-widest ${timelapseStatus ? 'text-amber-400' : 'text-cyan-400/70'}`}>
+                 {!timelapseStatus
+                   ? `⧗ ${timelapse.interval}s × ${timelapseFrameCount(timelapse)} → ${(timelapseFrameCount(timelapse) / timelapse.fps).toFixed(1)}s`
+                   : timelapseStatus.phase === 'DELAY'
+                     ? `⧗ Start in ${Math.max(0, Math.ceil((timelapseStatus.nextAt - clock) / 1000))}s`
+                     : `⧗ ${timelapseStatus.frame}/${timelapseStatus.total} // Next ${Math.max(0, Math.ceil((timelapseStatus.nextAt - clock) / 1000))}s${timelapseStatus.ramp ? ` // Ramp ${timelapseStatus.ramp > 0 ? '+' : ''}${timelapseStatus.ramp.toFixed(1)} EV` : ''}`}
+               </span>
+             )}
           </div>
           <div className="flex flex-col gap-4 items-end pointer-events-auto">
             <button 
@@ -382,6 +1383,28 @@ const CameraInterface = forwardRef<CameraInterfaceHandle, CameraInterfaceProps>(
           </div>
         </div>
         
+        <ScopesPanel />
+
+        {mode === CameraMode.PANORAMA && (
+          <div className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 w-2/3 flex flex-col items-center gap-3">
+            <div className="relative w-full h-12 border-y border-white/10">
+              <div className="absolute left-0 right-0 top-1/2 h-px bg-cyan-400/40" />
+              {sweep && (
+                <div 
+                  className={`absolute w-4 h-4 -ml-2 -mt-2 rounded-full border-2 transition-all duration-75 ${sweep.tooFast || Math.abs(sweep.drift) > SWEEP_MAX_DRIFT ? 'border-amber-400' : 'border-cyan-400'}`}
+                  style={{ left: `${50 + sweep.direction * sweep.progress * 45}%`, top: `calc(50% + ${Math.max(-22, Math.min(22, sweep.drift * 400))}px)` }}
+                />
+              )}
+            </div>
+            <span className={`text-[8px] mono uppercase tracking-widest ${sweep && (sweep.tooFast || Math.abs(sweep.drift) > SWEEP_MAX_DRIFT) ? 'text-amber-400 animate-pulse' : 'text-cyan-400/70'}`}>
+              {!sweep ? 'Press shutter, then sweep steadily'
+                : sweep.tooFast ? 'Slow Down'
+                : Math.abs(sweep.drift) > SWEEP_MAX_DRIFT ? 'Keep the Line Level'
+                : `Sweep ${sweep.frames}/${PANORAMA_MAX_FRAMES} // Press to Finish`}
+            </span>
+          </div>
+        )}
+
         {/* Zoom Slider (Vertical Left) */}
         <div className="absolute left-8 top-1/2 -translate-y-1/2 flex flex-col items-center gap-4 pointer-events-auto group">
            <span className="text-[8px] mono text-cyan-400 font-bold uppercase tracking-widest">{manual.zoom.toFixed(1)}x</span>
@@ -443,32 +1466,35 @@ const CameraInterface = forwardRef<CameraInterfaceHandle, CameraInterfaceProps>(
 
         {mode === CameraMode.M_PRO && (
           <div className="absolute right-8 top-1/2 -translate-y-1/2 flex flex-col gap-12 pointer-events-auto">
-             <div className="flex flex-col items-center gap-3 group">
-                <span className="text-[8px] mono text-cyan-400 font-bold uppercase tracking-widest">ISO {manual.iso}</span>
+             <div className={`flex flex-col items-center gap-3 group ${ranges.iso ? '' : 'opacity-30'}`}>
+                <span className="text-[8px] mono text-cyan-400 font-bold uppercase tracking-widest">
+                  {!ranges.iso ? 'ISO N/A' : manual.autoExposure ? 'ISO Auto' : `ISO ${manual.iso}`}
+                </span>
                 <div className="relative h-40 w-1.5 bg-white/10 rounded-full flex flex-col items-center">
                   <input 
-                    type="range" min="50" max="3200" step="50" value={manual.iso}
-                    onChange={(e) => setManual({...manual, iso: parseInt(e.target.value)})}
-                    className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                    type="range" min={isoRange.min} max={isoRange.max} step={isoRange.step || 1} value={manual.iso}
+                    disabled={!ranges.iso}
+                    onChange={(e) => setManual({...manual, iso: parseInt(e.target.value), autoExposure: false})}
+                    className="absolute inset-0 w-full h-full opacity-0 cursor-pointer disabled:cursor-not-allowed"
                     style={{ appearance: 'slider-vertical', writingMode: 'bt-lr' } as any}
                   />
                   <div 
                     className="absolute bottom-0 w-full bg-cyan-400 rounded-full transition-all duration-75"
-                    style={{ height: `${((manual.iso - 50) / 3150) * 100}%` }}
+                    style={{ height: `${((manual.iso - isoRange.min) / (isoRange.max - isoRange.min)) * 100}%` }}
                   />
                   <div 
                     className="absolute w-4 h-4 bg-cyan-400 rounded-full shadow-[0_0_15px_rgba(34,211,238,0.6)] border-2 border-white pointer-events-none"
-                    style={{ bottom: `calc(${((manual.iso - 50) / 3150) * 100}% - 8px)` }}
+                    style={{ bottom: `calc(${((manual.iso - isoRange.min) / (isoRange.max - isoRange.min)) * 100}% - 8px)` }}
                   />
                 </div>
              </div>
              
              {/* Exposure Slider (Prominent) */}
              <div className="flex flex-col items-center gap-3 group">
-                <span className="text-[8px] mono text-amber-400 font-bold uppercase tracking-widest">EV {manual.ev > 0 ? `+${manual.ev}` : manual.ev}</span>
+                <span className="text-[8px] mono text-amber-400 font-bold uppercase tracking-widest">EV {manual.ev > 0 ? `+${manual.ev}` : manual.ev}{tone.ev ? '' : ' SW'}</span>
                 <div className="relative h-40 w-1.5 bg-white/10 rounded-full flex flex-col items-center">
                   <input 
-                    type="range" min="-3" max="3" step="0.1" value={manual.ev}
+                    type="range" min={-evSpan} max={evSpan} step={evRange.step || 0.1} value={manual.ev}
                     onChange={(e) => setManual({...manual, ev: parseFloat(e.target.value)})}
                     className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
                     style={{ appearance: 'slider-vertical', writingMode: 'bt-lr' } as any}
@@ -477,13 +1503,13 @@ const CameraInterface = forwardRef<CameraInterfaceHandle, CameraInterfaceProps>(
                   <div 
                     className="absolute bottom-1/2 w-full bg-amber-400 rounded-full transition-all duration-75"
                     style={{ 
-                      height: `${Math.abs(manual.ev / 3) * 50}%`,
-                      bottom: manual.ev >= 0 ? '50%' : `calc(50% - ${Math.abs(manual.ev / 3) * 50}%)`
+                      height: `${Math.abs(manual.ev / evSpan) * 50}%`,
+                      bottom: manual.ev >= 0 ? '50%' : `calc(50% - ${Math.abs(manual.ev / evSpan) * 50}%)`
                     }}
                   />
                   <div 
                     className="absolute w-4 h-4 bg-amber-400 rounded-full shadow-[0_0_15px_rgba(251,191,36,0.6)] border-2 border-white pointer-events-none"
-                    style={{ bottom: `calc(${((manual.ev + 3) / 6) * 100}% - 8px)` }}
+                    style={{ bottom: `calc(${((manual.ev + evSpan) / (2 * evSpan)) * 100}% - 8px)` }}
                   />
                 </div>
              </div>
@@ -491,16 +1517,52 @@ const CameraInterface = forwardRef<CameraInterfaceHandle, CameraInterfaceProps>(
         )}
       </div>
 
-      <div className={`flex-1 relative transition-all duration-200 ${shutterPulse ? 'brightness-[2.0] saturate-[1.5] contrast-[1.5] scale-[1.02]' : ''}`}>
+      <div 
+        className={`flex-1 relative touch-none transition-all duration-200 ${shutterPulse ? 'brightness-[2.0] saturate-[1.5] contrast-[1.5] scale-[1.02]' : ''}`}
+        onPointerDown={handleViewfinderDown}
+        onPointerMove={handleViewfinderMove}
+        onPointerUp={handleViewfinderUp}
+        onPointerCancel={handleViewfinderUp}
+      >
         <video 
           ref={videoRef} autoPlay playsInline muted 
-          className="absolute inset-0 w-full h-full object-cover transition-all duration-500"
-          style={{ 
-            filter: `${filterStyle} brightness(${1 + manual.ev * 0.3}) contrast(${1 + Math.abs(manual.ev) * 0.1})`,
-            transform: activeLens.includes('ANAMORPHIC') ? 'scaleX(1.33)' : 'none'
-          }}
+          className="absolute inset-0 w-full h-full object-cover"
+        />
+        {/* Graded viewfinder: the same render path capturePhoto uses */}
+        <canvas 
+          ref={previewRef}
+          className="absolute inset-0 w-full h-full object-cover pointer-events-none"
+        />
+        <canvas 
+          ref={assistRef}
+          className={`absolute inset-0 w-full h-full object-cover pointer-events-none ${hasAssists(assists) ? '' : 'hidden'}`}
         />
         
+        {reticle && (
+          <div 
+            className="absolute pointer-events-none animate-in zoom-in-75 fade-in"
+            style={{ left: `${reticle.x}%`, top: `${reticle.y}%`, transform: 'translate(-50%, -50%)' }}
+          >
+            <div className={`w-20 h-20 border ${reticle.locked ? 'border-amber-400' : 'border-cyan-400'}`} />
+            <div className="absolute left-full top-0 ml-3 h-20 w-4 flex justify-center">
+              <div className="w-px h-full bg-white/30" />
+              <span 
+                className="absolute text-[10px] text-amber-400 -translate-y-1/2"
+                style={{ top: `${50 - (manual.ev / evSpan) * 50}%` }}
+              >
+                ☀
+              </span>
+            </div>
+            {(reticle.locked || !reticle.hardware) && (
+              <span className="absolute top-full left-1/2 -translate-x-1/2 mt-2 text-[7px] mono font-bold uppercase tracking-widest whitespace-nowrap text-amber-400">
+                {reticle.locked
+                  ? `${reticle.lock?.exposure && reticle.lock?.focus ? 'AE/AF' : reticle.lock?.exposure ? 'AE' : reticle.lock?.focus ? 'AF' : 'SW'} Lock`
+                  : 'SW Meter'}
+              </span>
+            )}
+          </div>
+        )}
+
         {mode === CameraMode.CINEMA && (
           <div className="absolute inset-0 flex flex-col pointer-events-none">
             <div className="h-20 w-full bg-black/80 backdrop-blur-sm" />
@@ -509,6 +1571,16 @@ const CameraInterface = forwardRef<CameraInterfaceHandle, CameraInterfaceProps>(
           </div>
         )}
 
+        {burstReview && (
+          <BurstReviewSheet 
+            candidates={burstReview.candidates}
+            captured={burstReview.captured}
+            picks={BURST_PICKS}
+            onCommit={commitBurst}
+            onDiscard={cancelBurst}
+          />
+        )}
+
         {isProcessing && (
           <div className="absolute inset-0 bg-black/85 backdrop-blur-3xl flex flex-col items-center justify-center z-50 animate-in fade-in">
              <BrandLogo size={120} glow className="animate-spin-slow mb-8 text-cyan-400" />
@@ -540,60 +1612,501 @@ const CameraInterface = forwardRef<CameraInterfaceHandle, CameraInterfaceProps>(
 
         <div className="flex-1 overflow-hidden relative">
             {activeUnit === 'optics' && (
-              <div className="flex gap-4 w-full overflow-x-auto no-scrollbar py-2">
-                {Object.values(LensProfile).map(l => (
-                   <button 
-                    key={l} onClick={() => onLensChange(l)}
-                    className={`h-12 px-8 border text-[9px] roman font-black rounded-2xl whitespace-nowrap transition-all uppercase ${activeLens === l ? 'border-cyan-400 text-cyan-400 bg-cyan-400/10 shadow-[0_0_15px_rgba(34,211,238,0.2)]' : 'border-white/5 text-white/30 hover:bg-white/5'}`}
-                   >
-                     {l.replace('_', ' ')}
-                   </button>
-                ))}
+              <div className="flex flex-col gap-3">
+                <div className="flex gap-4 w-full overflow-x-auto no-scrollbar py-2">
+                  {Object.values(LensProfile).map(l => (
+                     <button 
+                      key={l} onClick={() => onLensChange(l)}
+                      className={`h-12 px-8 border text-[9px] roman font-black rounded-2xl whitespace-nowrap transition-all uppercase ${activeLens === l ? 'border-cyan-400 text-cyan-400 bg-cyan-400/10 shadow-[0_0_15px_rgba(34,211,238,0.2)]' : 'border-white/5 text-white/30 hover:bg-white/5'}`}
+                     >
+                       {l.replace('_', ' ')}
+                     </button>
+                  ))}
+                </div>
+                {cameras.length > 1 && (
+                  <div className="flex gap-2 w-full overflow-x-auto no-scrollbar items-center">
+                    <span className="text-[8px] mono text-white/30 uppercase tracking-widest whitespace-nowrap shrink-0">
+                      {swapQueued ? 'Swap After Take' : 'Sensor'}
+                    </span>
+                    <button 
+                      onClick={() => cameraDevices.assign(activeLens, undefined).catch(err => console.error("Lens assignment failed", err))}
+                      className={`h-8 px-3 rounded-lg text-[8px] font-bold uppercase whitespace-nowrap transition-all border ${!cameraDevices.assignment(activeLens) ? 'border-cyan-400 bg-cyan-400/10 text-white' : 'border-white/5 text-white/20'}`}
+                    >
+                      Auto
+                    </button>
+                    {cameras.map(c => (
+                      <button 
+                        key={c.deviceId}
+                        onClick={() => cameraDevices.assign(activeLens, c.deviceId).catch(err => console.error("Lens assignment failed", err))}
+                        title={c.label}
+                        className={`h-8 px-3 rounded-lg text-[8px] font-bold uppercase whitespace-nowrap transition-all border ${cameraDevices.assignment(activeLens) === c.deviceId ? 'border-cyan-400 bg-cyan-400/10 text-white' : 'border-white/5 text-white/20'} ${activeDeviceId === c.deviceId ? 'underline decoration-cyan-400' : ''}`}
+                      >
+                        {c.facing === 'front' ? '◐ ' : ''}{c.label.length > 18 ? `${c.label.slice(0, 18)}…` : c.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
               </div>
             )}
             {activeUnit === 'filtrum' && (
               <div className="flex gap-4 w-full overflow-x-auto no-scrollbar py-2">
-                {Object.values(CameraFilter).map(f => (
-                   <button 
-                    key={f} onClick={() => setActiveFilter(f)}
-                    className={`h-12 px-8 border text-[9px] roman font-black rounded-2xl whitespace-nowrap transition-all uppercase ${activeFilter === f ? 'border-cyan-400 text-cyan-400 bg-cyan-400/10 shadow-[0_0_15px_rgba(34,211,238,0.2)]' : 'border-white/5 text-white/30 hover:bg-white/5'}`}
-                   >
-                     {f.replace('_', ' ')}
-                   </button>
+                {presets.map(p => (
+                   <div key={p.id} className="relative shrink-0">
+                     <button 
+                      onClick={() => setActiveFilter(p.id)}
+                      title={p.size ? `${p.size}³ LUT` : undefined}
+                      className={`h-12 px-8 border text-[9px] roman font-black rounded-2xl whitespace-nowrap transition-all uppercase ${activeFilter === p.id ? 'border-cyan-400 text-cyan-400 bg-cyan-400/10 shadow-[0_0_15px_rgba(34,211,238,0.2)]' : 'border-white/5 text-white/30 hover:bg-white/5'}`}
+                     >
+                       {p.name}
+                       {!p.builtin && <span className="ml-2 text-[7px] mono opacity-50">.CUBE</span>}
+                     </button>
+                     {!p.builtin && (
+                       <button 
+                        onClick={() => handleLutRemove(p.id)}
+                        className="absolute -top-1 -right-1 w-5 h-5 rounded-full bg-black border border-white/20 text-[8px] text-white/60 hover:text-red-400"
+                       >
+                         ✕
+                       </button>
+                     )}
+                   </div>
                 ))}
+                <button 
+                  onClick={() => lutInputRef.current?.click()}
+                  className="h-12 px-8 border border-dashed border-white/20 text-[9px] roman font-black rounded-2xl whitespace-nowrap transition-all uppercase text-white/40 hover:bg-white/5 shrink-0"
+                >
+                  + Import .cube
+                </button>
+                <input ref={lutInputRef} type="file" accept=".cube" multiple className="hidden" onChange={handleLutImport} />
+                {lutError && (
+                  <span className="self-center text-[8px] mono text-red-400 uppercase whitespace-nowrap">{lutError}</span>
+                )}
               </div>
             )}
             {activeUnit === 'manual' && (
-              <div className="flex flex-col gap-4 animate-in slide-in-from-bottom-2">
-                 <div className="flex justify-between items-center px-4">
-                    <div className="flex flex-col">
+              <div className="flex flex-col gap-4 h-full overflow-y-auto no-scrollbar animate-in slide-in-from-bottom-2">
+                 <div className="flex justify-between items-center px-4 gap-4">
+                    <div className="flex flex-col shrink-0">
                        <span className="text-[8px] mono text-white/40 uppercase">Quantum Control</span>
                        <span className="text-[10px] roman font-black text-white">MANUAL_PRECISION</span>
                     </div>
-                    <div className="flex gap-2">
-                       {['1/60', '1/125', '1/250', '1/500', '1/1000'].map(s => (
+                    <div className="flex gap-2 overflow-x-auto no-scrollbar">
+                       <button 
+                        onClick={() => setManual({...manual, autoExposure: !manual.autoExposure})}
+                        disabled={!ranges.exposureTime && !ranges.iso}
+                        className={`px-4 py-2 border rounded-xl text-[9px] font-bold transition-all disabled:opacity-30 ${manual.autoExposure ? 'border-cyan-400 text-cyan-400 bg-cyan-400/10' : 'border-white/5 text-white/20'}`}
+                       >
+                         AE
+                       </button>
+                       {shutterStops(ranges.exposureTime).map(s => (
                          <button 
-                          key={s} onClick={() => setManual({...manual, shutter: s})}
-                          className={`px-4 py-2 border rounded-xl text-[9px] font-bold transition-all ${manual.shutter === s ? 'border-cyan-400 text-cyan-400 bg-cyan-400/10' : 'border-white/5 text-white/20'}`}
+                          key={s} onClick={() => setManual({...manual, shutter: s, autoExposure: false})}
+                          disabled={!ranges.exposureTime}
+                          className={`px-4 py-2 border rounded-xl text-[9px] font-bold whitespace-nowrap transition-all disabled:opacity-30 ${!manual.autoExposure && manual.shutter === s ? 'border-cyan-400 text-cyan-400 bg-cyan-400/10' : 'border-white/5 text-white/20'}`}
                          >
                            {s}
                          </button>
                        ))}
+                       {!ranges.exposureTime && (
+                         <span className="self-center text-[7px] mono text-amber-400/70 uppercase whitespace-nowrap">Shutter N/A</span>
+                       )}
                     </div>
                  </div>
                  <div className="flex justify-between items-center px-4 mt-2">
-                    <span className="text-[8px] mono text-white/30 uppercase tracking-widest">White Balance</span>
+                    <span className="text-[8px] mono text-white/30 uppercase tracking-widest">
+                      White Balance{ranges.colorTemperature ? '' : ' // SW'}
+                    </span>
                     <div className="flex gap-1">
-                      {[3200, 4000, 5600, 6500].map(temp => (
+                      <button 
+                        onClick={() => setManual({...manual, autoWhiteBalance: true})}
+                        className={`w-12 h-8 rounded-lg text-[8px] font-bold transition-all border ${manual.autoWhiteBalance ? 'border-cyan-400 bg-cyan-400/10 text-white' : 'border-white/5 text-white/20'}`}
+                      >
+                        AWB
+                      </button>
+                      {[3200, 4000, 5600, 6500].filter(temp => !ranges.colorTemperature || (temp >= ranges.colorTemperature.min && temp <= ranges.colorTemperature.max)).map(temp => (
                          <button 
-                          key={temp} onClick={() => setManual({...manual, wb: temp})}
-                          className={`w-12 h-8 rounded-lg text-[8px] font-bold transition-all border ${manual.wb === temp ? 'border-cyan-400 bg-cyan-400/10 text-white' : 'border-white/5 text-white/20'}`}
+                          key={temp} onClick={() => setManual({...manual, wb: temp, autoWhiteBalance: false})}
+                          className={`w-12 h-8 rounded-lg text-[8px] font-bold transition-all border ${!manual.autoWhiteBalance && manual.wb === temp ? 'border-cyan-400 bg-cyan-400/10 text-white' : 'border-white/5 text-white/20'}`}
                          >
                            {temp}K
                          </button>
                       ))}
                     </div>
                  </div>
+                 <div className={`flex items-center gap-4 px-4 ${ranges.focusDistance ? '' : 'opacity-30'}`}>
+                    <span className="text-[8px] mono text-white/30 uppercase tracking-widest whitespace-nowrap">
+                      {!ranges.focusDistance ? 'Focus N/A' : manual.autoFocus ? 'Focus Auto' : `Focus ${manual.focus.toFixed(2)}m`}
+                    </span>
+                    <input 
+                      type="range" min={ranges.focusDistance?.min ?? 0} max={ranges.focusDistance?.max ?? 1} step={ranges.focusDistance?.step || 0.01}
+                      value={manual.focus} disabled={!ranges.focusDistance}
+                      onChange={(e) => setManual({...manual, focus: parseFloat(e.target.value), autoFocus: false})}
+                      className="flex-1 accent-cyan-400"
+                    />
+                    <button 
+                      onClick={() => setManual({...manual, autoFocus: !manual.autoFocus})}
+                      disabled={!ranges.focusDistance}
+                      className={`h-8 px-3 rounded-lg text-[8px] font-bold transition-all border ${manual.autoFocus ? 'border-cyan-400 bg-cyan-400/10 text-white' : 'border-white/5 text-white/20'}`}
+                    >
+                      AF
+                    </button>
+                 </div>
+                 <div className="flex justify-between items-center px-4">
+                    <span className="text-[8px] mono text-white/30 uppercase tracking-widest">Assist</span>
+                    <div className="flex gap-1">
+                      <button 
+                        onClick={() => setAssists({...assists, peaking: !assists.peaking})}
+                        className={`h-8 px-3 rounded-lg text-[8px] font-bold transition-all border flex items-center gap-2 ${assists.peaking ? 'border-cyan-400 bg-cyan-400/10 text-white' : 'border-white/5 text-white/20'}`}
+                      >
+                        PEAK
+                        <span 
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            const colors = Object.keys(PEAKING_COLORS) as PeakingColor[];
+                            setAssists({...assists, peaking: true, peakingColor: colors[(colors.indexOf(assists.peakingColor) + 1) % colors.length]});
+                          }}
+                          className="w-3 h-3 rounded-full border border-white/40"
+                          style={{ backgroundColor: `rgb(${PEAKING_COLORS[assists.peakingColor].map(c => Math.round(c * 255)).join(',')})` }}
+                        />
+                      </button>
+                      <button 
+                        onClick={() => setAssists({...assists, zebra: !assists.zebra})}
+                        className={`h-8 px-3 rounded-lg text-[8px] font-bold transition-all border flex items-center gap-2 ${assists.zebra ? 'border-cyan-400 bg-cyan-400/10 text-white' : 'border-white/5 text-white/20'}`}
+                      >
+                        ZEBRA
+                        <span 
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setAssists({...assists, zebra: true, zebraLevel: ZEBRA_LEVELS[(ZEBRA_LEVELS.indexOf(assists.zebraLevel) + 1) % ZEBRA_LEVELS.length]});
+                          }}
+                          className="mono text-amber-400"
+                        >
+                          {assists.zebraLevel}%
+                        </span>
+                      </button>
+                      <button 
+                        onClick={() => setAssists({...assists, falseColor: !assists.falseColor})}
+                        className={`h-8 px-3 rounded-lg text-[8px] font-bold transition-all border ${assists.falseColor ? 'border-cyan-400 bg-cyan-400/10 text-white' : 'border-white/5 text-white/20'}`}
+                      >
+                        FALSE CLR
+                      </button>
+                    </div>
+                 </div>
+              </div>
+            )}
+            {activeUnit === 'neural' && (
+              <div className="flex flex-col gap-4 px-4 py-2 animate-in slide-in-from-bottom-2">
+                 <div className="flex justify-between items-center">
+                    <div className="flex flex-col">
+                       <span className="text-[8px] mono text-white/40 uppercase">{mode === CameraMode.NIGHT_STACK ? 'Temporal Engine' : 'Bracket Engine'}</span>
+                       <span className="text-[10px] roman font-black text-white uppercase">{mode === CameraMode.NIGHT_STACK ? 'Aligned Robust Mean' : planBracket(stream?.getVideoTracks()[0])}</span>
+                    </div>
+                    <button 
+                      onClick={() => setCloudRefine(!cloudRefine)}
+                      className={`px-4 py-2 border rounded-xl text-[9px] font-bold uppercase transition-all ${cloudRefine ? 'border-cyan-400 text-cyan-400 bg-cyan-400/10' : 'border-white/5 text-white/20'}`}
+                    >
+                      Cloud Refine {cloudRefine ? 'On' : 'Off'}
+                    </button>
+                 </div>
+                 {mode === CameraMode.NIGHT_STACK && (
+                   <div className="flex items-center gap-4">
+                      <span className="text-[8px] mono text-white/40 uppercase tracking-widest whitespace-nowrap">Frames {nightFrames}</span>
+                      <input 
+                        type="range" min="4" max="32" step="1" value={nightFrames}
+                        onChange={(e) => setNightFrames(parseInt(e.target.value))}
+                        className="flex-1 accent-cyan-400"
+                      />
+                   </div>
+                 )}
+                 <p className="text-[8px] mono text-white/30 uppercase tracking-widest leading-relaxed">Stacks are aligned and fused on-device. Cloud refinement runs only when enabled and online.</p>
+              </div>
+            )}
+            {activeUnit === 'bokeh' && (
+              <div className="flex flex-col gap-4 px-4 py-2 animate-in slide-in-from-bottom-2">
+                 <div className="flex justify-between items-center">
+                    <div className="flex flex-col">
+                       <span className="text-[8px] mono text-white/40 uppercase">Synthetic Aperture</span>
+                       <span className="text-[10px] roman font-black text-white uppercase">f/{aperture}</span>
+                    </div>
+                    <div className="flex gap-1">
+                      {segmentationService.list().map(p => (
+                        <button 
+                          key={p.id} onClick={() => setSegmenter(p.id)}
+                          className={`px-3 py-2 border rounded-xl text-[8px] font-bold uppercase transition-all ${segmenter === p.id ? 'border-cyan-400 text-cyan-400 bg-cyan-400/10' : 'border-white/5 text-white/20'}`}
+                        >
+                          {p.label}
+                        </button>
+                      ))}
+                    </div>
+                 </div>
+                 <div className="flex gap-1 overflow-x-auto no-scrollbar">
+                   {APERTURE_STOPS.map(stop => (
+                     <button 
+                       key={stop} onClick={() => setAperture(stop)}
+                       className={`min-w-12 h-8 px-2 rounded-lg text-[8px] mono font-bold transition-all border ${aperture === stop ? 'border-cyan-400 bg-cyan-400/10 text-white' : 'border-white/5 text-white/20'}`}
+                     >
+                       f/{stop}
+                     </button>
+                   ))}
+                 </div>
+                 <p className="text-[8px] mono text-white/30 uppercase tracking-widest leading-relaxed">Depth mask is kept with the capture. Aperture and focal plane stay editable in the Light Table.</p>
+              </div>
+            )}
+            {activeUnit === 'reel' && (
+              <div className="flex flex-col gap-4 px-4 py-2 animate-in slide-in-from-bottom-2 h-full overflow-y-auto no-scrollbar">
+                 <div className="flex justify-between items-center">
+                    <div className="flex flex-col">
+                       <span className="text-[8px] mono text-white/40 uppercase">Recording Profile</span>
+                       <span className="text-[10px] roman font-black text-white uppercase">
+                         {recordingCodec ? `${recordingCodec.label} // ${recordingCodec.container === 'mp4' ? 'MP4' : profile.container === 'mp4' ? 'WebM → MP4' : 'WebM'}` : 'Browser Default'}
+                       </span>
+                    </div>
+                    <div className="flex gap-1">
+                      {probeCodecs().map(c => (
+                        <button 
+                          key={c.codec} onClick={() => setProfile({...profile, codec: c.codec})} disabled={isRecording}
+                          className={`h-8 px-2 rounded-lg text-[8px] mono font-bold transition-all border disabled:opacity-30 ${recordingCodec?.codec === c.codec ? 'border-cyan-400 bg-cyan-400/10 text-white' : 'border-white/5 text-white/20'}`}
+                        >
+                          {c.label}
+                        </button>
+                      ))}
+                    </div>
+                 </div>
+                 <div className="flex justify-between items-center gap-2">
+                    <div className="flex gap-1">
+                      {RESOLUTION_PRESETS.map(r => (
+                        <button 
+                          key={r} onClick={() => setProfile({...profile, resolution: r})} disabled={isRecording}
+                          className={`h-8 px-2 rounded-lg text-[8px] mono font-bold transition-all border disabled:opacity-30 ${profile.resolution === r ? 'border-cyan-400 bg-cyan-400/10 text-white' : 'border-white/5 text-white/20'}`}
+                        >
+                          {r === 2160 ? '4K' : `${r}P`}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex gap-1">
+                      {FPS_PRESETS.map(f => (
+                        <button 
+                          key={f} onClick={() => setProfile({...profile, fps: f})} disabled={isRecording}
+                          className={`h-8 px-2 rounded-lg text-[8px] mono font-bold transition-all border disabled:opacity-30 ${profile.fps === f ? 'border-cyan-400 bg-cyan-400/10 text-white' : 'border-white/5 text-white/20'}`}
+                        >
+                          {f}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex gap-1">
+                      {(['mp4', 'webm'] as const).map(c => (
+                        <button 
+                          key={c} onClick={() => setProfile({...profile, container: c})} disabled={isRecording || (c === 'webm' && !probeCodecs('webm').length)}
+                          className={`h-8 px-2 rounded-lg text-[8px] mono font-bold transition-all border disabled:opacity-30 ${profile.container === c ? 'border-cyan-400 bg-cyan-400/10 text-white' : 'border-white/5 text-white/20'}`}
+                        >
+                          {c.toUpperCase()}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex gap-1">
+                      {BITRATE_PRESETS.map(b => (
+                        <button 
+                          key={b} onClick={() => setProfile({...profile, bitrate: b})} disabled={isRecording}
+                          className={`h-8 px-2 rounded-lg text-[8px] mono font-bold transition-all border disabled:opacity-30 ${profile.bitrate === b ? 'border-amber-400 bg-amber-400/10 text-white' : 'border-white/5 text-white/20'}`}
+                        >
+                          {b / 1000000}M
+                        </button>
+                      ))}
+                    </div>
+                 </div>
+                 <div className="flex justify-between items-center">
+                    <div className="flex flex-col">
+                       <span className="text-[8px] mono text-white/40 uppercase">Pre-Roll Buffer</span>
+                       <span className="text-[10px] roman font-black text-white uppercase">
+                         {!isVideoMode ? 'Video Modes Only' : !probeCodecs('webm').length ? 'Needs WebM Recorder' : preRoll ? `Last ${preRoll}s Held Before Record` : 'Off'}
+                       </span>
+                    </div>
+                    <div className="flex gap-1">
+                      {PRE_ROLL_SECONDS.map(sec => (
+                        <button 
+                          key={sec} onClick={() => setPreRoll(sec)} disabled={isRecording}
+                          className={`min-w-10 h-8 px-2 rounded-lg text-[8px] mono font-bold transition-all border disabled:opacity-30 ${preRoll === sec ? 'border-cyan-400 bg-cyan-400/10 text-white' : 'border-white/5 text-white/20'}`}
+                        >
+                          {sec ? `${sec}s` : 'OFF'}
+                        </button>
+                      ))}
+                    </div>
+                 </div>
+                 <div className="flex justify-between items-center">
+                    <div className="flex flex-col">
+                       <span className="text-[8px] mono text-white/40 uppercase">Record Source</span>
+                       <span className="text-[10px] roman font-black text-white uppercase">{recording.processed ? 'Graded Program' : 'Raw Sensor'}</span>
+                    </div>
+                    <div className="flex gap-1">
+                      <button 
+                        onClick={() => setRecording({...recording, processed: !recording.processed})} disabled={isRecording}
+                        className={`px-3 py-2 border rounded-xl text-[8px] font-bold uppercase transition-all disabled:opacity-30 ${recording.processed ? 'border-cyan-400 text-cyan-400 bg-cyan-400/10' : 'border-white/5 text-white/20'}`}
+                      >
+                        Processed
+                      </button>
+                      {([
+                        ['burnTimecode', 'TC'],
+                        ['burnRole', 'Role'],
+                        ['burnGuide', 'Guide'],
+                      ] as [keyof RecordingConfig, string][]).map(([key, label]) => (
+                        <button 
+                          key={key} onClick={() => setRecording({...recording, [key]: !recording[key]})} disabled={isRecording || !recording.processed}
+                          className={`px-3 py-2 border rounded-xl text-[8px] font-bold uppercase transition-all disabled:opacity-30 ${recording[key] ? 'border-amber-400 text-amber-400 bg-amber-400/10' : 'border-white/5 text-white/20'}`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                 </div>
+              </div>
+            )}
+
+            {activeUnit === 'audio' && (
+              <div className="flex flex-col gap-4 px-4 py-2 animate-in slide-in-from-bottom-2 h-full overflow-y-auto no-scrollbar">
+                 <div className="flex justify-between items-center gap-4">
+                    <div className="flex flex-col">
+                       <span className="text-[8px] mono text-white/40 uppercase">Input Levels // Peak + RMS</span>
+                       <span className={`text-[10px] roman font-black uppercase ${audioError ? 'text-red-400' : 'text-white'}`}>{audioError ?? (isRecording ? 'Locked While Recording' : 'Live Monitor')}</span>
+                    </div>
+                    <div className="flex-1 max-w-[60%]">
+                      <AudioMeters meter={meter} />
+                    </div>
+                 </div>
+                 <div className="flex justify-between items-center">
+                    <div className="flex flex-col">
+                       <span className="text-[8px] mono text-white/40 uppercase">Microphone</span>
+                       <span className="text-[10px] roman font-black text-white uppercase truncate max-w-[10rem]">
+                         {audioInputs.label(stream?.getAudioTracks()[0]?.getSettings?.().deviceId) ?? (audio.deviceId ? 'Switching...' : 'System Default')}
+                       </span>
+                    </div>
+                    <div className="flex gap-1 overflow-x-auto no-scrollbar max-w-[60%]">
+                      <button 
+                        onClick={() => setAudio({...audio, deviceId: undefined})} disabled={isRecording}
+                        className={`h-8 px-2 rounded-lg text-[8px] mono font-bold transition-all border disabled:opacity-30 ${!audio.deviceId ? 'border-cyan-400 bg-cyan-400/10 text-white' : 'border-white/5 text-white/20'}`}
+                      >
+                        AUTO
+                      </button>
+                      {microphones.map((m, i) => (
+                        <button 
+                          key={m.deviceId} onClick={() => setAudio({...audio, deviceId: m.deviceId})} disabled={isRecording} title={m.label}
+                          className={`h-8 px-2 rounded-lg text-[8px] mono font-bold transition-all border whitespace-nowrap disabled:opacity-30 ${audio.deviceId === m.deviceId ? 'border-cyan-400 bg-cyan-400/10 text-white' : 'border-white/5 text-white/20'}`}
+                        >
+                          MIC {i + 1}
+                        </button>
+                      ))}
+                    </div>
+                 </div>
+                 <div className="flex justify-between items-center">
+                    <div className="flex flex-col">
+                       <span className="text-[8px] mono text-white/40 uppercase">Voice Processing</span>
+                       <span className="text-[10px] roman font-black text-white uppercase">
+                         {audio.echoCancellation || audio.noiseSuppression || audio.autoGainControl ? 'Browser DSP' : 'Clean Capture'}
+                       </span>
+                    </div>
+                    <div className="flex gap-1">
+                      {([
+                        ['echoCancellation', 'Echo'],
+                        ['noiseSuppression', 'Noise'],
+                        ['autoGainControl', 'AGC'],
+                      ] as [keyof AudioConfig, string][]).map(([key, label]) => (
+                        <button 
+                          key={key} onClick={() => setAudio({...audio, [key]: !audio[key]})} disabled={isRecording}
+                          className={`px-3 py-2 border rounded-xl text-[8px] font-bold uppercase transition-all disabled:opacity-30 ${audio[key] ? 'border-cyan-400 text-cyan-400 bg-cyan-400/10' : 'border-white/5 text-white/20'}`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                 </div>
+                 <div className="flex justify-between items-center">
+                    <div className="flex flex-col">
+                       <span className="text-[8px] mono text-white/40 uppercase">Separate Track</span>
+                       <span className="text-[10px] roman font-black text-white uppercase">{audio.recordWav ? 'WAV 16-Bit PCM With Clip' : 'Clip Audio Only'}</span>
+                    </div>
+                    <button 
+                      onClick={() => setAudio({...audio, recordWav: !audio.recordWav})} disabled={isRecording}
+                      className={`px-3 py-2 border rounded-xl text-[8px] font-bold uppercase transition-all disabled:opacity-30 ${audio.recordWav ? 'border-amber-400 text-amber-400 bg-amber-400/10' : 'border-white/5 text-white/20'}`}
+                    >
+                      WAV
+                    </button>
+                 </div>
+              </div>
+            )}
+
+            {activeUnit === 'interval' && (
+              <div className="flex flex-col gap-4 px-4 py-2 animate-in slide-in-from-bottom-2">
+                 <div className="flex justify-between items-center">
+                    <div className="flex flex-col">
+                       <span className="text-[8px] mono text-white/40 uppercase">Intervalometer</span>
+                       <span className="text-[10px] roman font-black text-white uppercase">{timelapseFrameCount(timelapse)} Frames // {(timelapseFrameCount(timelapse) * timelapse.interval / 60).toFixed(1)} Min</span>
+                    </div>
+                    <div className="flex gap-1">
+                      <button 
+                        onClick={() => setTimelapse({...timelapse, lockExposure: !timelapse.lockExposure, autoRamp: timelapse.lockExposure ? false : timelapse.autoRamp})}
+                        className={`px-3 py-2 border rounded-xl text-[8px] font-bold uppercase transition-all ${timelapse.lockExposure ? 'border-cyan-400 text-cyan-400 bg-cyan-400/10' : 'border-white/5 text-white/20'}`}
+                      >
+                        Lock AE/WB
+                      </button>
+                      <button 
+                        onClick={() => setTimelapse({...timelapse, autoRamp: !timelapse.autoRamp, lockExposure: true})}
+                        className={`px-3 py-2 border rounded-xl text-[8px] font-bold uppercase transition-all ${timelapse.autoRamp ? 'border-amber-400 text-amber-400 bg-amber-400/10' : 'border-white/5 text-white/20'}`}
+                      >
+                        Auto-Ramp
+                      </button>
+                    </div>
+                 </div>
+                 <div className="flex justify-between items-center">
+                    <div className="flex gap-1 overflow-x-auto no-scrollbar">
+                      {TIMELAPSE_INTERVALS.map(s => (
+                        <button 
+                          key={s} onClick={() => setTimelapse({...timelapse, interval: s})}
+                          className={`min-w-10 h-8 px-2 rounded-lg text-[8px] mono font-bold transition-all border ${timelapse.interval === s ? 'border-cyan-400 bg-cyan-400/10 text-white' : 'border-white/5 text-white/20'}`}
+                        >
+                          {s}s
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex gap-1">
+                      {TIMELAPSE_FPS.map(f => (
+                        <button 
+                          key={f} onClick={() => setTimelapse({...timelapse, fps: f})}
+                          className={`h-8 px-2 rounded-lg text-[8px] mono font-bold transition-all border ${timelapse.fps === f ? 'border-cyan-400 bg-cyan-400/10 text-white' : 'border-white/5 text-white/20'}`}
+                        >
+                          {f}P
+                        </button>
+                      ))}
+                    </div>
+                 </div>
+                 <div className="flex items-center gap-4">
+                    <button 
+                      onClick={() => setTimelapse({...timelapse, limit: timelapse.limit === 'frames' ? 'duration' : 'frames'})}
+                      className="text-[8px] mono text-cyan-400 uppercase tracking-widest whitespace-nowrap w-24 text-left"
+                    >
+                      {timelapse.limit === 'frames' ? `Frames ${timelapse.frames}` : `Dur ${timelapse.duration}m`}
+                    </button>
+                    {timelapse.limit === 'frames' ? (
+                      <input 
+                        type="range" min="10" max="900" step="10" value={timelapse.frames}
+                        onChange={(e) => setTimelapse({...timelapse, frames: parseInt(e.target.value)})}
+                        className="flex-1 accent-cyan-400"
+                      />
+                    ) : (
+                      <input 
+                        type="range" min="1" max="240" step="1" value={timelapse.duration}
+                        onChange={(e) => setTimelapse({...timelapse, duration: parseInt(e.target.value)})}
+                        className="flex-1 accent-cyan-400"
+                      />
+                    )}
+                    <div className="flex gap-1">
+                      {TIMELAPSE_DELAYS.map(d => (
+                        <button 
+                          key={d} onClick={() => setTimelapse({...timelapse, delay: d})}
+                          className={`h-8 px-2 rounded-lg text-[8px] mono font-bold transition-all border ${timelapse.delay === d ? 'border-cyan-400 bg-cyan-400/10 text-white' : 'border-white/5 text-white/20'}`}
+                        >
+                          T-{d}
+                        </button>
+                      ))}
+                    </div>
+                 </div>
               </div>
             )}
             {activeUnit === 'scout' && (
@@ -606,8 +2119,12 @@ const CameraInterface = forwardRef<CameraInterfaceHandle, CameraInterfaceProps>(
 
         <div className="h-28 flex items-center justify-center mt-2">
           <button 
-            onClick={handleShutterAction}
-            className={`w-24 h-24 rounded-full border-2 flex items-center justify-center transition-all active:scale-90 relative ${isRecording ? 'border-red-500' : 'border-white/20'}`}
+            onClick={mode === CameraMode.BURST ? undefined : handleShutterAction}
+            onPointerDown={mode === CameraMode.BURST ? () => startBurst() : undefined}
+            onPointerUp={mode === CameraMode.BURST ? finishBurst : undefined}
+            onPointerLeave={mode === CameraMode.BURST ? finishBurst : undefined}
+            onPointerCancel={mode === CameraMode.BURST ? finishBurst : undefined}
+            className={`w-24 h-24 rounded-full border-2 flex items-center justify-center transition-all active:scale-90 relative ${isRecording ? 'border-red-500' : sweep || timelapseStatus ? 'border-cyan-400 animate-pulse' : 'border-white/20'}`}
           >
             <div className={`transition-all duration-500 shadow-2xl ${isRecording ? 'w-10 h-10 rounded-xl bg-red-600' : 'w-18 h-18 rounded-full bg-white'} ${shutterPulse ? 'scale-110' : ''}`} />
             {burstCount > 0 && (
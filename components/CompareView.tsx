@@ -0,0 +1,214 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CapturedImage } from '../types';
+import { loadImage } from '../utils/mediaUtils';
+import { describeOperation } from '../utils/versioning';
+import MediaThumb from './MediaThumb';
+
+type CompareMode = 'SPLIT' | 'SIDE' | 'DIFF';
+
+interface CompareViewProps {
+  gallery: CapturedImage[];
+  initialA: CapturedImage;
+  initialB: CapturedImage;
+  onClose: () => void;
+}
+
+interface ViewTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const MAX_DIFF_EDGE = 2048;
+const IDENTITY: ViewTransform = { scale: 1, x: 0, y: 0 };
+
+const CompareView: React.FC<CompareViewProps> = ({ gallery, initialA, initialB, onClose }) => {
+  const [mode, setMode] = useState<CompareMode>('SPLIT');
+  const [imageA, setImageA] = useState(initialA);
+  const [imageB, setImageB] = useState(initialB);
+  const [picking, setPicking] = useState<'A' | 'B' | null>(null);
+  const [split, setSplit] = useState(50);
+  const [view, setView] = useState<ViewTransform>(IDENTITY);
+  const [diffGain, setDiffGain] = useState(4);
+  const diffCanvasRef = useRef<HTMLCanvasElement>(null);
+  const splitRef = useRef<HTMLDivElement>(null);
+  const pointersRef = useRef<Map<number, { x: number; y: number }>>(new Map());
+  const draggingSplitRef = useRef(false);
+
+  const candidates = gallery.filter(g => g.mediaType === 'image');
+
+  useEffect(() => {
+    if (mode !== 'DIFF') return;
+    let cancelled = false;
+    (async () => {
+      const [a, b] = await Promise.all([loadImage(imageA.url), loadImage(imageB.url)]);
+      const canvas = diffCanvasRef.current;
+      if (cancelled || !canvas) return;
+      const ratio = Math.min(1, MAX_DIFF_EDGE / Math.max(a.naturalWidth, a.naturalHeight));
+      canvas.width = Math.round(a.naturalWidth * ratio);
+      canvas.height = Math.round(a.naturalHeight * ratio);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      ctx.globalCompositeOperation = 'source-over';
+      ctx.filter = 'none';
+      ctx.drawImage(a, 0, 0, canvas.width, canvas.height);
+      ctx.globalCompositeOperation = 'difference';
+      ctx.drawImage(b, 0, 0, canvas.width, canvas.height);
+      // Amplify the residual so subtle tonal shifts become visible
+      ctx.globalCompositeOperation = 'copy';
+      ctx.filter = `brightness(${diffGain})`;
+      ctx.drawImage(canvas, 0, 0);
+      ctx.filter = 'none';
+      ctx.globalCompositeOperation = 'source-over';
+    })().catch(err => console.error("Difference render failed", err));
+    return () => { cancelled = true; };
+  }, [mode, imageA, imageB, diffGain]);
+
+  const updateSplit = (clientX: number) => {
+    const rect = splitRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    setSplit(Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    const factor = e.deltaY < 0 ? 1.1 : 1 / 1.1;
+    setView(v => ({ ...v, scale: Math.min(16, Math.max(1, v.scale * factor)) }));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    pointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (draggingSplitRef.current) { updateSplit(e.clientX); return; }
+    const pointers = pointersRef.current;
+    const prev = pointers.get(e.pointerId);
+    if (!prev) return;
+
+    if (pointers.size === 2) {
+      const other = Array.from(pointers.entries()).find(([id]) => id !== e.pointerId)![1];
+      const before = Math.hypot(prev.x - other.x, prev.y - other.y);
+      const after = Math.hypot(e.clientX - other.x, e.clientY - other.y);
+      if (before > 0) setView(v => ({ ...v, scale: Math.min(16, Math.max(1, v.scale * (after / before))) }));
+    } else {
+      setView(v => ({ ...v, x: v.x + e.clientX - prev.x, y: v.y + e.clientY - prev.y }));
+    }
+    pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    pointersRef.current.delete(e.pointerId);
+    draggingSplitRef.current = false;
+  };
+
+  const transformStyle = {
+    transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+    transformOrigin: 'center',
+  };
+
+  const gestureProps = {
+    onWheel: handleWheel,
+    onPointerDown: handlePointerDown,
+    onPointerMove: handlePointerMove,
+    onPointerUp: handlePointerUp,
+    onPointerCancel: handlePointerUp,
+    onDoubleClick: () => setView(IDENTITY),
+  };
+
+  const label = (image: CapturedImage) => image.metadata?.enhanced ? 'Enhanced' : describeOperation(image.version?.operation);
+
+  const pane = (image: CapturedImage, tag: string) => (
+    <div className="relative flex-1 overflow-hidden rounded-[2rem] border border-white/10 bg-black touch-none" {...gestureProps}>
+      <img src={image.url} style={transformStyle} className="w-full h-full object-contain pointer-events-none select-none" alt={tag} draggable={false} />
+      <span className="absolute top-4 left-4 glass px-3 py-1 rounded-lg text-[9px] mono font-bold uppercase tracking-widest">{tag} // {label(image)}</span>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[400] bg-black/98 backdrop-blur-3xl flex flex-col animate-in fade-in duration-300">
+      <div className="flex justify-between items-center px-10 py-8 border-b border-white/5">
+        <div className="flex items-center gap-6">
+          <span className="text-[12px] roman font-black text-cyan-400 uppercase tracking-[0.5em]">Compare</span>
+          <div className="flex gap-1 p-1 glass rounded-xl">
+            {(['SPLIT', 'SIDE', 'DIFF'] as CompareMode[]).map(m => (
+              <button
+                key={m} onClick={() => setMode(m)}
+                className={`px-5 py-2 rounded-lg text-[9px] roman font-black uppercase tracking-widest transition-all ${mode === m ? 'bg-cyan-500 text-black' : 'text-white/40 hover:text-white/70'}`}
+              >
+                {m === 'SPLIT' ? 'Split' : m === 'SIDE' ? 'Side by Side' : 'Difference'}
+              </button>
+            ))}
+          </div>
+          {mode === 'DIFF' && (
+            <div className="flex items-center gap-3">
+              <span className="text-[8px] mono text-white/30 uppercase tracking-widest">Gain {diffGain}x</span>
+              <input type="range" min="1" max="16" step="1" value={diffGain} onChange={e => setDiffGain(parseInt(e.target.value))} className="w-32 accent-cyan-400" />
+            </div>
+          )}
+        </div>
+        <div className="flex gap-3">
+          <button onClick={() => setPicking(picking === 'A' ? null : 'A')} className={`px-5 py-3 rounded-full border text-[9px] roman font-black uppercase tracking-widest ${picking === 'A' ? 'border-cyan-400 text-cyan-400' : 'border-white/10 text-white/50'}`}>Source A</button>
+          <button onClick={() => setPicking(picking === 'B' ? null : 'B')} className={`px-5 py-3 rounded-full border text-[9px] roman font-black uppercase tracking-widest ${picking === 'B' ? 'border-cyan-400 text-cyan-400' : 'border-white/10 text-white/50'}`}>Source B</button>
+          <button onClick={() => { const a = imageA; setImageA(imageB); setImageB(a); }} className="px-5 py-3 rounded-full border border-white/10 text-[9px] roman font-black uppercase tracking-widest text-white/50">Swap</button>
+          <button onClick={onClose} className="text-[10px] roman font-black bg-white/5 border border-white/10 px-8 py-3 rounded-full uppercase tracking-[0.4em] hover:bg-white/15 transition-all active:scale-95">Close</button>
+        </div>
+      </div>
+
+      {picking && (
+        <div className="flex gap-4 overflow-x-auto no-scrollbar px-10 py-4 border-b border-white/5">
+          {candidates.map(img => (
+            <button
+              key={img.id}
+              onClick={() => { if (picking === 'A') setImageA(img); else setImageB(img); setPicking(null); }}
+              className={`flex-shrink-0 w-20 h-20 rounded-2xl overflow-hidden border-2 ${(picking === 'A' ? imageA : imageB).id === img.id ? 'border-cyan-500' : 'border-white/10 opacity-50 hover:opacity-100'}`}
+            >
+              <MediaThumb image={img} className="w-full h-full object-cover" alt="Candidate" />
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="flex-1 flex gap-6 p-10 min-h-0">
+        {mode === 'SPLIT' && (
+          <div ref={splitRef} className="relative flex-1 overflow-hidden rounded-[2rem] border border-white/10 bg-black touch-none" {...gestureProps}>
+            <img src={imageA.url} style={transformStyle} className="absolute inset-0 w-full h-full object-contain pointer-events-none select-none" alt="A" draggable={false} />
+            <div className="absolute inset-0" style={{ clipPath: `inset(0 0 0 ${split}%)` }}>
+              <img src={imageB.url} style={transformStyle} className="absolute inset-0 w-full h-full object-contain pointer-events-none select-none" alt="B" draggable={false} />
+            </div>
+            <div
+              className="absolute top-0 bottom-0 w-10 -ml-5 flex items-center justify-center cursor-ew-resize z-10"
+              style={{ left: `${split}%` }}
+              onPointerDown={e => { e.stopPropagation(); draggingSplitRef.current = true; splitRef.current?.setPointerCapture(e.pointerId); }}
+            >
+              <div className="w-0.5 h-full bg-cyan-400 shadow-[0_0_15px_rgba(34,211,238,0.6)]" />
+              <div className="absolute w-8 h-8 rounded-full bg-cyan-400 border-2 border-white flex items-center justify-center text-black text-[10px] font-black">⇔</div>
+            </div>
+            <span className="absolute top-4 left-4 glass px-3 py-1 rounded-lg text-[9px] mono font-bold uppercase tracking-widest">A // {label(imageA)}</span>
+            <span className="absolute top-4 right-4 glass px-3 py-1 rounded-lg text-[9px] mono font-bold uppercase tracking-widest">B // {label(imageB)}</span>
+          </div>
+        )}
+
+        {mode === 'SIDE' && (
+          <>
+            {pane(imageA, 'A')}
+            {pane(imageB, 'B')}
+          </>
+        )}
+
+        {mode === 'DIFF' && (
+          <div className="relative flex-1 overflow-hidden rounded-[2rem] border border-white/10 bg-black touch-none flex items-center justify-center" {...gestureProps}>
+            <canvas ref={diffCanvasRef} style={transformStyle} className="max-w-full max-h-full pointer-events-none" />
+            <span className="absolute top-4 left-4 glass px-3 py-1 rounded-lg text-[9px] mono font-bold uppercase tracking-widest">|A − B| × {diffGain}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="px-10 pb-8 text-center">
+        <span className="text-[8px] mono text-white/20 uppercase tracking-[0.4em]">Drag to pan // Pinch or scroll to zoom // Double-tap to reset</span>
+      </div>
+    </div>
+  );
+};
+
+export default CompareView;
@@ -0,0 +1,68 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CapturedImage } from '../types';
+import { previewService } from '../services/previewService';
+
+interface MediaThumbProps {
+  image: CapturedImage;
+  /** A video's poster frame; without one the clip's first frame is used */
+  poster?: string;
+  className?: string;
+  alt?: string;
+}
+
+// Start generating a little before a tile scrolls into view
+const LAZY_MARGIN = '200px';
+
+const MediaThumb: React.FC<MediaThumbProps> = ({ image, poster, className = '', alt = 'Gallery item' }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [visible, setVisible] = useState(false);
+  const [preview, setPreview] = useState(() => previewService.get(image.id));
+
+  useEffect(() => {
+    setPreview(previewService.get(image.id));
+    return previewService.onChange(id => { if (id === image.id) setPreview(previewService.get(id)); });
+  }, [image.id]);
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!el || visible) return;
+    if (typeof IntersectionObserver === 'undefined') {
+      setVisible(true);
+      return;
+    }
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(e => e.isIntersecting)) {
+        setVisible(true);
+        observer.disconnect();
+      }
+    }, { rootMargin: LAZY_MARGIN });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [visible]);
+
+  useEffect(() => {
+    if (visible) previewService.request(image, poster);
+  }, [visible, image.id]);
+
+  const media = 'w-full h-full object-cover';
+  let content: React.ReactNode = null;
+  if (preview?.thumb && preview.proxy) {
+    content = (
+      <video
+        src={preview.proxy} poster={preview.thumb} muted loop playsInline preload="none" className={media}
+        onMouseEnter={e => { e.currentTarget.play().catch(() => {}); }}
+        onMouseLeave={e => { e.currentTarget.pause(); e.currentTarget.currentTime = 0; }}
+      />
+    );
+  } else if (preview?.thumb) {
+    content = <img src={preview.thumb} className={media} alt={alt} />;
+  } else if (preview?.failed) {
+    content = image.mediaType === 'image' || poster
+      ? <img src={image.mediaType === 'image' ? image.url : poster} className={media} alt={alt} loading="lazy" />
+      : <video src={image.url} preload="metadata" muted playsInline className={media} />;
+  }
+
+  return <div ref={ref} className={`${className} overflow-hidden bg-white/5`}>{content}</div>;
+};
+
+export default MediaThumb;
@@ -0,0 +1,206 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { frameTap } from '../services/frameTap';
+import { TapSpec } from '../utils/frameAnalysis';
+import { RgbaFrame } from '../utils/imaging';
+import { HistogramData, ScopeType, chromaToPoint } from '../utils/scopes';
+
+type ScopePosition = 'TOP_LEFT' | 'TOP_RIGHT' | 'BOTTOM_LEFT' | 'BOTTOM_RIGHT';
+
+const SCOPES: { id: ScopeType; label: string }[] = [
+  { id: 'HISTOGRAM', label: 'HIST' },
+  { id: 'WAVEFORM', label: 'WAVE' },
+  { id: 'PARADE', label: 'PARADE' },
+  { id: 'VECTORSCOPE', label: 'VECTOR' },
+];
+
+// Offsets clear the HUD buttons at the top and the control deck at the bottom
+const POSITION_CLASSES: Record<ScopePosition, string> = {
+  TOP_LEFT: 'top-20 left-8 items-start',
+  TOP_RIGHT: 'top-44 right-8 items-end',
+  BOTTOM_LEFT: 'bottom-[22.5rem] left-8 items-start',
+  BOTTOM_RIGHT: 'bottom-[22.5rem] right-8 items-end',
+};
+const POSITION_ORDER: ScopePosition[] = ['TOP_LEFT', 'TOP_RIGHT', 'BOTTOM_RIGHT', 'BOTTOM_LEFT'];
+
+const SAMPLE_MAX_EDGE = 256;
+const SCOPE_FPS = 15;
+const TRACE_WIDTH = 240;
+const TRACE_HEIGHT = 128;
+const HISTOGRAM_HEIGHT = 64;
+const VECTOR_SIZE = 128;
+
+const CHANNEL_COLORS: [number, number, number][] = [[255, 70, 70], [70, 255, 110], [80, 140, 255]];
+const TRACE_KINDS: Record<Exclude<ScopeType, 'HISTOGRAM'>, 'waveform' | 'parade' | 'vectorscope'> = {
+  WAVEFORM: 'waveform',
+  PARADE: 'parade',
+  VECTORSCOPE: 'vectorscope',
+};
+const VECTOR_TARGETS: { label: string; rgb: [number, number, number] }[] = [
+  { label: 'R', rgb: [0.75, 0, 0] }, { label: 'YL', rgb: [0.75, 0.75, 0] }, { label: 'G', rgb: [0, 0.75, 0] },
+  { label: 'CY', rgb: [0, 0.75, 0.75] }, { label: 'B', rgb: [0, 0, 0.75] }, { label: 'MG', rgb: [0.75, 0, 0.75] },
+];
+// The skin tone (I) line sits about 123° counterclockwise from +Cb
+const SKIN_LINE_ANGLE = 123 * Math.PI / 180;
+
+const canvasSize = (scope: ScopeType) =>
+  scope === 'VECTORSCOPE' ? { width: VECTOR_SIZE, height: VECTOR_SIZE }
+  : scope === 'HISTOGRAM' ? { width: TRACE_WIDTH, height: HISTOGRAM_HEIGHT }
+  : { width: TRACE_WIDTH, height: TRACE_HEIGHT };
+
+const tapSpec = (scope: ScopeType): TapSpec => scope === 'HISTOGRAM'
+  ? { kind: 'histogram', fps: SCOPE_FPS, maxEdge: SAMPLE_MAX_EDGE }
+  : { kind: TRACE_KINDS[scope], fps: SCOPE_FPS, maxEdge: SAMPLE_MAX_EDGE, ...canvasSize(scope) };
+
+const drawHistogram = (ctx: CanvasRenderingContext2D, hist: HistogramData) => {
+  const { width, height } = ctx.canvas;
+  const channels = [hist.r, hist.g, hist.b];
+  let max = 1;
+  channels.forEach(bins => { for (let i = 1; i < 255; i++) max = Math.max(max, bins[i]); });
+
+  ctx.clearRect(0, 0, width, height);
+  ctx.globalCompositeOperation = 'lighter';
+  channels.forEach((bins, c) => {
+    const [r, g, b] = CHANNEL_COLORS[c];
+    ctx.fillStyle = `rgba(${r}, ${g}, ${b}, 0.45)`;
+    ctx.beginPath();
+    ctx.moveTo(0, height);
+    for (let i = 0; i < 256; i++) ctx.lineTo((i / 255) * width, height - Math.min(1, bins[i] / max) * height);
+    ctx.lineTo(width, height);
+    ctx.fill();
+  });
+  ctx.globalCompositeOperation = 'source-over';
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+  ctx.beginPath();
+  for (let i = 0; i < 256; i++) {
+    const y = height - Math.min(1, hist.luma[i] / max) * height;
+    if (i === 0) ctx.moveTo(0, y); else ctx.lineTo((i / 255) * width, y);
+  }
+  ctx.stroke();
+};
+
+const drawWaveformGraticule = (ctx: CanvasRenderingContext2D, dividers = 0) => {
+  const { width, height } = ctx.canvas;
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.12)';
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.35)';
+  ctx.font = '7px monospace';
+  ctx.lineWidth = 1;
+  [0, 25, 50, 75, 100].forEach(ire => {
+    const y = Math.round((1 - ire / 100) * (height - 1)) + 0.5;
+    ctx.beginPath();
+    ctx.moveTo(0, y);
+    ctx.lineTo(width, y);
+    ctx.stroke();
+    ctx.fillText(String(ire), 2, Math.min(height - 2, Math.max(7, y - 1)));
+  });
+  for (let d = 1; d <= dividers; d++) {
+    const x = Math.round((d / (dividers + 1)) * width) + 0.5;
+    ctx.beginPath();
+    ctx.moveTo(x, 0);
+    ctx.lineTo(x, height);
+    ctx.stroke();
+  }
+};
+
+const putTrace = (ctx: CanvasRenderingContext2D, trace: RgbaFrame) => {
+  const image = ctx.createImageData(trace.width, trace.height);
+  image.data.set(trace.data);
+  ctx.putImageData(image, 0, 0);
+};
+
+const drawVectorscopeGraticule = (ctx: CanvasRenderingContext2D) => {
+  const size = ctx.canvas.width;
+  const c = size / 2;
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.15)';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  ctx.arc(c, c, c - 1, 0, Math.PI * 2);
+  ctx.moveTo(c, 0); ctx.lineTo(c, size);
+  ctx.moveTo(0, c); ctx.lineTo(size, c);
+  ctx.stroke();
+
+  ctx.strokeStyle = 'rgba(251, 191, 36, 0.5)';
+  ctx.beginPath();
+  ctx.moveTo(c, c);
+  ctx.lineTo(c + Math.cos(SKIN_LINE_ANGLE) * c, c - Math.sin(SKIN_LINE_ANGLE) * c);
+  ctx.stroke();
+
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
+  ctx.font = '7px monospace';
+  VECTOR_TARGETS.forEach(({ label, rgb }) => {
+    const [x, y] = chromaToPoint(rgb[0], rgb[1], rgb[2], size);
+    ctx.strokeRect(x - 3, y - 3, 6, 6);
+    ctx.fillText(label, x + 5, y + 3);
+  });
+};
+
+const ScopesPanel: React.FC = () => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [scope, setScope] = useState<ScopeType>('HISTOGRAM');
+  const [position, setPosition] = useState<ScopePosition>('TOP_LEFT');
+  const [visible, setVisible] = useState(true);
+  const [highlightClip, setHighlightClip] = useState(0);
+  const [shadowClip, setShadowClip] = useState(0);
+
+  useEffect(() => {
+    if (!visible) return;
+    return frameTap.subscribe(tapSpec(scope), result => {
+      const ctx = canvasRef.current?.getContext('2d');
+      if (!ctx) return;
+      if (result.kind === 'histogram') {
+        drawHistogram(ctx, result.histogram);
+        setHighlightClip(Math.round(result.histogram.highlightClip * 10) / 10);
+        setShadowClip(Math.round(result.histogram.shadowClip * 10) / 10);
+      } else if (result.kind === 'trace') {
+        putTrace(ctx, result.image);
+        if (scope === 'VECTORSCOPE') drawVectorscopeGraticule(ctx);
+        else drawWaveformGraticule(ctx, scope === 'PARADE' ? 2 : 0);
+      }
+    });
+  }, [scope, visible]);
+
+  const cyclePosition = () => setPosition(POSITION_ORDER[(POSITION_ORDER.indexOf(position) + 1) % POSITION_ORDER.length]);
+  const { width, height } = canvasSize(scope);
+
+  if (!visible) {
+    return (
+      <button
+        onClick={() => setVisible(true)}
+        className={`absolute ${POSITION_CLASSES[position]} pointer-events-auto glass px-3 py-1 rounded-lg border border-white/10 text-[7px] mono text-white/40 uppercase tracking-widest`}
+      >
+        Scopes
+      </button>
+    );
+  }
+
+  return (
+    <div className={`absolute ${POSITION_CLASSES[position]} flex flex-col gap-1 pointer-events-auto opacity-80`}>
+      <div className="flex items-center gap-1">
+        {SCOPES.map(s => (
+          <button
+            key={s.id} onClick={() => setScope(s.id)}
+            className={`px-2 py-0.5 rounded-md text-[7px] mono uppercase tracking-widest transition-all ${scope === s.id ? 'text-cyan-400 bg-cyan-400/10' : 'text-white/30'}`}
+          >
+            {s.label}
+          </button>
+        ))}
+        <button onClick={cyclePosition} className="px-2 py-0.5 text-[8px] text-white/40" title="Move scope">⇲</button>
+        <button onClick={() => setVisible(false)} className="px-2 py-0.5 text-[8px] text-white/40" title="Hide scopes">✕</button>
+      </div>
+      <canvas
+        ref={canvasRef}
+        width={width}
+        height={height}
+        className="glass border border-white/10 rounded-lg overflow-hidden bg-black/40"
+      />
+      {scope === 'HISTOGRAM' && (
+        <div className="flex gap-3 text-[7px] mono uppercase tracking-widest">
+          <span className={highlightClip > 0.5 ? 'text-red-400' : 'text-white/40'}>▲ Clip {highlightClip.toFixed(1)}%</span>
+          <span className={shadowClip > 0.5 ? 'text-blue-400' : 'text-white/40'}>▼ Crush {shadowClip.toFixed(1)}%</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScopesPanel;
@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from 'react';
+import { lutLibrary } from '../services/lutLibrary';
+import { PORTRAIT_DEPTH } from '../services/portraitService';
+import { CLIP_POSTER } from '../services/clipService';
+import { panoramaFrames } from '../services/panoramaService';
+import { CameraFilter, CapturedImage, EditOperation, FilterPreset } from '../types';
+import { APERTURE_STOPS } from '../utils/bokeh';
+import { describeOperation, versionDepth, VersionStack } from '../utils/versioning';
+import MediaThumb from './MediaThumb';
+
+interface VersionStackPanelProps {
+  stack: VersionStack;
+  gallery: CapturedImage[];
+  selected: CapturedImage;
+  defaultInstruction: string;
+  isProcessing: boolean;
+  onSelect: (image: CapturedImage) => void;
+  onSetHead: (image: CapturedImage) => void;
+  onRun: (source: CapturedImage, operation: EditOperation) => void;
+}
+
+const VersionStackPanel: React.FC<VersionStackPanelProps> = ({
+  stack, gallery, selected, defaultInstruction, isProcessing, onSelect, onSetHead, onRun
+}) => {
+  const [opType, setOpType] = useState<EditOperation['type']>('enhance');
+  const [instruction, setInstruction] = useState(defaultInstruction);
+  const [filter, setFilter] = useState<string>(CameraFilter.VINTAGE_ROMA);
+  const [presets, setPresets] = useState<FilterPreset[]>(() => lutLibrary.list());
+  const [aperture, setAperture] = useState(stack.root.metadata?.aperture ?? 2.8);
+  const [focus, setFocus] = useState(stack.root.metadata?.focalPlane ?? 1);
+  const [fov, setFov] = useState(stack.root.version?.operation?.type === 'stitch' ? stack.root.version.operation.fov : 66);
+  const canPortrait = !!stack.root.assets?.[PORTRAIT_DEPTH];
+  const sweepFrames = panoramaFrames(stack.root.assets).length;
+  const opTypes: EditOperation['type'][] = ['enhance', 'filter'];
+  if (canPortrait) opTypes.push('portrait');
+  if (sweepFrames > 1) opTypes.push('stitch');
+
+  useEffect(() => {
+    const unsubscribe = lutLibrary.onChange(setPresets);
+    lutLibrary.load();
+    return unsubscribe;
+  }, []);
+
+  const operation: EditOperation = opType === 'portrait' && canPortrait
+    ? { type: 'portrait', aperture, focus }
+    : opType === 'stitch' && sweepFrames > 1
+      ? { type: 'stitch', frames: sweepFrames, fov }
+      : opType === 'filter'
+        ? { type: 'filter', filter, label: lutLibrary.isImported(filter) ? lutLibrary.label(filter) : undefined }
+        : { type: 'enhance', instruction: instruction.trim() || defaultInstruction };
+
+  const loadFromVersion = (image: CapturedImage) => {
+    onSelect(image);
+    const op = image.version?.operation;
+    if (op?.type === 'enhance') { setOpType('enhance'); setInstruction(op.instruction); }
+    if (op?.type === 'filter') { setOpType('filter'); setFilter(op.filter); }
+    if (op?.type === 'portrait') { setOpType('portrait'); setAperture(op.aperture); setFocus(op.focus); }
+    if (op?.type === 'stitch') { setOpType('stitch'); setFov(op.fov); }
+  };
+
+  return (
+    <div className="glass p-10 rounded-[3.5rem] border border-white/5">
+      <div className="flex justify-between items-center mb-6">
+        <span className="text-[10px] roman text-white/40 font-black uppercase tracking-[0.5em]">Version Stack</span>
+        <span className="text-[8px] mono text-white/30 uppercase tracking-widest">{stack.versions.length} Versions</span>
+      </div>
+
+      <div className="flex flex-col gap-2 mb-6 max-h-64 overflow-y-auto no-scrollbar">
+        {stack.versions.map(v => (
+          <button
+            key={v.id} onClick={() => loadFromVersion(v)}
+            style={{ marginLeft: `${versionDepth(v, gallery) * 16}px` }}
+            className={`flex items-center gap-4 p-2 rounded-2xl border transition-all text-left ${selected.id === v.id ? 'border-cyan-500/60 bg-cyan-500/10' : 'border-white/5 hover:bg-white/5'}`}
+          >
+            <MediaThumb image={v} poster={stack.root.assets?.[CLIP_POSTER]} className="w-10 h-10 rounded-xl object-cover" alt="Version" />
+            <div className="flex flex-col flex-1 min-w-0">
+              <span className="text-[10px] roman font-black uppercase tracking-widest text-white/80 truncate">{describeOperation(v.version?.operation)}</span>
+              <span className="text-[8px] mono text-white/30 uppercase">{new Date(v.version?.appliedAt ?? v.timestamp).toLocaleTimeString()}</span>
+            </div>
+            {stack.head.id === v.id && (
+              <span className="text-[7px] mono font-bold text-black bg-cyan-400 px-2 py-1 rounded-md uppercase">Head</span>
+            )}
+          </button>
+        ))}
+      </div>
+
+      {stack.head.id !== selected.id && (
+        <button
+          onClick={() => onSetHead(selected)}
+          className="w-full mb-6 py-3 rounded-2xl border border-amber-400/30 text-[9px] roman font-black uppercase tracking-widest text-amber-400 hover:bg-amber-400/10 transition-all"
+        >
+          Revert Stack to This Version
+        </button>
+      )}
+
+      {selected.mediaType === 'image' && (
+        <div className="flex flex-col gap-4 border-t border-white/5 pt-6">
+          <div className="flex gap-2 p-1 glass rounded-xl">
+            {opTypes.map(t => (
+              <button
+                key={t} onClick={() => setOpType(t)}
+                className={`flex-1 py-2 rounded-lg text-[9px] roman font-black uppercase tracking-widest transition-all ${opType === t ? 'bg-cyan-500 text-black' : 'text-white/40'}`}
+              >
+                {t}
+              </button>
+            ))}
+          </div>
+
+          {opType === 'portrait' && canPortrait ? (
+            <div className="flex flex-col gap-4">
+              <div className="flex flex-wrap gap-2">
+                {APERTURE_STOPS.map(stop => (
+                  <button
+                    key={stop} onClick={() => setAperture(stop)}
+                    className={`px-3 py-2 border rounded-xl text-[8px] mono font-bold transition-all ${aperture === stop ? 'border-cyan-400 text-cyan-400 bg-cyan-400/10' : 'border-white/5 text-white/30'}`}
+                  >
+                    f/{stop}
+                  </button>
+                ))}
+              </div>
+              <div className="flex items-center gap-4">
+                <span className="text-[8px] mono text-white/40 uppercase tracking-widest whitespace-nowrap">Focal Plane</span>
+                <input
+                  type="range" min="0" max="1" step="0.01" value={focus}
+                  onChange={e => setFocus(parseFloat(e.target.value))}
+                  className="flex-1 accent-cyan-400"
+                />
+                <span className="text-[8px] mono text-white/40 uppercase w-16 text-right">{focus >= 0.95 ? 'Subject' : focus <= 0.05 ? 'Far' : focus.toFixed(2)}</span>
+              </div>
+            </div>
+          ) : opType === 'stitch' && sweepFrames > 1 ? (
+            <div className="flex items-center gap-4">
+              <span className="text-[8px] mono text-white/40 uppercase tracking-widest whitespace-nowrap">Lens FOV</span>
+              <input
+                type="range" min="20" max="120" step="1" value={fov}
+                onChange={e => setFov(parseInt(e.target.value))}
+                className="flex-1 accent-cyan-400"
+              />
+              <span className="text-[8px] mono text-white/40 uppercase w-16 text-right">{fov}° / {sweepFrames} fr</span>
+            </div>
+          ) : opType === 'filter' ? (
+            <div className="flex flex-wrap gap-2">
+              {presets.filter(p => p.id !== CameraFilter.NONE).map(p => (
+                <button
+                  key={p.id} onClick={() => setFilter(p.id)}
+                  className={`px-3 py-2 border rounded-xl text-[8px] roman font-black uppercase transition-all ${filter === p.id ? 'border-cyan-400 text-cyan-400 bg-cyan-400/10' : 'border-white/5 text-white/30'}`}
+                >
+                  {p.name}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <textarea
+              value={instruction} onChange={e => setInstruction(e.target.value)} rows={3}
+              className="w-full bg-white/5 border border-white/10 rounded-2xl px-4 py-3 text-[11px] text-white/80 focus:outline-none focus:border-cyan-400 resize-none"
+            />
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <button
+              onClick={() => onRun(selected, operation)} disabled={isProcessing}
+              className="py-3 rounded-2xl border border-cyan-500/40 text-[9px] roman font-black uppercase tracking-widest text-cyan-400 hover:bg-cyan-500 hover:text-black transition-all disabled:opacity-30"
+            >
+              Branch From Here
+            </button>
+            <button
+              onClick={() => onRun(stack.root, operation)} disabled={isProcessing || stack.root.mediaType !== 'image'}
+              className="py-3 rounded-2xl border border-white/10 text-[9px] roman font-black uppercase tracking-widest text-white/60 hover:bg-white/10 transition-all disabled:opacity-30"
+            >
+              Re-run on Original
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VersionStackPanel;
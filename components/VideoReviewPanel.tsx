@@ -0,0 +1,169 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CapturedImage } from '../types';
+import { captureFrame, ensureDuration } from '../services/clipService';
+import { formatClipTimecode } from '../utils/timecode';
+
+interface VideoReviewPanelProps {
+  clip: CapturedImage;
+  posterTime?: number;
+  isProcessing: boolean;
+  onTrim: (clip: CapturedImage, start: number, end: number) => void;
+  onGrabFrame: (clip: CapturedImage, frame: HTMLCanvasElement, time: number) => void;
+  onSetPoster: (clip: CapturedImage, frame: HTMLCanvasElement, time: number) => void;
+}
+
+const DEFAULT_FPS = 30;
+// Shorter trims are refused; the re-record needs a few frames to start cleanly
+const MIN_TRIM = 0.2;
+
+const VideoReviewPanel: React.FC<VideoReviewPanelProps> = ({ clip, posterTime, isProcessing, onTrim, onGrabFrame, onSetPoster }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [duration, setDuration] = useState(0);
+  const [time, setTime] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [inPoint, setInPoint] = useState(0);
+  const [outPoint, setOutPoint] = useState(0);
+  const fps = clip.metadata?.format?.fps ?? DEFAULT_FPS;
+  const frameIndex = Math.floor(time * fps + 1e-6);
+  const trimmed = inPoint > 0 || outPoint < duration;
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    let cancelled = false;
+    ensureDuration(video)
+      .then(length => {
+        if (cancelled) return;
+        setDuration(length);
+        setOutPoint(length);
+        video.currentTime = Math.min(posterTime ?? 0, length);
+      })
+      .catch(err => console.error("Clip load failed", err));
+    return () => { cancelled = true; };
+  }, []);
+
+  // Playback loops between the in and out points rather than over the whole clip
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !playing) return;
+    let handle = 0;
+    const tick = () => {
+      if (video.currentTime >= outPoint || video.ended) video.currentTime = inPoint;
+      setTime(video.currentTime);
+      handle = requestAnimationFrame(tick);
+    };
+    handle = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(handle);
+  }, [playing, inPoint, outPoint]);
+
+  const seek = (seconds: number) => {
+    const video = videoRef.current;
+    if (!video || !duration) return;
+    video.pause();
+    setPlaying(false);
+    const target = Math.min(Math.max(0, seconds), duration);
+    video.currentTime = target;
+    setTime(target);
+  };
+
+  // Seeking to the middle of a frame's interval lands on that frame whatever the decoder's rounding
+  const stepFrames = (delta: number) => {
+    const lastFrame = Math.max(0, Math.ceil(duration * fps) - 1);
+    const target = Math.min(Math.max(0, frameIndex + delta), lastFrame);
+    seek((target + 0.5) / fps);
+  };
+
+  const togglePlay = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (playing) {
+      video.pause();
+      setPlaying(false);
+      return;
+    }
+    if (video.currentTime < inPoint || video.currentTime >= outPoint) video.currentTime = inPoint;
+    video.play().then(() => setPlaying(true)).catch(err => console.warn("Clip playback refused", err));
+  };
+
+  const grab = (handler: (clip: CapturedImage, frame: HTMLCanvasElement, time: number) => void) => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    video.pause();
+    setPlaying(false);
+    handler(clip, captureFrame(video), video.currentTime);
+  };
+
+  const markIn = () => setInPoint(Math.min(time, Math.max(0, outPoint - MIN_TRIM)));
+  const markOut = () => setOutPoint(Math.max(time, Math.min(duration, inPoint + MIN_TRIM)));
+  const percent = (seconds: number) => `${duration ? (seconds / duration) * 100 : 0}%`;
+  const buttonClass = 'h-9 px-3 rounded-xl border border-white/10 text-[9px] mono font-bold uppercase tracking-widest text-white/60 hover:bg-white/10 transition-all disabled:opacity-30';
+
+  return (
+    <div className="w-full self-stretch flex flex-col">
+      <div className="flex-1 flex items-center justify-center min-h-0">
+        <video
+          ref={videoRef} src={clip.url} playsInline preload="auto"
+          onClick={togglePlay}
+          onSeeked={e => setTime(e.currentTarget.currentTime)}
+          onPause={() => setPlaying(false)}
+          className="max-w-full max-h-full"
+        />
+      </div>
+
+      <div className="px-8 pb-8 pt-4 flex flex-col gap-4 bg-gradient-to-t from-black/80 to-transparent">
+        <div className="relative h-6 flex items-center">
+          <div className="absolute h-1 rounded-full bg-white/10 left-0 right-0" />
+          <div className="absolute h-1 rounded-full bg-cyan-400/40" style={{ left: percent(inPoint), width: `calc(${percent(outPoint)} - ${percent(inPoint)})` }} />
+          {posterTime !== undefined && (
+            <div className="absolute w-1.5 h-1.5 rounded-full bg-amber-400 -translate-x-1/2 -top-0.5" style={{ left: percent(posterTime) }} title="Poster Frame" />
+          )}
+          <input
+            type="range" min="0" max={duration || 0} step={1 / fps} value={time}
+            onChange={e => seek(parseFloat(e.target.value))}
+            className="relative w-full accent-cyan-400"
+          />
+        </div>
+
+        <div className="flex justify-between items-center gap-4 flex-wrap">
+          <div className="flex items-center gap-2">
+            <button onClick={() => stepFrames(-1)} disabled={!duration} className={buttonClass}>◂ 1F</button>
+            <button onClick={togglePlay} disabled={!duration} className={buttonClass}>{playing ? '❚❚' : '▶'}</button>
+            <button onClick={() => stepFrames(1)} disabled={!duration} className={buttonClass}>1F ▸</button>
+            <span className="text-[10px] mono font-bold text-white/80 tracking-widest ml-2">{formatClipTimecode(time, fps)}</span>
+            <span className="text-[8px] mono text-white/30 uppercase tracking-widest">/ {formatClipTimecode(duration, fps)} // {fps}FPS</span>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={markIn} disabled={!duration} className={buttonClass}>In {formatClipTimecode(inPoint, fps)}</button>
+            <button onClick={markOut} disabled={!duration} className={buttonClass}>Out {formatClipTimecode(outPoint, fps)}</button>
+            {trimmed && (
+              <button onClick={() => { setInPoint(0); setOutPoint(duration); }} className={buttonClass}>Clear</button>
+            )}
+          </div>
+        </div>
+
+        <div className="flex gap-3 flex-wrap">
+          <button
+            onClick={() => onTrim(clip, inPoint, outPoint)} disabled={isProcessing || !trimmed || outPoint - inPoint < MIN_TRIM}
+            className="px-6 py-3 rounded-2xl border border-cyan-500/40 text-[9px] roman font-black uppercase tracking-widest text-cyan-400 hover:bg-cyan-500 hover:text-black transition-all disabled:opacity-30"
+          >
+            Apply Trim ({(outPoint - inPoint).toFixed(2)}s)
+          </button>
+          <button
+            onClick={() => grab(onGrabFrame)} disabled={isProcessing || !duration}
+            className="px-6 py-3 rounded-2xl border border-white/10 text-[9px] roman font-black uppercase tracking-widest text-white/60 hover:bg-white/10 transition-all disabled:opacity-30"
+          >
+            Grab Frame
+          </button>
+          <button
+            onClick={() => grab(onSetPoster)} disabled={isProcessing || !duration}
+            className="px-6 py-3 rounded-2xl border border-amber-400/30 text-[9px] roman font-black uppercase tracking-widest text-amber-400 hover:bg-amber-400/10 transition-all disabled:opacity-30"
+          >
+            Set Poster
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VideoReviewPanel;
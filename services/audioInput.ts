@@ -0,0 +1,144 @@
+import { AudioConfig, AudioTakeInfo } from '../types';
+import { measureLevels, toDbfs } from '../utils/audioUtils';
+
+export interface AudioDevice {
+  deviceId: string;
+  label: string;
+}
+
+export interface ChannelLevel {
+  /** Linear sample peak, 0..1 */
+  peak: number;
+  /** Linear RMS, 0..1 */
+  rms: number;
+  clipped: boolean;
+}
+
+// Anything within 0.1 dB of full scale is treated as a clip
+const CLIP_LEVEL = 0.9886;
+const METER_FFT_SIZE = 2048;
+
+export const DEFAULT_AUDIO: AudioConfig = { echoCancellation: true, noiseSuppression: true, autoGainControl: true, recordWav: false };
+
+/** getUserMedia audio constraints for a config. */
+export const audioConstraints = (config: AudioConfig): MediaTrackConstraints => ({
+  ...(config.deviceId ? { deviceId: { exact: config.deviceId } } : {}),
+  echoCancellation: config.echoCancellation,
+  noiseSuppression: config.noiseSuppression,
+  autoGainControl: config.autoGainControl,
+});
+
+/** What a track actually runs with; browsers may ignore processing they cannot switch. */
+export const appliedAudio = (track: MediaStreamTrack | undefined, label?: string): AudioTakeInfo | undefined => {
+  if (!track) return undefined;
+  const settings = track.getSettings?.() ?? {};
+  return {
+    input: label || track.label || undefined,
+    echoCancellation: typeof settings.echoCancellation === 'boolean' ? settings.echoCancellation : undefined,
+    noiseSuppression: settings.noiseSuppression,
+    autoGainControl: settings.autoGainControl,
+  };
+};
+
+class AudioInputs {
+  private devices: AudioDevice[] = [];
+  private listeners: Set<(devices: AudioDevice[]) => void> = new Set();
+
+  constructor() {
+    navigator.mediaDevices?.addEventListener?.('devicechange', () => { this.discover(); });
+  }
+
+  /** Lists every microphone. Labels are only populated once microphone permission has been granted. */
+  async discover(): Promise<AudioDevice[]> {
+    if (!navigator.mediaDevices?.enumerateDevices) return this.devices;
+    try {
+      const inputs = (await navigator.mediaDevices.enumerateDevices()).filter(d => d.kind === 'audioinput' && d.deviceId !== 'default');
+      this.devices = inputs.map((d, i) => ({ deviceId: d.deviceId, label: d.label || `Microphone ${i + 1}` }));
+      this.notify();
+    } catch (err) {
+      console.error("Microphone discovery failed", err);
+    }
+    return this.devices;
+  }
+
+  list(): AudioDevice[] {
+    return this.devices;
+  }
+
+  label(deviceId: string | undefined): string | undefined {
+    return this.devices.find(d => d.deviceId === deviceId)?.label;
+  }
+
+  onChange(callback: (devices: AudioDevice[]) => void) {
+    this.listeners.add(callback);
+    return () => { this.listeners.delete(callback); };
+  }
+
+  private notify() {
+    this.listeners.forEach(cb => cb(this.devices));
+  }
+}
+
+export const audioInputs = new AudioInputs();
+
+/**
+ * Per-channel peak and RMS of a stream's audio, read on demand (e.g. once per animation frame).
+ * Also keeps the loudest peak and any clipping since the last reset, for a take's metadata.
+ */
+export class LevelMeter {
+  private ctx: AudioContext;
+  private source: MediaStreamAudioSourceNode;
+  private analysers: AnalyserNode[];
+  private buffer: Float32Array<ArrayBuffer>;
+  private maxPeak = 0;
+  private clipped = false;
+
+  constructor(stream: MediaStream) {
+    const track = stream.getAudioTracks()[0];
+    if (!track) throw new Error('Stream has no audio');
+    const channels = Math.min(2, Math.max(1, track.getSettings?.().channelCount ?? 1));
+    this.ctx = new AudioContext();
+    this.source = this.ctx.createMediaStreamSource(stream);
+    const splitter = this.ctx.createChannelSplitter(channels);
+    this.source.connect(splitter);
+    this.analysers = Array.from({ length: channels }, (_, i) => {
+      const analyser = this.ctx.createAnalyser();
+      analyser.fftSize = METER_FFT_SIZE;
+      splitter.connect(analyser, i);
+      return analyser;
+    });
+    this.buffer = new Float32Array(METER_FFT_SIZE);
+  }
+
+  read(): ChannelLevel[] {
+    if (this.ctx.state === 'suspended') this.ctx.resume().catch(() => {});
+    return this.analysers.map(analyser => {
+      analyser.getFloatTimeDomainData(this.buffer);
+      const { peak, rms } = measureLevels(this.buffer);
+      const clipped = peak >= CLIP_LEVEL;
+      this.maxPeak = Math.max(this.maxPeak, peak);
+      this.clipped = this.clipped || clipped;
+      return { peak, rms, clipped };
+    });
+  }
+
+  resetStats() {
+    this.maxPeak = 0;
+    this.clipped = false;
+  }
+
+  /** Continues a take's peak and clip record from a meter this one replaces. */
+  carryOver(previous: LevelMeter) {
+    this.maxPeak = Math.max(this.maxPeak, previous.maxPeak);
+    this.clipped = this.clipped || previous.clipped;
+  }
+
+  get stats(): Pick<AudioTakeInfo, 'peakDb' | 'clipped'> {
+    return { peakDb: this.maxPeak > 0 ? Math.round(toDbfs(this.maxPeak) * 10) / 10 : undefined, clipped: this.clipped };
+  }
+
+  dispose() {
+    this.source.disconnect();
+    this.ctx.close().catch(() => {});
+  }
+}
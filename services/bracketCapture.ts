@@ -0,0 +1,117 @@
+import { RgbaFrame } from '../utils/imaging';
+import { grabFrame, waitForFrames } from '../utils/frameUtils';
+
+export type BracketMethod = 'exposureCompensation' | 'exposureTime' | 'synthetic';
+
+export interface BracketResult {
+  frames: RgbaFrame[];
+  method: BracketMethod;
+  stops: number[];
+}
+
+export interface CapabilityRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface ExposureCapabilities extends MediaTrackCapabilities {
+  exposureCompensation?: CapabilityRange;
+  exposureTime?: CapabilityRange;
+  exposureMode?: string[];
+  iso?: CapabilityRange;
+  whiteBalanceMode?: string[];
+  colorTemperature?: CapabilityRange;
+  focusMode?: string[];
+  focusDistance?: CapabilityRange;
+}
+
+export interface ExposureSettings extends MediaTrackSettings {
+  exposureCompensation?: number;
+  exposureTime?: number;
+  exposureMode?: string;
+  iso?: number;
+  whiteBalanceMode?: string;
+  colorTemperature?: number;
+  focusMode?: string;
+  focusDistance?: number;
+}
+
+// Frames to let auto-exposure pipelines settle after a constraint change
+export const SETTLE_FRAMES = 6;
+const DISPLAY_GAMMA = 2.2;
+
+export const planBracket = (track: MediaStreamTrack | undefined): BracketMethod => {
+  const caps = (track?.getCapabilities?.() || {}) as ExposureCapabilities;
+  if (caps.exposureTime && caps.exposureMode?.includes('manual')) return 'exposureTime';
+  if (caps.exposureCompensation && caps.exposureCompensation.max > caps.exposureCompensation.min) return 'exposureCompensation';
+  return 'synthetic';
+};
+
+export const clampToRange = (value: number, range: CapabilityRange) => {
+  const stepped = range.step > 0 ? Math.round(value / range.step) * range.step : value;
+  return Math.min(range.max, Math.max(range.min, stepped));
+};
+
+/** Approximates an exposure offset from a single frame by gaining in linear light. */
+const syntheticExposure = (frame: RgbaFrame, stops: number): RgbaFrame => {
+  const gain = Math.pow(2, stops);
+  const lut = new Uint8ClampedArray(256);
+  for (let v = 0; v < 256; v++) lut[v] = Math.pow(Math.pow(v / 255, DISPLAY_GAMMA) * gain, 1 / DISPLAY_GAMMA) * 255;
+  const data = new Uint8ClampedArray(frame.data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = lut[frame.data[i]];
+    data[i + 1] = lut[frame.data[i + 1]];
+    data[i + 2] = lut[frame.data[i + 2]];
+    data[i + 3] = 255;
+  }
+  return { data, width: frame.width, height: frame.height };
+};
+
+/**
+ * Captures one frame per stop using whichever exposure control the track exposes,
+ * restoring the original exposure state afterwards.
+ */
+export const captureBracket = async (
+  video: HTMLVideoElement,
+  track: MediaStreamTrack | undefined,
+  stops: number[],
+  maxEdge: number,
+  onFrame?: (index: number) => void
+): Promise<BracketResult> => {
+  const method = planBracket(track);
+
+  if (method === 'synthetic' || !track) {
+    onFrame?.(0);
+    const base = grabFrame(video, maxEdge);
+    return { frames: stops.map(s => s === 0 ? base : syntheticExposure(base, s)), method: 'synthetic', stops };
+  }
+
+  const caps = track.getCapabilities() as ExposureCapabilities;
+  const original = track.getSettings() as ExposureSettings;
+  const frames: RgbaFrame[] = [];
+
+  try {
+    for (let i = 0; i < stops.length; i++) {
+      onFrame?.(i);
+      const constraint: Record<string, unknown> = method === 'exposureTime'
+        ? { exposureMode: 'manual', exposureTime: clampToRange((original.exposureTime || caps.exposureTime!.min) * Math.pow(2, stops[i]), caps.exposureTime!) }
+        : { exposureCompensation: clampToRange((original.exposureCompensation || 0) + stops[i], caps.exposureCompensation!) };
+      await track.applyConstraints({ advanced: [constraint as MediaTrackConstraintSet] });
+      await waitForFrames(video, SETTLE_FRAMES);
+      frames.push(grabFrame(video, maxEdge));
+    }
+  } finally {
+    // A manual exposure has to get its own time and ISO back, or it stays on the last stop
+    const manualRestore = original.exposureMode === 'manual'
+      ? { ...(original.exposureTime !== undefined ? { exposureTime: original.exposureTime } : {}), ...(original.iso !== undefined ? { iso: original.iso } : {}) }
+      : {};
+    const restore: Record<string, unknown> = method === 'exposureTime'
+      ? { exposureMode: original.exposureMode || 'continuous', ...manualRestore }
+      : { exposureCompensation: original.exposureCompensation || 0 };
+    await track.applyConstraints({ advanced: [restore as MediaTrackConstraintSet] })
+      .catch(e => console.warn("Exposure restore failed", e));
+  }
+
+  return { frames, method, stops };
+};
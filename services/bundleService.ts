@@ -0,0 +1,166 @@
+import { CapturedImage } from '../types';
+import { urlToBlob } from '../utils/mediaUtils';
+import { createZip, readZip, ZipEntry } from '../utils/zipUtils';
+import { legionService } from './legionService';
+
+const BUNDLE_FORMAT = 'quan-bundle';
+const BUNDLE_VERSION = 1;
+
+export interface BundleSidecar {
+  id: string;
+  timestamp: number;
+  mediaType: CapturedImage['mediaType'];
+  mimeType: string;
+  metadata?: CapturedImage['metadata'];
+  analysis?: string;
+  tips?: string[];
+  grounding?: CapturedImage['grounding'];
+  version?: CapturedImage['version'];
+}
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  session: {
+    id: string;
+    exportedAt: number;
+    deviceId: string;
+    itemCount: number;
+    firstCapture: number;
+    lastCapture: number;
+  };
+  items: {
+    id: string;
+    media: string;
+    sidecar: string;
+    mediaType: CapturedImage['mediaType'];
+    bytes: number;
+    /** Asset name to archive path, for captures that keep side files. */
+    assets?: Record<string, string>;
+  }[];
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'video/webm': 'webm',
+  'video/mp4': 'mp4',
+  'audio/wav': 'wav',
+};
+
+const MIME_BY_EXTENSION: Record<string, string> = Object.fromEntries(
+  Object.entries(EXTENSIONS).map(([mime, ext]) => [ext, mime])
+);
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+const stampFor = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}-${pad(d.getHours())}${pad(d.getMinutes())}${pad(d.getSeconds())}`;
+};
+
+const baseMime = (type: string) => type.split(';')[0].trim();
+
+export const exportBundle = async (images: CapturedImage[]): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const entries: ZipEntry[] = [];
+  const items: BundleManifest['items'] = [];
+
+  for (const image of images) {
+    const blob = await urlToBlob(image.url);
+    const mimeType = baseMime(blob.type) || (image.mediaType === 'video' ? 'video/webm' : 'image/jpeg');
+    const base = `media/QUAN_${stampFor(image.timestamp)}_${image.id.split('-')[0].toUpperCase()}`;
+    const media = `${base}.${EXTENSIONS[mimeType] || 'bin'}`;
+    const sidecarName = `${base}.json`;
+    const sidecar: BundleSidecar = {
+      id: image.id,
+      timestamp: image.timestamp,
+      mediaType: image.mediaType,
+      mimeType,
+      metadata: image.metadata,
+      analysis: image.analysis,
+      tips: image.tips,
+      grounding: image.grounding,
+      version: image.version,
+    };
+
+    entries.push({ name: media, data: new Uint8Array(await blob.arrayBuffer()), lastModified: image.timestamp });
+    entries.push({ name: sidecarName, data: encoder.encode(JSON.stringify(sidecar, null, 2)), lastModified: image.timestamp });
+
+    let assets: Record<string, string> | undefined;
+    for (const [name, url] of Object.entries(image.assets || {})) {
+      const asset = await urlToBlob(url);
+      const path = `${base}.${name}.${EXTENSIONS[baseMime(asset.type)] || 'bin'}`;
+      entries.push({ name: path, data: new Uint8Array(await asset.arrayBuffer()), lastModified: image.timestamp });
+      assets = { ...assets, [name]: path };
+    }
+    items.push({ id: image.id, media, sidecar: sidecarName, mediaType: image.mediaType, bytes: blob.size, assets });
+  }
+
+  const timestamps = images.map(i => i.timestamp);
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    session: {
+      id: crypto.randomUUID(),
+      exportedAt: Date.now(),
+      deviceId: legionService.getDeviceId(),
+      itemCount: images.length,
+      firstCapture: Math.min(...timestamps),
+      lastCapture: Math.max(...timestamps),
+    },
+    items,
+  };
+  entries.unshift({ name: 'manifest.json', data: encoder.encode(JSON.stringify(manifest, null, 2)) });
+  return createZip(entries);
+};
+
+export const importBundle = async (file: Blob): Promise<CapturedImage[]> => {
+  const files = await readZip(await file.arrayBuffer());
+  const decoder = new TextDecoder();
+  const manifestBytes = files.get('manifest.json');
+  if (!manifestBytes) throw new Error('Not a Quan bundle: manifest.json is missing.');
+
+  const manifest: BundleManifest = JSON.parse(decoder.decode(manifestBytes));
+  if (manifest.format !== BUNDLE_FORMAT) throw new Error(`Unknown bundle format "${manifest.format}".`);
+  if (manifest.version > BUNDLE_VERSION) throw new Error(`Bundle version ${manifest.version} is newer than this app supports.`);
+
+  const images: CapturedImage[] = [];
+  for (const item of manifest.items) {
+    const media = files.get(item.media);
+    const sidecarBytes = files.get(item.sidecar);
+    if (!media || !sidecarBytes) {
+      console.warn("Bundle entry missing, skipped", item.id);
+      continue;
+    }
+    const sidecar: BundleSidecar = JSON.parse(decoder.decode(sidecarBytes));
+    const ext = item.media.split('.').pop() || '';
+    const type = sidecar.mimeType || MIME_BY_EXTENSION[ext] || '';
+    let assets: Record<string, string> | undefined;
+    for (const [name, path] of Object.entries(item.assets || {})) {
+      const data = files.get(path);
+      if (!data) {
+        console.warn("Bundle asset missing, skipped", item.id, name);
+        continue;
+      }
+      const assetType = MIME_BY_EXTENSION[path.split('.').pop() || ''] || '';
+      assets = { ...assets, [name]: URL.createObjectURL(new Blob([data as BlobPart], { type: assetType })) };
+    }
+    images.push({
+      id: sidecar.id,
+      url: URL.createObjectURL(new Blob([media as BlobPart], { type })),
+      timestamp: sidecar.timestamp,
+      mediaType: sidecar.mediaType,
+      metadata: sidecar.metadata,
+      analysis: sidecar.analysis,
+      tips: sidecar.tips,
+      grounding: sidecar.grounding,
+      version: sidecar.version,
+      assets,
+    });
+  }
+  return images;
+};
+
+export const bundleFilename = () => `QUAN_SESSION_${stampFor(Date.now())}.zip`;
@@ -0,0 +1,125 @@
+import { CameraDevice, LensProfile } from '../types';
+import { SETTINGS_STORE, openDatabase, requestToPromise, transactionDone } from '../utils/idb';
+
+export type LensMap = Partial<Record<LensProfile, string>>;
+
+interface StoredLensMap {
+  id: typeof LENS_MAP_KEY;
+  map: LensMap;
+}
+
+const LENS_MAP_KEY = 'lens-map';
+
+// Label hints some vendors put on their logical cameras
+const LENS_HINTS: Partial<Record<LensProfile, RegExp>> = {
+  [LensProfile.WIDE]: /ultra|wide/i,
+  [LensProfile.TELEPHOTO]: /tele|zoom|periscope/i,
+  [LensProfile.MACRO]: /macro/i,
+};
+
+const facingOf = (device: MediaDeviceInfo): CameraDevice['facing'] => {
+  const info = device as MediaDeviceInfo & { getCapabilities?: () => MediaTrackCapabilities };
+  const facing = info.getCapabilities?.().facingMode?.[0];
+  if (facing === 'user' || /front|user|facetime/i.test(device.label)) return 'front';
+  if (facing === 'environment' || /back|rear|environment/i.test(device.label)) return 'back';
+  return 'unknown';
+};
+
+class CameraDevices {
+  private devices: CameraDevice[] = [];
+  private assigned: LensMap = {};
+  private listeners: Set<(devices: CameraDevice[]) => void> = new Set();
+  private loading: Promise<void> | null = null;
+
+  constructor() {
+    navigator.mediaDevices?.addEventListener?.('devicechange', () => { this.discover(); });
+  }
+
+  /** Restores the user's lens assignments. */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        const db = await openDatabase();
+        const tx = db.transaction(SETTINGS_STORE, 'readonly');
+        const record = await requestToPromise<StoredLensMap | undefined>(tx.objectStore(SETTINGS_STORE).get(LENS_MAP_KEY));
+        this.assigned = record?.map ?? {};
+        this.notify();
+      })().catch(err => {
+        console.error("Lens map load failed", err);
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  /** Lists every video input. Labels are only populated once camera permission has been granted. */
+  async discover(): Promise<CameraDevice[]> {
+    if (!navigator.mediaDevices?.enumerateDevices) return this.devices;
+    try {
+      const inputs = (await navigator.mediaDevices.enumerateDevices()).filter(d => d.kind === 'videoinput');
+      this.devices = inputs.map((d, i) => ({
+        deviceId: d.deviceId,
+        groupId: d.groupId,
+        label: d.label || `Camera ${i + 1}`,
+        facing: facingOf(d),
+      }));
+      this.notify();
+    } catch (err) {
+      console.error("Camera discovery failed", err);
+    }
+    return this.devices;
+  }
+
+  list(): CameraDevice[] {
+    return this.devices;
+  }
+
+  /** The user's choice for a lens, if it is still connected. */
+  assignment(lens: LensProfile): string | undefined {
+    const id = this.assigned[lens];
+    return id && this.devices.some(d => d.deviceId === id) ? id : undefined;
+  }
+
+  /**
+   * The camera a lens profile should open: the user's assignment, else a labelled
+   * match, else the main back camera. Anamorphic profiles are adapters on the main camera.
+   */
+  deviceFor(lens: LensProfile): string | undefined {
+    const assigned = this.assignment(lens);
+    if (assigned) return assigned;
+    if (lens === LensProfile.ANAMORPHIC_1_33 || lens === LensProfile.ANAMORPHIC_1_55) return this.deviceFor(LensProfile.STANDARD);
+    const back = this.devices.filter(d => d.facing !== 'front');
+    const hint = LENS_HINTS[lens];
+    const hinted = hint && back.find(d => hint.test(d.label));
+    if (hinted) return hinted.deviceId;
+    const hints = Object.values(LENS_HINTS);
+    return (back.find(d => !hints.some(h => h!.test(d.label))) ?? back[0] ?? this.devices[0])?.deviceId;
+  }
+
+  /** Pins a lens profile to a camera; undefined returns it to automatic matching. */
+  async assign(lens: LensProfile, deviceId: string | undefined): Promise<void> {
+    const map = { ...this.assigned };
+    if (deviceId) map[lens] = deviceId; else delete map[lens];
+    const db = await openDatabase();
+    const tx = db.transaction(SETTINGS_STORE, 'readwrite');
+    tx.objectStore(SETTINGS_STORE).put({ id: LENS_MAP_KEY, map } as StoredLensMap);
+    await transactionDone(tx);
+    this.assigned = map;
+    this.notify();
+  }
+
+  label(deviceId: string | undefined): string | undefined {
+    return this.devices.find(d => d.deviceId === deviceId)?.label;
+  }
+
+  onChange(callback: (devices: CameraDevice[]) => void) {
+    this.listeners.add(callback);
+    return () => { this.listeners.delete(callback); };
+  }
+
+  private notify() {
+    this.listeners.forEach(cb => cb(this.devices));
+  }
+}
+
+export const cameraDevices = new CameraDevices();
@@ -0,0 +1,200 @@
+import { ClipFormat, RecordingProfile } from '../types';
+import { DEFAULT_PROFILE, clipFormat, createRecorder, finishRecording, recordedFormat, recorderOptions, resolveCodec } from './recordingProfiles';
+
+type FrameCallbackVideo = HTMLVideoElement & { requestVideoFrameCallback?: (cb: () => void) => number };
+
+/** Asset name of a clip's poster frame, kept on the stack root. */
+export const CLIP_POSTER = 'poster';
+
+const POSTER_MAX_EDGE = 1280;
+const POSTER_QUALITY = 0.85;
+// Autoplay policy can leave a context suspended without ever rejecting
+const AUDIO_RESUME_TIMEOUT_MS = 3000;
+
+const withTimeout = <T>(promise: Promise<T>, ms: number, message: string) => new Promise<T>((resolve, reject) => {
+  const timer = window.setTimeout(() => reject(new Error(message)), ms);
+  promise.then(resolve, reject).finally(() => clearTimeout(timer));
+});
+
+const once = (target: EventTarget, event: string) => new Promise<void>((resolve, reject) => {
+  const done = () => { target.removeEventListener('error', fail); resolve(); };
+  const fail = () => { target.removeEventListener(event, done); reject(new Error(`Clip failed while waiting for ${event}`)); };
+  target.addEventListener(event, done, { once: true });
+  target.addEventListener('error', fail, { once: true });
+});
+
+/**
+ * MediaRecorder files carry no duration, so the element reports Infinity until it has
+ * seen the end. Seeking far past it makes the browser find the real length.
+ */
+export const ensureDuration = async (video: HTMLVideoElement): Promise<number> => {
+  if (video.readyState < HTMLMediaElement.HAVE_METADATA) await once(video, 'loadedmetadata');
+  if (!Number.isFinite(video.duration)) {
+    const found = once(video, 'durationchange');
+    video.currentTime = Number.MAX_SAFE_INTEGER;
+    await found;
+    video.currentTime = 0;
+    await once(video, 'seeked');
+  }
+  return video.duration;
+};
+
+export const loadClip = async (url: string): Promise<HTMLVideoElement> => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  video.src = url;
+  await ensureDuration(video);
+  return video;
+};
+
+export const seekTo = async (video: HTMLVideoElement, time: number) => {
+  if (Math.abs(video.currentTime - time) < 1e-4 && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) return;
+  const seeked = once(video, 'seeked');
+  video.currentTime = time;
+  await seeked;
+};
+
+/** The frame the element is showing, at full size or capped to maxEdge. */
+export const captureFrame = (video: HTMLVideoElement, maxEdge = Infinity): HTMLCanvasElement => {
+  const scale = Math.min(1, maxEdge / Math.max(video.videoWidth, video.videoHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(video.videoWidth * scale));
+  canvas.height = Math.max(1, Math.round(video.videoHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas unavailable');
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+export const posterFromCanvas = (frame: HTMLCanvasElement) => {
+  const scale = Math.min(1, POSTER_MAX_EDGE / Math.max(frame.width, frame.height));
+  if (scale === 1) return frame.toDataURL('image/jpeg', POSTER_QUALITY);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(frame.width * scale);
+  canvas.height = Math.round(frame.height * scale);
+  canvas.getContext('2d')?.drawImage(frame, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', POSTER_QUALITY);
+};
+
+/** A JPEG poster for a clip, from the frame at `time` seconds (clamped into the clip). */
+export const clipPoster = async (url: string, time = 0): Promise<string> => {
+  const video = await loadClip(url);
+  try {
+    await seekTo(video, Math.min(Math.max(0, time), Math.max(0, video.duration - 0.05)));
+    return posterFromCanvas(captureFrame(video, POSTER_MAX_EDGE));
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+  }
+};
+
+export interface RecordedClip {
+  blob: Blob;
+  format: ClipFormat;
+}
+
+/** The profile a clip was recorded with, so a re-record keeps its codec, rate and bitrate. */
+const profileOf = (format?: ClipFormat): RecordingProfile => ({
+  codec: format?.codec ?? DEFAULT_PROFILE.codec,
+  bitrate: format?.bitrate ?? DEFAULT_PROFILE.bitrate,
+  resolution: format?.height ?? DEFAULT_PROFILE.resolution,
+  fps: format?.fps ?? DEFAULT_PROFILE.fps,
+  container: format?.mimeType.startsWith('video/webm') ? 'webm' : 'mp4',
+});
+
+// Small enough to scrub smoothly on a phone, sharp enough to judge a take
+const PROXY_PROFILE: RecordingProfile = { codec: 'H264', bitrate: 1000000, resolution: 480, fps: 24, container: 'mp4' };
+const PROXY_MAX_EDGE = 854;
+// Playback gets this long past the clip's own length before a re-record counts as stalled
+const STALL_GRACE_MS = 10000;
+
+interface RerecordOptions {
+  maxEdge?: number;
+  /** Carry the clip's sound; without it the element stays muted and needs no Web Audio */
+  withAudio?: boolean;
+  signal?: AbortSignal;
+}
+
+/**
+ * Re-records `start`..`end` seconds of a clip by playing it through a canvas in real time,
+ * with any audio routed through Web Audio so nothing reaches the speakers.
+ */
+const rerecord = async (url: string, start: number, end: number, profile: RecordingProfile, { maxEdge = Infinity, withAudio = true, signal }: RerecordOptions = {}): Promise<RecordedClip> => {
+  const video = await loadClip(url) as FrameCallbackVideo;
+  const scale = Math.min(1, maxEdge / Math.max(video.videoWidth, video.videoHeight));
+  const canvas = document.createElement('canvas');
+  // Even dimensions keep 4:2:0 encoders from cropping or refusing the stream
+  canvas.width = Math.round(video.videoWidth * scale / 2) * 2;
+  canvas.height = Math.round(video.videoHeight * scale / 2) * 2;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas unavailable');
+
+  let audio: AudioContext | null = null;
+  let stream: MediaStream | null = null;
+  let recorder: MediaRecorder | null = null;
+  const chunks: Blob[] = [];
+  let format: ClipFormat;
+
+  try {
+    const output = new MediaStream(canvas.captureStream(profile.fps).getVideoTracks());
+    stream = output;
+    if (withAudio) {
+      audio = new AudioContext();
+      const destination = audio.createMediaStreamDestination();
+      video.muted = false;
+      audio.createMediaElementSource(video).connect(destination);
+      destination.stream.getAudioTracks().forEach(t => output.addTrack(t));
+    }
+
+    const support = resolveCodec(profile, profile.container === 'webm' ? 'webm' : undefined);
+    const active = createRecorder(stream, recorderOptions(profile, support));
+    recorder = active;
+    active.ondataavailable = e => { if (e.data.size > 0) chunks.push(e.data); };
+    const stopped = new Promise<void>(resolve => { active.onstop = () => resolve(); });
+    format = clipFormat(profile, active, support?.mimeType ?? '', stream.getVideoTracks()[0]);
+
+    await seekTo(video, start);
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    if (audio) await withTimeout(audio.resume(), AUDIO_RESUME_TIMEOUT_MS, 'Audio output did not start');
+    if (signal?.aborted) throw new Error('Re-record aborted');
+    active.start();
+    const length = Math.max(0, Math.min(end, video.duration) - start);
+    let watchdog = 0;
+    await new Promise<void>((resolve, reject) => {
+      watchdog = window.setTimeout(() => reject(new Error('Clip playback stalled')), length * 1000 + STALL_GRACE_MS);
+      signal?.addEventListener('abort', () => reject(new Error('Re-record aborted')), { once: true });
+      const draw = () => {
+        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+        if (video.currentTime >= end || video.ended) resolve();
+        else schedule();
+      };
+      const schedule = () => video.requestVideoFrameCallback ? video.requestVideoFrameCallback(draw) : requestAnimationFrame(draw);
+      // No frame callback follows the last frame, so the end of the clip settles it too
+      video.onended = () => resolve();
+      video.onerror = () => reject(new Error('Clip playback failed'));
+      video.play().then(schedule, reject);
+    }).finally(() => clearTimeout(watchdog));
+    video.pause();
+    active.stop();
+    await stopped;
+    format = recordedFormat(format, active);
+  } finally {
+    video.pause();
+    // Only a failed take gets here still recording; nothing waits for its last chunk
+    if (recorder && recorder.state !== 'inactive') recorder.stop();
+    stream?.getTracks().forEach(t => t.stop());
+    audio?.close().catch(() => {});
+    video.removeAttribute('src');
+    video.load();
+  }
+
+  return finishRecording(new Blob(chunks, { type: (recorder.mimeType || 'video/webm').split(';')[0] }), format, profile);
+};
+
+export const trimClip = (url: string, start: number, end: number, source?: ClipFormat) => rerecord(url, start, end, profileOf(source));
+
+/** A silent, low-bitrate copy of the whole clip for browsing, at most PROXY_MAX_EDGE on its long side. */
+export const proxyClip = (url: string, signal?: AbortSignal) =>
+  rerecord(url, 0, Infinity, PROXY_PROFILE, { maxEdge: PROXY_MAX_EDGE, withAudio: false, signal });
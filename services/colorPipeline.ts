@@ -0,0 +1,302 @@
+import { AssistConfig, LensProfile } from '../types';
+import { Lut3D, applyLutToFrame } from '../utils/cubeLut';
+import { loadImage } from '../utils/mediaUtils';
+import { PEAKING_COLORS, ZEBRA_PERIOD, falseColorGlsl } from '../utils/exposureAssist';
+import { DISPLAY_GAMMA, NEUTRAL_KELVIN, toneTables, whiteBalanceGains } from '../utils/tone';
+import { lutLibrary } from './lutLibrary';
+
+type RenderSource = HTMLVideoElement | HTMLImageElement | HTMLCanvasElement | ImageBitmap;
+
+/** Everything between the sensor frame and the pixels we show or save. */
+export interface RenderSettings {
+  lut: Lut3D | null;
+  ev: number;
+  kelvin: number;
+  squeeze: number;
+}
+
+export const NEUTRAL_RENDER: RenderSettings = { lut: null, ev: 0, kelvin: NEUTRAL_KELVIN, squeeze: 1 };
+
+const LENS_SQUEEZE: Partial<Record<LensProfile, number>> = {
+  [LensProfile.ANAMORPHIC_1_33]: 1.33,
+  [LensProfile.ANAMORPHIC_1_55]: 1.55,
+};
+
+export const lensSqueeze = (lens: LensProfile) => LENS_SQUEEZE[lens] ?? 1;
+
+/** Output dimensions after desqueezing horizontally, scaled so the long edge fits maxEdge. */
+export const outputSize = (width: number, height: number, squeeze: number, maxEdge = Infinity) => {
+  const stretched = width * squeeze;
+  const scale = Math.min(1, maxEdge / Math.max(stretched, height));
+  return { width: Math.max(1, Math.round(stretched * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+const isToneNeutral = (settings: RenderSettings) => settings.ev === 0 && settings.kelvin === NEUTRAL_KELVIN;
+
+const VERTEX_SHADER = `#version 300 es
+in vec2 a_position;
+out vec2 v_uv;
+void main() {
+  v_uv = vec2(a_position.x * 0.5 + 0.5, 0.5 - a_position.y * 0.5);
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}`;
+
+const FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+precision highp sampler3D;
+uniform sampler2D u_source;
+uniform sampler3D u_lut;
+uniform float u_exposure;
+uniform vec3 u_wbGain;
+uniform float u_gamma;
+uniform bool u_useLut;
+uniform float u_lutSize;
+uniform float u_intensity;
+uniform vec3 u_domainMin;
+uniform vec3 u_domainMax;
+uniform bool u_overlay;
+uniform bool u_peaking;
+uniform vec3 u_peakColor;
+uniform float u_peakThreshold;
+uniform bool u_zebra;
+uniform float u_zebraLevel;
+uniform bool u_falseColor;
+uniform vec2 u_texel;
+in vec2 v_uv;
+out vec4 outColor;
+
+${falseColorGlsl()}
+
+vec3 grade(vec2 uv) {
+  vec3 color = texture(u_source, uv).rgb;
+  vec3 linear = pow(color, vec3(u_gamma)) * u_exposure * u_wbGain;
+  color = pow(clamp(linear, 0.0, 1.0), vec3(1.0 / u_gamma));
+  if (u_useLut) {
+    vec3 n = clamp((color - u_domainMin) / (u_domainMax - u_domainMin), 0.0, 1.0);
+    vec3 coord = n * ((u_lutSize - 1.0) / u_lutSize) + 0.5 / u_lutSize;
+    color = mix(color, texture(u_lut, coord).rgb, u_intensity);
+  }
+  return color;
+}
+
+float luma(vec2 uv) {
+  return dot(grade(uv), vec3(0.2126, 0.7152, 0.0722));
+}
+
+void main() {
+  if (!u_overlay) {
+    outColor = vec4(grade(v_uv), 1.0);
+    return;
+  }
+  // Assist overlay: transparent except where an assist fires
+  float y = luma(v_uv);
+  vec4 overlay = vec4(0.0);
+  if (u_falseColor) overlay = vec4(falseColor(y), 1.0);
+  if (u_zebra && y >= u_zebraLevel && mod(gl_FragCoord.x + gl_FragCoord.y, ${ZEBRA_PERIOD.toFixed(1)}) < ${(ZEBRA_PERIOD / 2).toFixed(1)}) overlay = vec4(0.0, 0.0, 0.0, 1.0);
+  if (u_peaking) {
+    float tl = luma(v_uv + u_texel * vec2(-1.0, -1.0)), t = luma(v_uv + u_texel * vec2(0.0, -1.0)), tr = luma(v_uv + u_texel * vec2(1.0, -1.0));
+    float l = luma(v_uv + u_texel * vec2(-1.0, 0.0)), r = luma(v_uv + u_texel * vec2(1.0, 0.0));
+    float bl = luma(v_uv + u_texel * vec2(-1.0, 1.0)), b = luma(v_uv + u_texel * vec2(0.0, 1.0)), br = luma(v_uv + u_texel * vec2(1.0, 1.0));
+    float gx = tr + 2.0 * r + br - tl - 2.0 * l - bl;
+    float gy = bl + 2.0 * b + br - tl - 2.0 * t - tr;
+    if (gx * gx + gy * gy > u_peakThreshold * u_peakThreshold) overlay = vec4(u_peakColor, 1.0);
+  }
+  outColor = overlay;
+}`;
+
+const compile = (gl: WebGL2RenderingContext, type: number, source: string) => {
+  const shader = gl.createShader(type)!;
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader);
+    gl.deleteShader(shader);
+    throw new Error(`Shader compile failed: ${log}`);
+  }
+  return shader;
+};
+
+/**
+ * WebGL2 renderer: exposure and white balance in linear light, then a 3D LUT
+ * texture with hardware trilinear filtering. Desqueeze comes from the output size.
+ */
+export class GradeRenderer {
+  readonly canvas: HTMLCanvasElement;
+  private gl: WebGL2RenderingContext;
+  private uniforms: Record<string, WebGLUniformLocation | null> = {};
+  private sourceTexture: WebGLTexture;
+  private lutTexture: WebGLTexture;
+  private lut: Lut3D | null = null;
+
+  static create(canvas: HTMLCanvasElement): GradeRenderer | null {
+    const gl = canvas.getContext('webgl2', { preserveDrawingBuffer: true, premultipliedAlpha: false });
+    if (!gl) return null;
+    try {
+      return new GradeRenderer(canvas, gl);
+    } catch (e) {
+      console.warn("WebGL grade renderer unavailable, using CPU path", e);
+      return null;
+    }
+  }
+
+  private constructor(canvas: HTMLCanvasElement, gl: WebGL2RenderingContext) {
+    this.canvas = canvas;
+    this.gl = gl;
+
+    const program = gl.createProgram()!;
+    gl.attachShader(program, compile(gl, gl.VERTEX_SHADER, VERTEX_SHADER));
+    gl.attachShader(program, compile(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER));
+    gl.linkProgram(program);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) throw new Error(`Program link failed: ${gl.getProgramInfoLog(program)}`);
+    gl.useProgram(program);
+    [
+      'u_source', 'u_lut', 'u_exposure', 'u_wbGain', 'u_gamma', 'u_useLut', 'u_lutSize', 'u_intensity', 'u_domainMin', 'u_domainMax',
+      'u_overlay', 'u_peaking', 'u_peakColor', 'u_peakThreshold', 'u_zebra', 'u_zebraLevel', 'u_falseColor', 'u_texel',
+    ]
+      .forEach(name => { this.uniforms[name] = gl.getUniformLocation(program, name); });
+
+    const buffer = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+    const position = gl.getAttribLocation(program, 'a_position');
+    gl.enableVertexAttribArray(position);
+    gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+
+    this.sourceTexture = this.createTexture(gl.TEXTURE_2D, 0);
+    this.lutTexture = this.createTexture(gl.TEXTURE_3D, 1);
+    gl.uniform1i(this.uniforms.u_source, 0);
+    gl.uniform1i(this.uniforms.u_lut, 1);
+    gl.uniform1f(this.uniforms.u_gamma, DISPLAY_GAMMA);
+    this.setTone(0, NEUTRAL_KELVIN);
+  }
+
+  setSettings(settings: RenderSettings) {
+    this.setLut(settings.lut);
+    this.setTone(settings.ev, settings.kelvin);
+  }
+
+  setTone(ev: number, kelvin: number) {
+    this.gl.uniform1f(this.uniforms.u_exposure, Math.pow(2, ev));
+    this.gl.uniform3fv(this.uniforms.u_wbGain, whiteBalanceGains(kelvin));
+  }
+
+  /** Switches the renderer into overlay mode, drawing only the given assists; null restores normal output. */
+  setAssists(assists: AssistConfig | null) {
+    const gl = this.gl;
+    gl.uniform1i(this.uniforms.u_overlay, assists ? 1 : 0);
+    if (!assists) return;
+    gl.uniform1i(this.uniforms.u_peaking, assists.peaking ? 1 : 0);
+    gl.uniform3fv(this.uniforms.u_peakColor, PEAKING_COLORS[assists.peakingColor]);
+    gl.uniform1f(this.uniforms.u_peakThreshold, assists.peakingThreshold);
+    gl.uniform1i(this.uniforms.u_zebra, assists.zebra ? 1 : 0);
+    gl.uniform1f(this.uniforms.u_zebraLevel, assists.zebraLevel / 100);
+    gl.uniform1i(this.uniforms.u_falseColor, assists.falseColor ? 1 : 0);
+  }
+
+  setLut(lut: Lut3D | null) {
+    if (lut === this.lut) return;
+    this.lut = lut;
+    const gl = this.gl;
+    gl.uniform1i(this.uniforms.u_useLut, lut ? 1 : 0);
+    if (!lut) return;
+    gl.activeTexture(gl.TEXTURE1);
+    gl.bindTexture(gl.TEXTURE_3D, this.lutTexture);
+    gl.texImage3D(gl.TEXTURE_3D, 0, gl.RGB16F, lut.size, lut.size, lut.size, 0, gl.RGB, gl.FLOAT, lut.data);
+    gl.uniform1f(this.uniforms.u_lutSize, lut.size);
+    gl.uniform3fv(this.uniforms.u_domainMin, lut.domainMin);
+    gl.uniform3fv(this.uniforms.u_domainMax, lut.domainMax);
+  }
+
+  render(source: RenderSource, width: number, height: number, intensity = 1) {
+    const gl = this.gl;
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+    }
+    gl.viewport(0, 0, width, height);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, this.sourceTexture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+    gl.uniform1f(this.uniforms.u_intensity, intensity);
+    gl.uniform2f(this.uniforms.u_texel, 1 / width, 1 / height);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+  }
+
+  dispose() {
+    this.gl.getExtension('WEBGL_lose_context')?.loseContext();
+  }
+
+  private createTexture(target: number, unit: number) {
+    const gl = this.gl;
+    const texture = gl.createTexture()!;
+    gl.activeTexture(gl.TEXTURE0 + unit);
+    gl.bindTexture(target, texture);
+    gl.texParameteri(target, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(target, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(target, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(target, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    if (target === gl.TEXTURE_3D) gl.texParameteri(target, gl.TEXTURE_WRAP_R, gl.CLAMP_TO_EDGE);
+    return texture;
+  }
+}
+
+let stillRenderer: GradeRenderer | null | undefined;
+
+const getStillRenderer = () => {
+  if (stillRenderer === undefined) stillRenderer = GradeRenderer.create(document.createElement('canvas'));
+  return stillRenderer;
+};
+
+/** CPU path for 2D canvases and devices without WebGL2; grades the canvas contents in place. */
+export const gradeCanvasCpu = (ctx: CanvasRenderingContext2D, settings: RenderSettings) => {
+  if (!settings.lut && isToneNeutral(settings)) return;
+  const { width, height } = ctx.canvas;
+  const image = ctx.getImageData(0, 0, width, height);
+  const data = image.data;
+  if (!isToneNeutral(settings)) {
+    const [r, g, b] = toneTables(settings.ev, settings.kelvin);
+    for (let i = 0; i < data.length; i += 4) {
+      data[i] = r[data[i]];
+      data[i + 1] = g[data[i + 1]];
+      data[i + 2] = b[data[i + 2]];
+    }
+  }
+  if (settings.lut) data.set(applyLutToFrame({ data, width, height }, settings.lut).data);
+  ctx.putImageData(image, 0, 0);
+};
+
+/**
+ * The shared render path for preview and capture: renders a source through the
+ * settings into a new canvas, desqueezed and capped to maxEdge, on the GPU when available.
+ */
+export const renderGraded = (
+  source: RenderSource, sourceWidth: number, sourceHeight: number, settings: RenderSettings, maxEdge = Infinity
+): HTMLCanvasElement => {
+  const { width, height } = outputSize(sourceWidth, sourceHeight, settings.squeeze, maxEdge);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas unavailable');
+
+  const gpu = settings.lut || !isToneNeutral(settings) ? getStillRenderer() : null;
+  if (gpu) {
+    gpu.setSettings(settings);
+    gpu.render(source, width, height);
+    ctx.drawImage(gpu.canvas, 0, 0);
+  } else {
+    ctx.drawImage(source, 0, 0, width, height);
+    gradeCanvasCpu(ctx, settings);
+  }
+  return canvas;
+};
+
+export const gradeImage = async (url: string, settings: RenderSettings, quality = 0.92): Promise<string> => {
+  const img = await loadImage(url);
+  return renderGraded(img, img.naturalWidth, img.naturalHeight, settings).toDataURL('image/jpeg', quality);
+};
+
+export const applyFilterToImage = async (url: string, filterId: string): Promise<string> => {
+  await lutLibrary.load();
+  return gradeImage(url, { ...NEUTRAL_RENDER, lut: lutLibrary.getLut(filterId) });
+};
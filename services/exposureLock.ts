@@ -0,0 +1,73 @@
+import { ExposureCapabilities, ExposureSettings, clampToRange } from './bracketCapture';
+
+export interface ExposureLock {
+  exposure: boolean;
+  whiteBalance: boolean;
+  /** Shifts the locked exposure by `stops` in hardware and returns the part it could not apply. */
+  adjust: (stops: number) => Promise<number>;
+  release: () => Promise<void>;
+}
+
+const apply = (track: MediaStreamTrack, constraint: Record<string, unknown>) =>
+  track.applyConstraints({ advanced: [constraint as MediaTrackConstraintSet] });
+
+/**
+ * Freezes auto-exposure and auto white balance at their current values, where the
+ * track exposes manual modes. Exposure time takes ramp adjustments first, then ISO.
+ */
+export const lockExposure = async (track: MediaStreamTrack | undefined): Promise<ExposureLock> => {
+  const caps = (track?.getCapabilities?.() || {}) as ExposureCapabilities;
+  const original = (track?.getSettings?.() || {}) as ExposureSettings;
+  let exposureTime = original.exposureTime;
+  let iso = original.iso;
+  let exposure = false;
+  let whiteBalance = false;
+
+  if (track && caps.exposureMode?.includes('manual')) {
+    const constraint: Record<string, unknown> = { exposureMode: 'manual' };
+    if (exposureTime && caps.exposureTime) constraint.exposureTime = exposureTime;
+    if (iso && caps.iso) constraint.iso = iso;
+    exposure = await apply(track, constraint).then(() => true, e => { console.warn("Exposure lock failed", e); return false; });
+  }
+  if (track && caps.whiteBalanceMode?.includes('manual')) {
+    const constraint: Record<string, unknown> = { whiteBalanceMode: 'manual' };
+    if (original.colorTemperature && caps.colorTemperature) constraint.colorTemperature = original.colorTemperature;
+    whiteBalance = await apply(track, constraint).then(() => true, e => { console.warn("White balance lock failed", e); return false; });
+  }
+
+  const adjust = async (stops: number) => {
+    if (!track || !exposure || !stops) return stops;
+    let remaining = stops;
+    let nextTime = exposureTime;
+    let nextIso = iso;
+    if (exposureTime && caps.exposureTime) {
+      nextTime = clampToRange(exposureTime * Math.pow(2, remaining), caps.exposureTime);
+      remaining -= Math.log2(nextTime / exposureTime);
+    }
+    if (iso && caps.iso && Math.abs(remaining) > 0.01) {
+      nextIso = clampToRange(iso * Math.pow(2, remaining), caps.iso);
+      remaining -= Math.log2(nextIso / iso);
+    }
+    if (nextTime === exposureTime && nextIso === iso) return stops;
+    try {
+      await apply(track, { exposureTime: nextTime, iso: nextIso });
+      exposureTime = nextTime;
+      iso = nextIso;
+      return remaining;
+    } catch (e) {
+      console.warn("Exposure ramp failed", e);
+      return stops;
+    }
+  };
+
+  const release = async () => {
+    if (!track) return;
+    const restore: Record<string, unknown> = {};
+    if (exposure) restore.exposureMode = original.exposureMode || 'continuous';
+    if (whiteBalance) restore.whiteBalanceMode = original.whiteBalanceMode || 'continuous';
+    if (Object.keys(restore).length === 0) return;
+    await apply(track, restore).catch(e => console.warn("Exposure restore failed", e));
+  };
+
+  return { exposure, whiteBalance, adjust, release };
+};
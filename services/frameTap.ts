@@ -0,0 +1,143 @@
+import { TapResult, TapSpec, analyzeFrame } from '../utils/frameAnalysis';
+import { Plane } from '../utils/imaging';
+import type { TapJob, TapRequest, TapResponse } from '../workers/frameTapWorker';
+
+type TapSource = HTMLVideoElement | HTMLCanvasElement;
+
+interface Subscriber {
+  id: number;
+  spec: TapSpec;
+  callback: (result: TapResult) => void;
+  lastRun: number;
+}
+
+const sourceSize = (source: TapSource) => source instanceof HTMLVideoElement
+  ? { width: source.videoWidth, height: source.videoHeight }
+  : { width: source.width, height: source.height };
+
+/**
+ * One sampling loop for every live-frame consumer. Each tick collects the
+ * subscribers that are due, grabs a single downscaled ImageBitmap sized for the
+ * largest of them and transfers it to a worker, which samples and analyzes per
+ * subscriber. At most one frame is in flight, so slow analyses drop frames
+ * instead of queueing them. Falls back to the main thread without OffscreenCanvas.
+ */
+class FrameTap {
+  private source: TapSource | null = null;
+  private subscribers: Map<number, Subscriber> = new Map();
+  private worker: Worker | null = null;
+  private useWorker = typeof OffscreenCanvas !== 'undefined' && typeof createImageBitmap !== 'undefined';
+  private inFlight = false;
+  private nextId = 1;
+  private nextRequest = 1;
+  private frame = 0;
+  private scratch: HTMLCanvasElement | null = null;
+  private previousPlanes: Map<number, Plane> = new Map();
+
+  setSource(source: TapSource | null) {
+    this.source = source;
+    this.schedule();
+  }
+
+  subscribe(spec: TapSpec, callback: (result: TapResult) => void) {
+    const id = this.nextId++;
+    this.subscribers.set(id, { id, spec, callback, lastRun: 0 });
+    this.schedule();
+    return () => {
+      this.subscribers.delete(id);
+      this.previousPlanes.delete(id);
+      const release: TapRequest = { type: 'release', subscription: id };
+      this.worker?.postMessage(release);
+    };
+  }
+
+  private schedule() {
+    if (!this.frame && this.source && this.subscribers.size) this.frame = requestAnimationFrame(this.tick);
+  }
+
+  private tick = (now: number) => {
+    this.frame = 0;
+    const source = this.source;
+    if (!source || !this.subscribers.size) return;
+    this.schedule();
+    if (this.inFlight) return;
+
+    const { width, height } = sourceSize(source);
+    if (!width || !height) return;
+    const due = Array.from(this.subscribers.values()).filter(s => now - s.lastRun >= 1000 / s.spec.fps);
+    if (!due.length) return;
+    due.forEach(s => { s.lastRun = now; });
+
+    const maxEdge = Math.max(...due.map(s => s.spec.maxEdge));
+    const scale = Math.min(1, maxEdge / Math.max(width, height));
+    const size = { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+    const jobs: TapJob[] = due.map(s => ({ subscription: s.id, spec: s.spec }));
+
+    if (this.useWorker) this.dispatch(source, size, jobs);
+    else this.analyzeOnMainThread(source, jobs);
+  };
+
+  private async dispatch(source: TapSource, size: { width: number; height: number }, jobs: TapJob[]) {
+    this.inFlight = true;
+    try {
+      const bitmap = await createImageBitmap(source, { resizeWidth: size.width, resizeHeight: size.height, resizeQuality: 'low' });
+      const request: TapRequest = { type: 'frame', id: this.nextRequest++, bitmap, jobs };
+      this.getWorker().postMessage(request, [bitmap]);
+    } catch (err) {
+      console.warn("Frame tap capture failed", err);
+      this.inFlight = false;
+    }
+  }
+
+  private getWorker(): Worker {
+    if (this.worker) return this.worker;
+    this.worker = new Worker(new URL('../workers/frameTapWorker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (e: MessageEvent<TapResponse>) => {
+      this.inFlight = false;
+      const res = e.data;
+      if ('error' in res) {
+        console.warn("Frame tap analysis failed", res.error);
+        return;
+      }
+      res.results.forEach(({ subscription, result }) => this.subscribers.get(subscription)?.callback(result));
+    };
+    this.worker.onerror = (e) => {
+      console.error("Frame tap worker crashed, analyzing on the main thread", e);
+      this.worker?.terminate();
+      this.worker = null;
+      this.useWorker = false;
+      this.inFlight = false;
+    };
+    return this.worker;
+  }
+
+  private analyzeOnMainThread(source: TapSource, jobs: TapJob[]) {
+    const { width: srcWidth, height: srcHeight } = sourceSize(source);
+    if (!this.scratch) this.scratch = document.createElement('canvas');
+    const canvas = this.scratch;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return;
+
+    jobs.forEach(({ subscription, spec }) => {
+      const scale = Math.min(1, spec.maxEdge / Math.max(srcWidth, srcHeight));
+      const width = Math.max(1, Math.round(srcWidth * scale));
+      const height = Math.max(1, Math.round(srcHeight * scale));
+      if (canvas.width !== width) canvas.width = width;
+      if (canvas.height !== height) canvas.height = height;
+      ctx.drawImage(source, 0, 0, width, height);
+
+      let result: TapResult | null;
+      if (spec.kind === 'jpeg') {
+        result = { kind: 'jpeg', base64: canvas.toDataURL('image/jpeg', spec.quality).split(',')[1] };
+      } else {
+        const frame = { data: ctx.getImageData(0, 0, width, height).data, width, height };
+        const analyzed = analyzeFrame(frame, spec, this.previousPlanes.get(subscription));
+        if (analyzed.plane) this.previousPlanes.set(subscription, analyzed.plane);
+        result = analyzed.result;
+      }
+      if (result) this.subscribers.get(subscription)?.callback(result);
+    });
+  }
+}
+
+export const frameTap = new FrameTap();
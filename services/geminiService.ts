@@ -64,6 +64,24 @@ export const enhanceImage = async (base64Image: string, instruction: string) =>
   return null;
 };
 
+export const segmentSubject = async (base64Image: string) => {
+  const ai = getAI();
+  const response = await ai.models.generateContent({
+    model: 'gemini-2.5-flash-image',
+    contents: {
+      parts: [
+        { inlineData: { data: base64Image.split(',')[1], mimeType: 'image/jpeg' } },
+        { text: "Portrait depth matte: return a greyscale image with exactly the same framing. Paint the main subject pure white with clean hair and edge detail, and everything behind it from mid grey (near) to black (far). No text, outlines or other content." }
+      ]
+    }
+  });
+
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
+    if (part.inlineData) return `data:image/png;base64,${part.inlineData.data}`;
+  }
+  return null;
+};
+
 export const generateCinemaClip = async (prompt: string, startImage?: string) => {
   const ai = getAI();
   let operation = await ai.models.generateVideos({
@@ -93,9 +111,11 @@ export const generateCinemaClip = async (prompt: string, startImage?: string) =>
 
 export const neuralStacking = async (images: string[], type: 'hdr' | 'night') => {
   const ai = getAI();
-  const prompt = type === 'hdr' 
-    ? "Perform professional Quantum HDR Fusion on these 3 frames. Ensure natural tone mapping and highlight recovery." 
-    : "Perform Neural Night Stacking. De-noise the dark areas while preserving texture and details with Quantum precision.";
+  const prompt = images.length === 1
+    ? `Refine this on-device ${type === 'hdr' ? 'HDR fusion' : 'night stack'}. Clean residual noise and halos while preserving structure, texture and tonality.`
+    : type === 'hdr' 
+      ? `Perform professional Quantum HDR Fusion on these ${images.length} frames. Ensure natural tone mapping and highlight recovery.` 
+      : "Perform Neural Night Stacking. De-noise the dark areas while preserving texture and details with Quantum precision.";
 
   const response = await ai.models.generateContent({
     model: 'gemini-2.5-flash-image',
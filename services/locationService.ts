@@ -0,0 +1,41 @@
+import { CaptureLocation } from '../types';
+
+class LocationService {
+  private watchId: number | null = null;
+  private last: CaptureLocation | null = null;
+
+  async start(prompt = false) {
+    if (this.watchId !== null || !navigator.geolocation) return;
+    if (!prompt && navigator.permissions?.query) {
+      try {
+        const status = await navigator.permissions.query({ name: 'geolocation' });
+        if (status.state !== 'granted') return;
+      } catch (e) { /* Permissions API unavailable; fall through and let the watch decide */ }
+    }
+    this.watchId = navigator.geolocation.watchPosition(
+      pos => {
+        this.last = {
+          latitude: pos.coords.latitude,
+          longitude: pos.coords.longitude,
+          altitude: pos.coords.altitude ?? undefined,
+          accuracy: pos.coords.accuracy,
+        };
+      },
+      err => console.warn("Geolocation unavailable", err.message),
+      { enableHighAccuracy: true, maximumAge: 30000 }
+    );
+  }
+
+  stop() {
+    if (this.watchId !== null) {
+      navigator.geolocation.clearWatch(this.watchId);
+      this.watchId = null;
+    }
+  }
+
+  getLocation(): CaptureLocation | undefined {
+    return this.last || undefined;
+  }
+}
+
+export const locationService = new LocationService();
@@ -0,0 +1,105 @@
+import { CameraFilter, FilterPreset } from '../types';
+import { Lut3D, parseCube } from '../utils/cubeLut';
+import { BUILTIN_LUT_SIZE, bakeFilterLut } from '../utils/filters';
+import { LUT_STORE, openDatabase, requestToPromise, transactionDone } from '../utils/idb';
+
+interface StoredLut extends Lut3D {
+  id: string;
+  importedAt: number;
+}
+
+const IMPORTED_PREFIX = 'lut:';
+
+const BUILTIN_PRESETS: FilterPreset[] = Object.values(CameraFilter).map(f => ({
+  id: f,
+  name: f.replace(/_/g, ' '),
+  builtin: true,
+  size: f === CameraFilter.NONE ? 0 : BUILTIN_LUT_SIZE,
+}));
+
+class LutLibrary {
+  private imported: Map<string, StoredLut> = new Map();
+  private baked: Map<string, Lut3D> = new Map();
+  private listeners: Set<(presets: FilterPreset[]) => void> = new Set();
+  private loading: Promise<FilterPreset[]> | null = null;
+
+  load(): Promise<FilterPreset[]> {
+    if (!this.loading) {
+      this.loading = (async () => {
+        const db = await openDatabase();
+        const tx = db.transaction(LUT_STORE, 'readonly');
+        const records = await requestToPromise<StoredLut[]>(tx.objectStore(LUT_STORE).getAll());
+        records
+          .sort((a, b) => a.importedAt - b.importedAt)
+          .forEach(record => this.imported.set(record.id, record));
+        this.notify();
+        return this.list();
+      })().catch(err => {
+        console.error("LUT library load failed", err);
+        this.loading = null;
+        return this.list();
+      });
+    }
+    return this.loading;
+  }
+
+  list(): FilterPreset[] {
+    const imported = Array.from(this.imported.values()).map(lut => ({
+      id: lut.id, name: lut.title, builtin: false, size: lut.size,
+    }));
+    return [...BUILTIN_PRESETS, ...imported];
+  }
+
+  async importCube(file: File): Promise<FilterPreset> {
+    const lut = parseCube(await file.text(), file.name.replace(/\.cube$/i, ''));
+    const record: StoredLut = { ...lut, id: `${IMPORTED_PREFIX}${crypto.randomUUID()}`, importedAt: Date.now() };
+    const db = await openDatabase();
+    const tx = db.transaction(LUT_STORE, 'readwrite');
+    tx.objectStore(LUT_STORE).put(record);
+    await transactionDone(tx);
+    this.imported.set(record.id, record);
+    this.notify();
+    return { id: record.id, name: record.title, builtin: false, size: record.size };
+  }
+
+  async remove(id: string): Promise<void> {
+    if (!this.imported.has(id)) return;
+    const db = await openDatabase();
+    const tx = db.transaction(LUT_STORE, 'readwrite');
+    tx.objectStore(LUT_STORE).delete(id);
+    await transactionDone(tx);
+    this.imported.delete(id);
+    this.notify();
+  }
+
+  /** Resolves a preset id to its LUT; null means pass-through (NONE or an unknown id). */
+  getLut(id: string): Lut3D | null {
+    if (id === CameraFilter.NONE) return null;
+    const imported = this.imported.get(id);
+    if (imported) return imported;
+    if (!(Object.values(CameraFilter) as string[]).includes(id)) return null;
+    if (!this.baked.has(id)) this.baked.set(id, bakeFilterLut(id as CameraFilter));
+    return this.baked.get(id)!;
+  }
+
+  /** Human-readable name recorded in capture metadata. */
+  label(id: string): string {
+    return this.imported.get(id)?.title ?? id;
+  }
+
+  isImported(id: string) {
+    return id.startsWith(IMPORTED_PREFIX);
+  }
+
+  onChange(callback: (presets: FilterPreset[]) => void) {
+    this.listeners.add(callback);
+    return () => { this.listeners.delete(callback); };
+  }
+
+  private notify() {
+    const presets = this.list();
+    this.listeners.forEach(cb => cb(presets));
+  }
+}
+
+export const lutLibrary = new LutLibrary();
@@ -0,0 +1,105 @@
+import { ManualConfig } from '../types';
+import { CapabilityRange, ExposureCapabilities } from './bracketCapture';
+
+export type ManualControl = 'iso' | 'exposureTime' | 'colorTemperature' | 'focusDistance' | 'exposureCompensation';
+
+/** Hardware ranges reported by the track; a missing entry means the control is unsupported. */
+export type ControlRanges = Partial<Record<ManualControl, CapabilityRange>>;
+
+// Image Capture reports exposureTime in 100 µs units
+const EXPOSURE_TIME_UNITS = 10000;
+const SHUTTER_SERIES = [8000, 4000, 2000, 1000, 500, 250, 125, 60, 30, 15, 8, 4, 2, 1].map(d => 1 / d).concat([2, 4]);
+const FALLBACK_SHUTTERS = ['1/60', '1/125', '1/250', '1/500', '1/1000'];
+
+const MODE_KEYS: Partial<Record<ManualControl, keyof ExposureCapabilities>> = {
+  iso: 'exposureMode',
+  exposureTime: 'exposureMode',
+  colorTemperature: 'whiteBalanceMode',
+  focusDistance: 'focusMode',
+};
+
+/** Ranges for the controls the device can actually drive, including the manual mode they need. */
+export const controlRanges = (capabilities: MediaTrackCapabilities | null): ControlRanges => {
+  const caps = (capabilities || {}) as ExposureCapabilities;
+  const ranges: ControlRanges = {};
+  (['iso', 'exposureTime', 'colorTemperature', 'focusDistance', 'exposureCompensation'] as ManualControl[]).forEach(control => {
+    const range = caps[control];
+    const modeKey = MODE_KEYS[control];
+    const modes = modeKey ? caps[modeKey] as string[] | undefined : undefined;
+    if (!range || range.max <= range.min) return;
+    if (modeKey && !modes?.includes('manual')) return;
+    ranges[control] = range;
+  });
+  return ranges;
+};
+
+export const shutterSeconds = (label: string) => {
+  const [num, den] = label.replace(/s$/, '').split('/').map(Number);
+  return den ? num / den : num;
+};
+
+const shutterLabel = (seconds: number) => seconds >= 1 ? `${seconds}s` : `1/${Math.round(1 / seconds)}`;
+
+/** Standard shutter speeds inside the reported exposure-time range. */
+export const shutterStops = (range?: CapabilityRange): string[] => {
+  if (!range) return FALLBACK_SHUTTERS;
+  const stops = SHUTTER_SERIES.filter(s => {
+    const t = s * EXPOSURE_TIME_UNITS;
+    return t >= range.min && t <= range.max;
+  });
+  return stops.length ? stops.map(shutterLabel) : FALLBACK_SHUTTERS;
+};
+
+const clamp = (value: number, range: CapabilityRange) => Math.min(range.max, Math.max(range.min, value));
+
+/**
+ * Constraint sets for the current manual config, one per control group so an
+ * unsupported key cannot void the rest. Continuous modes are requested for groups left on auto.
+ * Groups in `held` are left alone, e.g. while a tap lock holds exposure or focus.
+ */
+export const manualConstraints = (
+  config: ManualConfig, capabilities: MediaTrackCapabilities | null, held: { exposure?: boolean; focus?: boolean } = {}
+): MediaTrackConstraintSet[] => {
+  const caps = (capabilities || {}) as ExposureCapabilities;
+  const ranges = controlRanges(capabilities);
+  const sets: Record<string, unknown>[] = [];
+
+  if (!held.exposure) {
+    if (config.autoExposure) {
+      const set: Record<string, unknown> = {};
+      if (caps.exposureMode?.includes('continuous')) set.exposureMode = 'continuous';
+      if (ranges.exposureCompensation) set.exposureCompensation = clamp(config.ev, ranges.exposureCompensation);
+      sets.push(set);
+    } else if (ranges.exposureTime || ranges.iso) {
+      const set: Record<string, unknown> = { exposureMode: 'manual' };
+      if (ranges.exposureTime) set.exposureTime = clamp(shutterSeconds(config.shutter) * EXPOSURE_TIME_UNITS, ranges.exposureTime);
+      if (ranges.iso) set.iso = clamp(config.iso, ranges.iso);
+      sets.push(set);
+    }
+  }
+
+  if (config.autoWhiteBalance) {
+    if (caps.whiteBalanceMode?.includes('continuous')) sets.push({ whiteBalanceMode: 'continuous' });
+  } else if (ranges.colorTemperature) {
+    sets.push({ whiteBalanceMode: 'manual', colorTemperature: clamp(config.wb, ranges.colorTemperature) });
+  }
+
+  if (!held.focus) {
+    if (config.autoFocus) {
+      if (caps.focusMode?.includes('continuous')) sets.push({ focusMode: 'continuous' });
+    } else if (ranges.focusDistance) {
+      sets.push({ focusMode: 'manual', focusDistance: clamp(config.focus, ranges.focusDistance) });
+    }
+  }
+
+  return sets.filter(set => Object.keys(set).length > 0) as MediaTrackConstraintSet[];
+};
+
+/** Whether EV and white balance are realised by the sensor, leaving the grade neutral for them. */
+export const hardwareTone = (config: ManualConfig, capabilities: MediaTrackCapabilities | null) => {
+  const ranges = controlRanges(capabilities);
+  return {
+    ev: config.autoExposure && !!ranges.exposureCompensation,
+    whiteBalance: !config.autoWhiteBalance && !!ranges.colorTemperature,
+  };
+};
@@ -0,0 +1,156 @@
+import { CapturedImage } from '../types';
+import { MEDIA_STORE, openDatabase, requestToPromise, transactionDone } from '../utils/idb';
+import { urlToBlob } from '../utils/mediaUtils';
+
+export type StorageLevel = 'OK' | 'WARN' | 'CRITICAL';
+
+export interface StorageStatus {
+  usage: number;
+  quota: number;
+  ratio: number;
+  persisted: boolean;
+  level: StorageLevel;
+}
+
+interface StoredMedia extends Omit<CapturedImage, 'url' | 'assets'> {
+  blob: Blob;
+  assets?: Record<string, Blob>;
+}
+
+const WARN_RATIO = 0.8;
+const CRITICAL_RATIO = 0.95;
+
+class MediaStore {
+  private objectUrls: Map<string, string[]> = new Map();
+  private onStatusCallback: ((status: StorageStatus) => void) | null = null;
+  private persisted = false;
+
+  async loadAll(): Promise<CapturedImage[]> {
+    const db = await openDatabase();
+    const tx = db.transaction(MEDIA_STORE, 'readonly');
+    const records = await requestToPromise<StoredMedia[]>(tx.objectStore(MEDIA_STORE).getAll());
+    this.refreshStatus();
+    return records
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .map(record => this.toCapturedImage(record));
+  }
+
+  async save(image: CapturedImage): Promise<CapturedImage> {
+    const blob = await urlToBlob(image.url);
+    const assets = image.assets ? await this.assetBlobs(image.assets) : undefined;
+    const bytes = blob.size + Object.values(assets || {}).reduce((sum, a) => sum + a.size, 0);
+    const status = await this.estimate();
+    if (status.quota > 0 && status.usage + bytes > status.quota * CRITICAL_RATIO) {
+      this.notifyStatus({ ...status, level: 'CRITICAL' });
+      throw new Error(`Archive full: ${bytes} bytes would exceed the safe storage limit.`);
+    }
+
+    const { url, assets: assetUrls, ...fields } = image;
+    const record: StoredMedia = { ...fields, blob, assets };
+    const db = await openDatabase();
+    const tx = db.transaction(MEDIA_STORE, 'readwrite');
+    tx.objectStore(MEDIA_STORE).put(record);
+    await transactionDone(tx);
+    this.refreshStatus();
+    return this.toCapturedImage(record);
+  }
+
+  async update(image: CapturedImage): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(MEDIA_STORE, 'readwrite');
+    const store = tx.objectStore(MEDIA_STORE);
+    const existing = await requestToPromise<StoredMedia | undefined>(store.get(image.id));
+    if (!existing) return;
+    const { url, assets, ...fields } = image;
+    store.put({ ...existing, ...fields });
+    await transactionDone(tx);
+  }
+
+  /** Adds or replaces one named asset on a stored record, returning a URL for it. */
+  async setAsset(id: string, name: string, assetUrl: string): Promise<string> {
+    const blob = await urlToBlob(assetUrl);
+    const db = await openDatabase();
+    const tx = db.transaction(MEDIA_STORE, 'readwrite');
+    const store = tx.objectStore(MEDIA_STORE);
+    const existing = await requestToPromise<StoredMedia | undefined>(store.get(id));
+    if (!existing) throw new Error(`No archived media with id ${id}`);
+    store.put({ ...existing, assets: { ...existing.assets, [name]: blob } });
+    await transactionDone(tx);
+    this.refreshStatus();
+    const url = URL.createObjectURL(blob);
+    this.objectUrls.set(id, [...(this.objectUrls.get(id) || []), url]);
+    return url;
+  }
+
+  async remove(id: string): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(MEDIA_STORE, 'readwrite');
+    tx.objectStore(MEDIA_STORE).delete(id);
+    await transactionDone(tx);
+    this.releaseUrl(id);
+    this.refreshStatus();
+  }
+
+  async estimate(): Promise<StorageStatus> {
+    const estimate = navigator.storage?.estimate ? await navigator.storage.estimate() : {};
+    const usage = estimate.usage || 0;
+    const quota = estimate.quota || 0;
+    const ratio = quota > 0 ? usage / quota : 0;
+    const level: StorageLevel = ratio >= CRITICAL_RATIO ? 'CRITICAL' : ratio >= WARN_RATIO ? 'WARN' : 'OK';
+    return { usage, quota, ratio, persisted: this.persisted, level };
+  }
+
+  async requestPersistence(): Promise<boolean> {
+    if (!navigator.storage?.persist) return false;
+    try {
+      this.persisted = (await navigator.storage.persisted()) || (await navigator.storage.persist());
+    } catch (e) {
+      console.warn("Persistent storage request denied", e);
+    }
+    return this.persisted;
+  }
+
+  onStatusChange(callback: (status: StorageStatus) => void) {
+    this.onStatusCallback = callback;
+    return () => { this.onStatusCallback = null; };
+  }
+
+  releaseUrl(id: string) {
+    const urls = this.objectUrls.get(id);
+    if (urls) {
+      urls.forEach(url => URL.revokeObjectURL(url));
+      this.objectUrls.delete(id);
+    }
+  }
+
+  releaseAll() {
+    this.objectUrls.forEach(urls => urls.forEach(url => URL.revokeObjectURL(url)));
+    this.objectUrls.clear();
+  }
+
+  private async assetBlobs(assets: Record<string, string>): Promise<Record<string, Blob>> {
+    const entries = await Promise.all(Object.entries(assets).map(async ([name, url]) => [name, await urlToBlob(url)] as const));
+    return Object.fromEntries(entries);
+  }
+
+  private toCapturedImage(record: StoredMedia): CapturedImage {
+    const { blob, assets, ...fields } = record;
+    this.releaseUrl(record.id);
+    const url = URL.createObjectURL(blob);
+    const assetUrls = assets
+      ? Object.fromEntries(Object.entries(assets).map(([name, asset]) => [name, URL.createObjectURL(asset)]))
+      : undefined;
+    this.objectUrls.set(record.id, [url, ...Object.values(assetUrls || {})]);
+    return { ...fields, url, assets: assetUrls };
+  }
+
+  private refreshStatus() {
+    this.estimate().then(status => this.notifyStatus(status)).catch(() => {});
+  }
+
+  private notifyStatus(status: StorageStatus) {
+    if (this.onStatusCallback) this.onStatusCallback(status);
+  }
+}
+
+export const mediaStore = new MediaStore();
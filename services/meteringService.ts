@@ -0,0 +1,60 @@
+import { MeterPoint } from '../utils/metering';
+import { ExposureCapabilities, ExposureSettings } from './bracketCapture';
+
+export interface MeteringLock {
+  exposure: boolean;
+  focus: boolean;
+}
+
+const apply = (track: MediaStreamTrack, constraint: Record<string, unknown>) =>
+  track.applyConstraints({ advanced: [constraint as MediaTrackConstraintSet] });
+
+export const supportsPointsOfInterest = (track: MediaStreamTrack | undefined) => {
+  const supported = navigator.mediaDevices?.getSupportedConstraints?.() as Record<string, boolean> | undefined;
+  return !!track?.applyConstraints && !!supported?.pointsOfInterest;
+};
+
+const pointMode = (modes?: string[]) =>
+  modes?.includes('single-shot') ? 'single-shot' : modes?.includes('continuous') ? 'continuous' : undefined;
+
+/**
+ * Points the camera's focus and exposure at `point`, as a single-shot where the
+ * track offers it. Resolves false when the device has no point metering.
+ */
+export const meterAt = async (track: MediaStreamTrack | undefined, point: MeterPoint): Promise<boolean> => {
+  if (!track || !supportsPointsOfInterest(track)) return false;
+  const caps = (track.getCapabilities?.() || {}) as ExposureCapabilities;
+  const constraint: Record<string, unknown> = { pointsOfInterest: [point] };
+  const focusMode = pointMode(caps.focusMode);
+  const exposureMode = pointMode(caps.exposureMode);
+  if (focusMode) constraint.focusMode = focusMode;
+  if (exposureMode) constraint.exposureMode = exposureMode;
+  try {
+    await apply(track, constraint);
+    return true;
+  } catch (e) {
+    console.warn("Point metering failed", e);
+    return false;
+  }
+};
+
+/** Holds focus and exposure at the values they settled on, where manual modes exist. */
+export const lockMetering = async (track: MediaStreamTrack | undefined): Promise<MeteringLock> => {
+  const lock: MeteringLock = { exposure: false, focus: false };
+  if (!track?.applyConstraints) return lock;
+  const caps = (track.getCapabilities?.() || {}) as ExposureCapabilities;
+  const settings = (track.getSettings?.() || {}) as ExposureSettings;
+
+  if (caps.exposureMode?.includes('manual')) {
+    const constraint: Record<string, unknown> = { exposureMode: 'manual' };
+    if (settings.exposureTime && caps.exposureTime) constraint.exposureTime = settings.exposureTime;
+    if (settings.iso && caps.iso) constraint.iso = settings.iso;
+    lock.exposure = await apply(track, constraint).then(() => true, e => { console.warn("AE lock failed", e); return false; });
+  }
+  if (caps.focusMode?.includes('manual')) {
+    const constraint: Record<string, unknown> = { focusMode: 'manual' };
+    if (settings.focusDistance !== undefined && caps.focusDistance) constraint.focusDistance = settings.focusDistance;
+    lock.focus = await apply(track, constraint).then(() => true, e => { console.warn("AF lock failed", e); return false; });
+  }
+  return lock;
+};
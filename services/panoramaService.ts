@@ -0,0 +1,41 @@
+import { LensProfile } from '../types';
+import { frameToDataUrl, loadFrame } from '../utils/frameUtils';
+import { RgbaFrame } from '../utils/imaging';
+import { Offset } from '../utils/panorama';
+import { lensSqueeze } from './colorPipeline';
+import { stackingService } from './stackingService';
+
+const FRAME_PREFIX = 'frame-';
+
+// Horizontal field of view at 1x, before any anamorphic desqueeze
+const LENS_FOV: Partial<Record<LensProfile, number>> = {
+  [LensProfile.STANDARD]: 66,
+  [LensProfile.WIDE]: 100,
+  [LensProfile.TELEPHOTO]: 30,
+  [LensProfile.MACRO]: 45,
+};
+
+/** Horizontal FOV of the desqueezed, zoomed frame, which sets the cylinder's focal length. */
+export const sweepFov = (lens: LensProfile, zoom = 1) => {
+  const half = ((LENS_FOV[lens] ?? 66) * Math.PI) / 360;
+  return Math.round((Math.atan((Math.tan(half) * lensSqueeze(lens)) / zoom) * 360) / Math.PI);
+};
+
+export const panoramaFrameKey = (index: number) => `${FRAME_PREFIX}${index.toString().padStart(2, '0')}`;
+
+/** Source frame URLs of a panorama root, in sweep order. */
+export const panoramaFrames = (assets?: Record<string, string>) =>
+  Object.keys(assets || {}).filter(k => k.startsWith(FRAME_PREFIX)).sort().map(k => assets![k]);
+
+export const stitchToDataUrl = async (frames: RgbaFrame[], fov: number, hints?: (Offset | undefined)[]) => {
+  const { frame, frameCount } = await stackingService.stitchPanorama(frames, fov, hints);
+  return { url: frameToDataUrl(frame), frameCount };
+};
+
+/** Re-stitches a stored sweep, e.g. with a corrected field of view. */
+export const applyStitch = async (assets: Record<string, string>, fov: number): Promise<string> => {
+  const urls = panoramaFrames(assets);
+  if (urls.length < 2) throw new Error('Panorama source frames missing');
+  const frames = await Promise.all(urls.map(url => loadFrame(url)));
+  return (await stitchToDataUrl(frames, fov)).url;
+};
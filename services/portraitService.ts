@@ -0,0 +1,37 @@
+import { LensProfile } from '../types';
+import { BokehSettings } from '../utils/bokeh';
+import { frameToDataUrl, loadFrame, loadPlane } from '../utils/frameUtils';
+import { Plane, RgbaFrame } from '../utils/imaging';
+import { lensSqueeze } from './colorPipeline';
+import { stackingService } from './stackingService';
+
+/** Asset keys on a portrait root: the un-blurred graded frame and its depth mask. */
+export const PORTRAIT_SOURCE = 'source';
+export const PORTRAIT_DEPTH = 'depth';
+
+const LENS_BLADES: Partial<Record<LensProfile, number>> = {
+  [LensProfile.STANDARD]: 9,
+  [LensProfile.WIDE]: 7,
+  [LensProfile.TELEPHOTO]: 11,
+  [LensProfile.MACRO]: 6,
+  [LensProfile.ANAMORPHIC_1_33]: 0,
+  [LensProfile.ANAMORPHIC_1_55]: 0,
+};
+
+/** Iris shape of the simulated lens: blade count per profile, ovals for anamorphic glass. */
+export const bokehFor = (lens: string | undefined, aperture: number, focus: number): BokehSettings => {
+  const profile = (lens || LensProfile.STANDARD) as LensProfile;
+  return { aperture, focus, blades: LENS_BLADES[profile] ?? 9, aspect: 1 / lensSqueeze(profile) };
+};
+
+export const renderPortrait = async (sharp: RgbaFrame, depth: Plane, settings: BokehSettings): Promise<string> =>
+  frameToDataUrl(await stackingService.renderBokeh(sharp, depth, settings));
+
+/** Re-renders a stored portrait with a new aperture and focal plane. */
+export const applyPortrait = async (
+  assets: Record<string, string>, aperture: number, focus: number, lens?: string
+): Promise<string> => {
+  if (!assets[PORTRAIT_SOURCE] || !assets[PORTRAIT_DEPTH]) throw new Error('Portrait source or depth mask missing');
+  const [frame, depth] = await Promise.all([loadFrame(assets[PORTRAIT_SOURCE]), loadPlane(assets[PORTRAIT_DEPTH])]);
+  return renderPortrait(frame, depth, bokehFor(lens, aperture, focus));
+};
@@ -0,0 +1,132 @@
+import { WebmCluster, rebaseCluster, scanClusters, videoTrackOf } from '../utils/webm';
+
+export interface PreRollTake {
+  blob: Blob;
+  /** Seconds of the clip recorded before the take was started */
+  preRoll: number;
+}
+
+interface BufferedCluster {
+  bytes: Uint8Array;
+  cluster: WebmCluster;
+}
+
+export const PRE_ROLL_MIN = 3;
+export const PRE_ROLL_MAX = 30;
+// Clusters open on keyframes, so this is also how finely the pre-roll can be cut
+const KEYFRAME_INTERVAL_MS = 1000;
+const TIMESLICE_MS = 250;
+
+const concat = (a: Uint8Array, b: Uint8Array) => {
+  const out = new Uint8Array(a.length + b.length);
+  out.set(a);
+  out.set(b, a.length);
+  return out;
+};
+
+/**
+ * Keeps a MediaRecorder running ahead of the shutter and holds the last few seconds of
+ * encoded clusters. Marking a take stops footage from rolling off; finishing it yields the
+ * take from the last keyframe at least `seconds` before the mark.
+ */
+export class PreRollRecorder {
+  private recorder: MediaRecorder;
+  private window: number;
+  private header: Uint8Array | null = null;
+  private videoTrack: number | undefined;
+  private clusters: BufferedCluster[] = [];
+  private open: Uint8Array = new Uint8Array(0);
+  private openCluster: WebmCluster | null = null;
+  private scanFrom = 0;
+  private pending: Promise<void> = Promise.resolve();
+  private startedAt = 0;
+  private markedAt: number | null = null;
+
+  constructor(stream: MediaStream, seconds: number, options: MediaRecorderOptions) {
+    this.window = Math.min(PRE_ROLL_MAX, Math.max(PRE_ROLL_MIN, seconds)) * 1000;
+    // Key frame interval is a newer recorder option; browsers without it keep their own cadence
+    this.recorder = new MediaRecorder(stream, { ...options, videoKeyFrameIntervalDuration: KEYFRAME_INTERVAL_MS } as MediaRecorderOptions);
+    this.recorder.ondataavailable = (e) => {
+      if (e.data.size === 0) return;
+      const data = e.data;
+      this.pending = this.pending
+        .then(async () => this.append(new Uint8Array(await data.arrayBuffer())))
+        .catch(err => console.error("Pre-roll buffering failed", err));
+    };
+  }
+
+  start() {
+    this.recorder.start(TIMESLICE_MS);
+    this.startedAt = performance.now();
+  }
+
+  get marked() {
+    return this.markedAt !== null;
+  }
+
+  /** Starts the take at this moment; everything buffered from here on is kept. */
+  mark() {
+    this.markedAt = performance.now() - this.startedAt;
+  }
+
+  finish(): Promise<PreRollTake> {
+    return new Promise((resolve, reject) => {
+      this.recorder.onstop = () => { this.pending.then(() => resolve(this.assemble()), reject); };
+      this.recorder.stop();
+    });
+  }
+
+  dispose() {
+    this.recorder.ondataavailable = null;
+    if (this.recorder.state !== 'inactive') this.recorder.stop();
+    this.clusters = [];
+    this.open = new Uint8Array(0);
+  }
+
+  private append(chunk: Uint8Array) {
+    const bytes = concat(this.open, chunk);
+    const { clusters, pending } = scanClusters(bytes, this.scanFrom, this.videoTrack);
+    let start = 0;
+    clusters.forEach(cluster => {
+      if (!this.header) {
+        this.header = bytes.slice(0, cluster.offset);
+        this.videoTrack = videoTrackOf(this.header);
+      }
+      else if (this.openCluster) this.clusters.push({ bytes: bytes.slice(start, cluster.offset), cluster: this.openCluster });
+      this.openCluster = { ...cluster, offset: 0 };
+      start = cluster.offset;
+    });
+    this.open = bytes.slice(start);
+    this.scanFrom = (pending ?? bytes.length) - start;
+    if (clusters.length) this.evict();
+  }
+
+  /** Drops clusters from before the newest keyframe that still covers the window. */
+  private evict() {
+    if (this.marked || !this.openCluster) return;
+    const cut = this.startIndex(this.openCluster.timecode - this.window);
+    if (cut > 0) this.clusters = this.clusters.slice(cut);
+  }
+
+  private startIndex(cutoff: number) {
+    let index = -1;
+    this.clusters.forEach((c, i) => { if (c.cluster.keyframe && c.cluster.timecode <= cutoff) index = i; });
+    if (index < 0) index = this.clusters.findIndex(c => c.cluster.keyframe);
+    return Math.max(0, index);
+  }
+
+  private assemble(): PreRollTake {
+    if (!this.header) return { blob: new Blob([this.open as BlobPart], { type: 'video/webm' }), preRoll: 0 };
+    const all = this.openCluster ? [...this.clusters, { bytes: this.open, cluster: this.openCluster }] : this.clusters;
+    this.clusters = all;
+    const markedAt = this.markedAt ?? 0;
+    const kept = all.slice(this.startIndex(markedAt - this.window));
+    const base = kept[0]?.cluster.timecode ?? 0;
+    // The take starts at zero like any other recording
+    kept.forEach(c => rebaseCluster(c.bytes, c.cluster, base));
+    return {
+      blob: new Blob([this.header, ...kept.map(c => c.bytes)] as BlobPart[], { type: 'video/webm' }),
+      preRoll: Math.max(0, (markedAt - base) / 1000),
+    };
+  }
+}
@@ -0,0 +1,233 @@
+import { CapturedImage } from '../types';
+import { PREVIEW_STORE, openDatabase, requestToPromise, transactionDone } from '../utils/idb';
+import { loadImage } from '../utils/mediaUtils';
+import { clipPoster, proxyClip } from './clipService';
+
+/** Cached stand-ins for a capture: a small still, and for videos a low-bitrate proxy. */
+export interface MediaPreview {
+  thumb?: string;
+  proxy?: string;
+  /** The source could not be decoded; show the original instead */
+  failed?: boolean;
+}
+
+interface StoredPreview {
+  id: string;
+  thumb?: Blob;
+  proxy?: Blob;
+}
+
+interface PreviewSource {
+  image: CapturedImage;
+  poster?: string;
+}
+
+interface PreviewJob {
+  id: string;
+  /** Ignore the cached thumbnail, e.g. after the poster frame changed */
+  fresh: boolean;
+}
+
+// Covers a 112px tile at 3x device pixel ratio
+const THUMB_EDGE = 320;
+const THUMB_QUALITY = 0.8;
+
+const encodeThumb = async (src: string): Promise<Blob> => {
+  const img = await loadImage(src);
+  const scale = Math.min(1, THUMB_EDGE / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const encode = (type: string) => new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, THUMB_QUALITY));
+  // Browsers without a WebP encoder hand back a PNG instead
+  const webp = await encode('image/webp');
+  if (webp?.type === 'image/webp') return webp;
+  const jpeg = await encode('image/jpeg');
+  if (!jpeg) throw new Error('Thumbnail encode failed');
+  return jpeg;
+};
+
+/**
+ * Generates and caches thumbnails and video proxies in the background.
+ * Thumbnails and proxies run on separate queues; proxies re-record a clip in real time,
+ * so they only run while the app is idle and are abandoned (and retried later) when it is not.
+ */
+class PreviewService {
+  private previews: Map<string, MediaPreview> = new Map();
+  // Jobs read the latest source when they start; a capture's URL changes once it is archived
+  private sources: Map<string, PreviewSource> = new Map();
+  private thumbQueue: PreviewJob[] = [];
+  private proxyQueue: string[] = [];
+  private pending: Set<string> = new Set();
+  private removed: Set<string> = new Set();
+  private listeners: Set<(id: string) => void> = new Set();
+  private thumbsRunning = false;
+  private proxiesRunning = false;
+  private idle = false;
+  private proxyJob: { id: string; abort: AbortController } | null = null;
+
+  get(id: string): MediaPreview | undefined {
+    return this.previews.get(id);
+  }
+
+  /** Queues previews for a capture unless they are cached or on their way. `poster` stands in for a video's first frame. */
+  request(image: CapturedImage, poster?: string) {
+    this.sources.set(image.id, { image, poster });
+    if (this.previews.has(image.id) || this.pending.has(image.id)) return;
+    this.enqueue({ id: image.id, fresh: false });
+  }
+
+  /** Rebuilds a thumbnail from a new source, keeping any proxy. */
+  refreshThumb(image: CapturedImage, poster?: string) {
+    this.sources.set(image.id, { image, poster });
+    this.thumbQueue = this.thumbQueue.filter(j => j.id !== image.id);
+    this.enqueue({ id: image.id, fresh: true });
+  }
+
+  async remove(id: string): Promise<void> {
+    this.removed.add(id);
+    this.sources.delete(id);
+    this.thumbQueue = this.thumbQueue.filter(j => j.id !== id);
+    this.proxyQueue = this.proxyQueue.filter(p => p !== id);
+    if (this.proxyJob?.id === id) this.proxyJob.abort.abort();
+    this.release(id);
+    const db = await openDatabase();
+    const tx = db.transaction(PREVIEW_STORE, 'readwrite');
+    tx.objectStore(PREVIEW_STORE).delete(id);
+    await transactionDone(tx);
+  }
+
+  /** Proxies wait while the camera is recording or an edit is running. */
+  setIdle(idle: boolean) {
+    this.idle = idle;
+    if (idle) this.runProxies();
+    else this.proxyJob?.abort.abort();
+  }
+
+  releaseAll() {
+    Array.from(this.previews.keys()).forEach(id => this.release(id));
+  }
+
+  onChange(callback: (id: string) => void) {
+    this.listeners.add(callback);
+    return () => { this.listeners.delete(callback); };
+  }
+
+  private enqueue(job: PreviewJob) {
+    this.removed.delete(job.id);
+    this.pending.add(job.id);
+    this.thumbQueue.push(job);
+    this.runThumbs();
+  }
+
+  private async runThumbs() {
+    if (this.thumbsRunning) return;
+    this.thumbsRunning = true;
+    try {
+      while (this.thumbQueue.length) await this.makeThumb(this.thumbQueue.shift()!);
+    } finally {
+      this.thumbsRunning = false;
+    }
+  }
+
+  private async runProxies() {
+    if (this.proxiesRunning) return;
+    this.proxiesRunning = true;
+    try {
+      while (this.idle && this.proxyQueue.length) await this.makeProxy(this.proxyQueue.shift()!);
+    } finally {
+      this.proxiesRunning = false;
+    }
+  }
+
+  private async makeThumb({ id, fresh }: PreviewJob) {
+    const source = this.sources.get(id);
+    try {
+      if (!source) return;
+      const { image, poster } = source;
+      const stored = await this.read(id);
+      let thumb = fresh ? undefined : stored?.thumb;
+      if (!thumb) {
+        thumb = await encodeThumb(image.mediaType === 'image' ? image.url : poster ?? await clipPoster(image.url));
+        if (this.removed.has(id)) return;
+        await this.write(id, { thumb });
+      }
+      if (this.removed.has(id)) return;
+      this.publish(id, { thumb, proxy: this.previews.get(id)?.proxy ? undefined : stored?.proxy });
+      const hasProxy = !!this.previews.get(id)?.proxy || this.proxyQueue.includes(id) || this.proxyJob?.id === id;
+      if (image.mediaType === 'video' && !hasProxy) {
+        this.proxyQueue.push(id);
+        this.runProxies();
+      }
+    } catch (err) {
+      console.warn("Thumbnail generation failed", err);
+      this.previews.set(id, { ...this.previews.get(id), failed: true });
+      this.notify(id);
+    } finally {
+      this.pending.delete(id);
+    }
+  }
+
+  private async makeProxy(id: string) {
+    const source = this.sources.get(id);
+    if (!source || this.removed.has(id)) return;
+    const abort = new AbortController();
+    this.proxyJob = { id, abort };
+    try {
+      const { blob } = await proxyClip(source.image.url, abort.signal);
+      if (this.removed.has(id)) return;
+      await this.write(id, { proxy: blob });
+      this.publish(id, { proxy: blob });
+    } catch (err) {
+      // Interrupted by the app getting busy: try again when it is idle
+      if (abort.signal.aborted && !this.removed.has(id)) this.proxyQueue.unshift(id);
+      else console.warn("Proxy generation failed", err);
+    } finally {
+      this.proxyJob = null;
+    }
+  }
+
+  private async read(id: string): Promise<StoredPreview | undefined> {
+    const db = await openDatabase();
+    const tx = db.transaction(PREVIEW_STORE, 'readonly');
+    return requestToPromise<StoredPreview | undefined>(tx.objectStore(PREVIEW_STORE).get(id));
+  }
+
+  private async write(id: string, fields: Omit<StoredPreview, 'id'>) {
+    const db = await openDatabase();
+    const tx = db.transaction(PREVIEW_STORE, 'readwrite');
+    const store = tx.objectStore(PREVIEW_STORE);
+    const existing = await requestToPromise<StoredPreview | undefined>(store.get(id));
+    store.put({ ...existing, ...fields, id });
+    await transactionDone(tx);
+  }
+
+  private publish(id: string, blobs: { thumb?: Blob; proxy?: Blob }) {
+    const current = this.previews.get(id) ?? {};
+    const next: MediaPreview = { thumb: current.thumb, proxy: current.proxy };
+    if (blobs.thumb) {
+      if (current.thumb) URL.revokeObjectURL(current.thumb);
+      next.thumb = URL.createObjectURL(blobs.thumb);
+    }
+    if (blobs.proxy) {
+      if (current.proxy) URL.revokeObjectURL(current.proxy);
+      next.proxy = URL.createObjectURL(blobs.proxy);
+    }
+    this.previews.set(id, next);
+    this.notify(id);
+  }
+
+  private release(id: string) {
+    const preview = this.previews.get(id);
+    if (preview?.thumb) URL.revokeObjectURL(preview.thumb);
+    if (preview?.proxy) URL.revokeObjectURL(preview.proxy);
+    this.previews.delete(id);
+  }
+
+  private notify(id: string) {
+    this.listeners.forEach(cb => cb(id));
+  }
+}
+
+export const previewService = new PreviewService();
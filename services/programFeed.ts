@@ -0,0 +1,116 @@
+import { formatTimecode } from '../utils/timecode';
+
+/** What to burn into a processed take's frames. */
+export interface BurnIns {
+  /** Epoch-millisecond clock for the timecode; the synchronized clock keeps Legion takes in step */
+  clock?: () => number;
+  /** Label for the top-left corner, e.g. the Legion role */
+  label?: string;
+  guide?: '3x3' | 'GOLDEN';
+}
+
+export const PROGRAM_FPS = 30;
+const GOLDEN = 0.618;
+
+/**
+ * The recordable program output: graded viewfinder frames plus burn-ins on a canvas,
+ * with the camera's audio routed through Web Audio so the camera stream can be
+ * replaced mid-take (e.g. on a lens swap) without the recorder losing its tracks.
+ */
+export class ProgramFeed {
+  readonly stream: MediaStream;
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private audio: AudioContext | null = null;
+  private destination: MediaStreamAudioDestinationNode | null = null;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private sized = false;
+
+  constructor() {
+    this.canvas = document.createElement('canvas');
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas unavailable');
+    this.ctx = ctx;
+    const video = this.canvas.captureStream(PROGRAM_FPS);
+    try {
+      this.audio = new AudioContext();
+      this.destination = this.audio.createMediaStreamDestination();
+    } catch (e) {
+      console.warn("Program audio unavailable", e);
+    }
+    this.stream = new MediaStream([...video.getVideoTracks(), ...(this.destination?.stream.getAudioTracks() ?? [])]);
+  }
+
+  /** Feeds the camera's microphone into the program. Must be resumed from a user gesture on some browsers. */
+  setAudio(camera: MediaStream) {
+    if (!this.audio || !this.destination) return;
+    this.source?.disconnect();
+    this.source = null;
+    if (camera.getAudioTracks().length === 0) return;
+    this.source = this.audio.createMediaStreamSource(camera);
+    this.source.connect(this.destination);
+  }
+
+  resume() {
+    if (this.audio?.state === 'suspended') this.audio.resume().catch(err => console.warn("Program audio resume failed", err));
+  }
+
+  /**
+   * Composites a graded frame and the burn-ins. The canvas takes the size of the first frame;
+   * later frames of another shape are fitted inside it, since recorders cannot follow a resize.
+   */
+  draw(frame: HTMLCanvasElement, burnIns: BurnIns) {
+    if (!frame.width || !frame.height) return;
+    const { canvas, ctx } = this;
+    if (!this.sized) {
+      canvas.width = frame.width;
+      canvas.height = frame.height;
+      this.sized = true;
+    }
+    const scale = Math.min(canvas.width / frame.width, canvas.height / frame.height);
+    const w = frame.width * scale;
+    const h = frame.height * scale;
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(frame, (canvas.width - w) / 2, (canvas.height - h) / 2, w, h);
+
+    if (burnIns.guide) this.drawGuide(burnIns.guide);
+    const size = Math.max(12, Math.round(canvas.height * 0.035));
+    const margin = size;
+    ctx.font = `bold ${size}px ui-monospace, monospace`;
+    ctx.textBaseline = 'alphabetic';
+    if (burnIns.clock) this.drawLabel(formatTimecode(burnIns.clock(), PROGRAM_FPS), margin, canvas.height - margin, size);
+    if (burnIns.label) this.drawLabel(burnIns.label, margin, margin + size, size);
+  }
+
+  dispose() {
+    this.stream.getVideoTracks().forEach(t => t.stop());
+    this.source?.disconnect();
+    this.audio?.close().catch(() => {});
+  }
+
+  private drawLabel(text: string, x: number, y: number, size: number) {
+    const { ctx } = this;
+    const pad = size * 0.3;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+    ctx.fillRect(x - pad, y - size - pad * 0.5, ctx.measureText(text).width + pad * 2, size + pad * 1.5);
+    ctx.fillStyle = '#fff';
+    ctx.fillText(text, x, y);
+  }
+
+  private drawGuide(guide: '3x3' | 'GOLDEN') {
+    const { ctx, canvas } = this;
+    const { width, height } = canvas;
+    const lines = guide === '3x3' ? [1 / 3, 2 / 3] : [1 - GOLDEN, GOLDEN];
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.25)';
+    ctx.lineWidth = Math.max(1, Math.round(height / 720));
+    ctx.beginPath();
+    lines.forEach(t => {
+      ctx.moveTo(width * t, 0);
+      ctx.lineTo(width * t, height);
+      ctx.moveTo(0, height * t);
+      ctx.lineTo(width, height * t);
+    });
+    ctx.stroke();
+  }
+}
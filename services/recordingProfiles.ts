@@ -0,0 +1,192 @@
+import { ClipFormat, RecordingProfile, VideoCodec } from '../types';
+import { fragmentedMp4, mp4TracksFromWebm } from '../utils/mp4';
+import { demuxWebm } from '../utils/webm';
+
+export type Container = 'mp4' | 'webm';
+
+interface CodecCandidates {
+  codec: VideoCodec;
+  label: string;
+  mp4: string[];
+  webm: string[];
+}
+
+/** A codec the device can record, with the MIME type that selects it. */
+export interface CodecSupport {
+  codec: VideoCodec;
+  label: string;
+  mimeType: string;
+  container: Container;
+}
+
+// In preference order: what editors ingest first, the heavy AV1 encoder last
+const CANDIDATES: CodecCandidates[] = [
+  {
+    codec: 'H264', label: 'H.264',
+    mp4: ['video/mp4;codecs=avc1.640033,mp4a.40.2', 'video/mp4;codecs=avc1.640033,opus', 'video/mp4;codecs=avc1', 'video/mp4'],
+    webm: ['video/webm;codecs=h264,opus', 'video/webm;codecs=h264'],
+  },
+  {
+    codec: 'HEVC', label: 'HEVC',
+    mp4: ['video/mp4;codecs=hvc1.1.6.L153.B0,mp4a.40.2', 'video/mp4;codecs=hvc1', 'video/mp4;codecs=hev1'],
+    webm: [],
+  },
+  {
+    codec: 'VP9', label: 'VP9',
+    mp4: ['video/mp4;codecs=vp09.00.41.08,opus', 'video/mp4;codecs=vp9,opus', 'video/mp4;codecs=vp9'],
+    webm: ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp9'],
+  },
+  {
+    codec: 'VP8', label: 'VP8',
+    mp4: [],
+    webm: ['video/webm;codecs=vp8,opus', 'video/webm;codecs=vp8', 'video/webm'],
+  },
+  {
+    codec: 'AV1', label: 'AV1',
+    mp4: ['video/mp4;codecs=av01.0.08M.08,opus', 'video/mp4;codecs=av01.0.08M.08'],
+    webm: ['video/webm;codecs=av01,opus', 'video/webm;codecs=av1,opus', 'video/webm;codecs=av01'],
+  },
+];
+
+export const BITRATE_PRESETS = [8000000, 15000000, 30000000, 50000000];
+export const RESOLUTION_PRESETS = [720, 1080, 2160];
+export const FPS_PRESETS = [24, 30, 60];
+export const DEFAULT_PROFILE: RecordingProfile = { codec: 'H264', bitrate: 15000000, resolution: 1080, fps: 30, container: 'mp4' };
+const AUDIO_BITRATE = 128000;
+// The remux holds the whole clip and its MP4 copy in memory; longer takes stay WebM
+const REMUX_MAX_BYTES = 256 * 1024 * 1024;
+
+const isSupported = (mimeType: string) => {
+  try {
+    return typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(mimeType);
+  } catch (e) {
+    return false;
+  }
+};
+
+const probes = new Map<string, CodecSupport[]>();
+
+/** Codecs this device can record, best first. `container` limits the probe to one container. */
+export const probeCodecs = (container?: Container): CodecSupport[] => {
+  const key = container ?? 'any';
+  if (!probes.has(key)) {
+    const found: CodecSupport[] = [];
+    CANDIDATES.forEach(c => {
+      const containers: Container[] = container ? [container] : ['mp4', 'webm'];
+      for (const kind of containers) {
+        const mimeType = c[kind].find(isSupported);
+        if (mimeType) {
+          found.push({ codec: c.codec, label: c.label, mimeType, container: kind });
+          break;
+        }
+      }
+    });
+    probes.set(key, found);
+  }
+  return probes.get(key)!;
+};
+
+/** The profile's codec if the device has it, else the best one it does have. */
+export const resolveCodec = (profile: RecordingProfile, container?: Container): CodecSupport | null => {
+  const supported = probeCodecs(container);
+  return supported.find(s => s.codec === profile.codec) ?? supported[0] ?? null;
+};
+
+export const recorderOptions = (profile: RecordingProfile, support: CodecSupport | null): MediaRecorderOptions => ({
+  ...(support ? { mimeType: support.mimeType } : {}),
+  videoBitsPerSecond: profile.bitrate,
+  audioBitsPerSecond: AUDIO_BITRATE,
+});
+
+/**
+ * A recorder for the stream, stepping down to the browser's defaults if the requested
+ * options are refused; isTypeSupported is not a promise that construction succeeds.
+ */
+export const createRecorder = (stream: MediaStream, options: MediaRecorderOptions): MediaRecorder => {
+  try {
+    return new MediaRecorder(stream, options);
+  } catch (err) {
+    console.warn("Recorder options refused, using defaults", err);
+    return new MediaRecorder(stream, { videoBitsPerSecond: options.videoBitsPerSecond });
+  }
+};
+
+/** Camera track constraints for the profile's resolution and frame rate (landscape sensor). */
+export const profileConstraints = (profile: RecordingProfile): MediaTrackConstraints => ({
+  width: { ideal: Math.round(profile.resolution * 16 / 9) },
+  height: { ideal: profile.resolution },
+  frameRate: { ideal: profile.fps },
+});
+
+export const codecLabel = (codec?: VideoCodec) => CANDIDATES.find(c => c.codec === codec)?.label ?? 'Auto';
+
+// Leading characters of a `codecs=` entry, per video codec
+const CODEC_TOKENS: [string, VideoCodec][] = [
+  ['avc1', 'H264'], ['avc3', 'H264'], ['h264', 'H264'],
+  ['hvc1', 'HEVC'], ['hev1', 'HEVC'],
+  ['vp09', 'VP9'], ['vp9', 'VP9'],
+  ['vp08', 'VP8'], ['vp8', 'VP8'],
+  ['av01', 'AV1'], ['av1', 'AV1'],
+];
+
+/** The video codec a MIME type names in its `codecs=` parameter, if any. */
+const codecOf = (mimeType: string): VideoCodec | undefined => {
+  const list = mimeType.match(/codecs\s*=\s*"?([^";]+)/i)?.[1] ?? '';
+  for (const entry of list.split(',').map(c => c.trim().toLowerCase())) {
+    const match = CODEC_TOKENS.find(([token]) => entry.startsWith(token));
+    if (match) return match[1];
+  }
+  return undefined;
+};
+
+/**
+ * The codec a recorder actually writes. It may have fallen back to browser defaults, so the
+ * type it reports wins; the requested one only counts when it reports nothing or the same type.
+ */
+const actualCodec = (actual: string, requested: string, requestedCodec?: VideoCodec): VideoCodec | undefined => {
+  if (!actual) return requestedCodec;
+  return codecOf(actual) ?? (actual === requested ? requestedCodec : undefined);
+};
+
+/** What a finished clip is, from the recorder that wrote it and the track it recorded. */
+export const clipFormat = (profile: RecordingProfile, recorder: MediaRecorder | null, mimeType: string, track?: MediaStreamTrack): ClipFormat => {
+  const settings = track?.getSettings?.() ?? {};
+  const requestedCodec = codecOf(mimeType) ?? CANDIDATES.find(c => [...c.mp4, ...c.webm].includes(mimeType))?.codec;
+  const codec = actualCodec(recorder?.mimeType ?? '', mimeType, requestedCodec);
+  return {
+    codec,
+    mimeType: recorder?.mimeType || mimeType,
+    bitrate: recorder?.videoBitsPerSecond || profile.bitrate,
+    width: settings.width,
+    height: settings.height,
+    fps: settings.frameRate ? Math.round(settings.frameRate) : undefined,
+  };
+};
+
+/** A format read when recording started, corrected by what the recorder reports once it has run. */
+export const recordedFormat = (format: ClipFormat, recorder: MediaRecorder): ClipFormat => recorder.mimeType
+  ? { ...format, mimeType: recorder.mimeType, codec: actualCodec(recorder.mimeType, format.mimeType, format.codec) }
+  : format;
+
+/** Whether a finished recording has to be rewritten to give the profile's container. */
+export const needsRemux = (blob: Blob, profile: RecordingProfile) =>
+  profile.container === 'mp4' && blob.type.startsWith('video/webm');
+
+/** Rewrites a WebM clip as fragmented MP4. Resolves null when a track has no MP4 mapping or the clip is too large. */
+export const remuxToMp4 = async (blob: Blob): Promise<Blob | null> => {
+  if (blob.size > REMUX_MAX_BYTES) {
+    console.warn("Clip too large to remux, keeping WebM", blob.size);
+    return null;
+  }
+  const file = demuxWebm(new Uint8Array(await blob.arrayBuffer()));
+  const tracks = file && mp4TracksFromWebm(file);
+  if (!tracks) return null;
+  return new Blob(fragmentedMp4(tracks) as BlobPart[], { type: 'video/mp4' });
+};
+
+/** A finished recording in the profile's container, remuxing if needed; stays WebM when the remux cannot be done. */
+export const finishRecording = async (recorded: Blob, format: ClipFormat, profile: RecordingProfile): Promise<{ blob: Blob; format: ClipFormat }> => {
+  if (!needsRemux(recorded, profile)) return { blob: recorded, format };
+  const mp4 = await remuxToMp4(recorded).catch(err => { console.error("MP4 remux failed, keeping WebM", err); return null; });
+  return mp4 ? { blob: mp4, format: { ...format, mimeType: 'video/mp4', remuxed: true } } : { blob: recorded, format };
+};
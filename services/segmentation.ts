@@ -0,0 +1,83 @@
+import { canvasToFrame, loadPlane } from '../utils/frameUtils';
+import { Plane } from '../utils/imaging';
+import { segmentSubject } from './geminiService';
+import { stackingService } from './stackingService';
+
+/**
+ * A source of portrait depth masks. Masks share one scale: 1 on the subject,
+ * falling toward 0 with distance behind it. Any resolution is fine; the bokeh
+ * renderer resamples to the frame.
+ */
+export interface SegmentationProvider {
+  id: string;
+  label: string;
+  /** Whether the provider can run right now (network, credentials). */
+  isAvailable(): boolean;
+  segment(source: HTMLCanvasElement): Promise<Plane>;
+}
+
+export const LOCAL_SEGMENTATION = 'local';
+const LOCAL_MAX_EDGE = 256;
+const CLOUD_MAX_EDGE = 768;
+
+const scaledJpeg = (source: HTMLCanvasElement, maxEdge: number) => {
+  const scale = Math.min(1, maxEdge / Math.max(source.width, source.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(source.width * scale));
+  canvas.height = Math.max(1, Math.round(source.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas unavailable');
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return { url: canvas.toDataURL('image/jpeg', 0.85), width: canvas.width, height: canvas.height };
+};
+
+const localProvider: SegmentationProvider = {
+  id: LOCAL_SEGMENTATION,
+  label: 'On-Device',
+  isAvailable: () => true,
+  segment: source => stackingService.estimateDepth(canvasToFrame(source, LOCAL_MAX_EDGE)),
+};
+
+const geminiProvider: SegmentationProvider = {
+  id: 'gemini',
+  label: 'Gemini Matte',
+  isAvailable: () => navigator.onLine,
+  segment: async source => {
+    const { url, width, height } = scaledJpeg(source, CLOUD_MAX_EDGE);
+    const matte = await segmentSubject(url);
+    if (!matte) throw new Error('Gemini returned no matte');
+    return loadPlane(matte, width, height);
+  },
+};
+
+class SegmentationService {
+  private providers: Map<string, SegmentationProvider> = new Map();
+
+  constructor() {
+    this.register(localProvider);
+    this.register(geminiProvider);
+  }
+
+  register(provider: SegmentationProvider) {
+    this.providers.set(provider.id, provider);
+  }
+
+  list(): SegmentationProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  /** Runs the requested provider, falling back to the on-device mask if it is unavailable or fails. */
+  async segment(source: HTMLCanvasElement, providerId = LOCAL_SEGMENTATION): Promise<{ depth: Plane; provider: string }> {
+    const provider = this.providers.get(providerId);
+    if (provider && provider.id !== LOCAL_SEGMENTATION && provider.isAvailable()) {
+      try {
+        return { depth: await provider.segment(source), provider: provider.id };
+      } catch (err) {
+        console.warn("Segmentation provider failed, using on-device mask", err);
+      }
+    }
+    return { depth: await localProvider.segment(source), provider: LOCAL_SEGMENTATION };
+  }
+}
+
+export const segmentationService = new SegmentationService();
@@ -0,0 +1,96 @@
+import { BokehSettings } from '../utils/bokeh';
+import { FrameScore } from '../utils/frameScore';
+import { Plane, RgbaFrame } from '../utils/imaging';
+import { Offset } from '../utils/panorama';
+import type { ImagingJob, ImagingRequest, ImagingResponse, ImagingResult } from '../workers/imagingWorker';
+
+type Pending = {
+  resolve: (res: ImagingResult) => void;
+  reject: (err: Error) => void;
+};
+
+class StackingService {
+  private worker: Worker | null = null;
+  private nextId = 1;
+  private nextSession = 1;
+  private pending: Map<number, Pending> = new Map();
+
+  private getWorker(): Worker {
+    if (this.worker) return this.worker;
+    this.worker = new Worker(new URL('../workers/imagingWorker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (e: MessageEvent<ImagingResponse>) => {
+      const res = e.data;
+      const entry = this.pending.get(res.id);
+      if (!entry) return;
+      this.pending.delete(res.id);
+      if ('error' in res) entry.reject(new Error(res.error));
+      else entry.resolve(res);
+    };
+    this.worker.onerror = (e) => {
+      console.error("Imaging worker crashed", e);
+      this.pending.forEach(p => p.reject(new Error('Imaging worker crashed')));
+      this.pending.clear();
+      this.worker?.terminate();
+      this.worker = null;
+    };
+    return this.worker;
+  }
+
+  private run(job: ImagingJob, transfer: Transferable[]) {
+    const id = this.nextId++;
+    const request: ImagingRequest = { id, job };
+    return new Promise<ImagingResult>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.getWorker().postMessage(request, transfer);
+    });
+  }
+
+  /** Aligns and exposure-fuses a bracket. Frame buffers are transferred to the worker. */
+  async fuseExposures(frames: RgbaFrame[], referenceIndex = Math.floor(frames.length / 2), align = true): Promise<RgbaFrame> {
+    const result = await this.run({ type: 'hdr', frames, referenceIndex, align }, frames.map(f => f.data.buffer));
+    return result.frame!;
+  }
+
+  /** Opens a streaming night stack; frames are aligned and merged as they arrive. */
+  async beginNightStack(reference: RgbaFrame): Promise<number> {
+    const session = this.nextSession++;
+    await this.run({ type: 'night-start', session, reference }, [reference.data.buffer]);
+    return session;
+  }
+
+  async addNightFrame(session: number, frame: RgbaFrame): Promise<boolean> {
+    const result = await this.run({ type: 'night-add', session, frame }, [frame.data.buffer]);
+    return !!result.accepted;
+  }
+
+  async finishNightStack(session: number): Promise<{ frame: RgbaFrame; frameCount: number }> {
+    const result = await this.run({ type: 'night-finish', session }, []);
+    return { frame: result.frame!, frameCount: result.frameCount || 0 };
+  }
+
+  /** On-device subject depth mask for portrait mode. */
+  async estimateDepth(frame: RgbaFrame): Promise<Plane> {
+    const result = await this.run({ type: 'segment', frame }, [frame.data.buffer]);
+    return result.plane!;
+  }
+
+  /** Stitches a sweep on-device. `hints` are tracker estimates of each frame's offset from the previous one. */
+  async stitchPanorama(frames: RgbaFrame[], fov: number, hints: (Offset | undefined)[] = []): Promise<{ frame: RgbaFrame; frameCount: number }> {
+    const result = await this.run({ type: 'stitch', frames, fov, hints }, frames.map(f => f.data.buffer));
+    return { frame: result.frame!, frameCount: result.frameCount || 0 };
+  }
+
+  /** Lens blur driven by a depth mask. The depth plane is copied so callers can keep it. */
+  async renderBokeh(frame: RgbaFrame, depth: Plane, settings: BokehSettings): Promise<RgbaFrame> {
+    const result = await this.run({ type: 'bokeh', frame, depth, settings }, [frame.data.buffer]);
+    return result.frame!;
+  }
+
+  /** Sharpness, motion-blur and exposure measures for burst selection. */
+  async scoreFrame(frame: RgbaFrame): Promise<FrameScore> {
+    const result = await this.run({ type: 'score', frame }, [frame.data.buffer]);
+    return result.score!;
+  }
+}
+
+export const stackingService = new StackingService();
@@ -0,0 +1,167 @@
+import { RecordingProfile, TimelapseConfig } from '../types';
+import { urlToBlob } from '../utils/mediaUtils';
+import { createZip } from '../utils/zipUtils';
+import { RecordedClip } from './clipService';
+import { lockExposure } from './exposureLock';
+import { clipFormat, createRecorder, finishRecording, recordedFormat, recorderOptions, resolveCodec } from './recordingProfiles';
+
+const STILL_PREFIX = 'still-';
+const DISPLAY_GAMMA = 2.2;
+// Ramp controller: drift inside the deadband is ignored, beyond it exposure moves a small step per frame
+const RAMP_DEADBAND = 1 / 6;
+const RAMP_STEP = 1 / 12;
+// Digital gain picks up what the sensor cannot; beyond this noise dominates
+const MAX_DIGITAL_RAMP = 3;
+
+export interface TimelapseStill {
+  blob: Blob;
+  /** Mean output luma, 0..1 */
+  luma: number;
+}
+
+export interface TimelapseStatus {
+  phase: 'DELAY' | 'SHOOTING' | 'ASSEMBLING';
+  frame: number;
+  total: number;
+  /** Wall-clock time of the next frame */
+  nextAt: number;
+  /** Exposure ramp applied so far, in stops */
+  ramp: number;
+}
+
+export interface TimelapseRun {
+  stills: Blob[];
+  ramp: number;
+  exposureLocked: boolean;
+  whiteBalanceLocked: boolean;
+}
+
+export const timelapseStillKey = (index: number) => `${STILL_PREFIX}${index.toString().padStart(4, '0')}`;
+
+/** Still URLs of a time-lapse root, in shooting order. */
+export const timelapseStills = (assets?: Record<string, string>) =>
+  Object.keys(assets || {}).filter(k => k.startsWith(STILL_PREFIX)).sort().map(k => assets![k]);
+
+export const timelapseFrameCount = (config: TimelapseConfig) =>
+  config.limit === 'frames' ? config.frames : Math.max(2, Math.ceil((config.duration * 60) / config.interval));
+
+/** Resolves at `time`, or as soon as the signal aborts. */
+const sleepUntil = (time: number, signal: AbortSignal) => new Promise<void>(resolve => {
+  if (signal.aborted) return resolve();
+  const done = () => {
+    clearTimeout(timer);
+    signal.removeEventListener('abort', done);
+    resolve();
+  };
+  const timer = setTimeout(done, Math.max(0, time - Date.now()));
+  signal.addEventListener('abort', done);
+});
+
+const stopsBetween = (target: number, luma: number) =>
+  DISPLAY_GAMMA * Math.log2(Math.max(target, 1e-3) / Math.max(luma, 1e-3));
+
+/**
+ * Runs the intervalometer: waits out the start delay, then grabs one still per interval
+ * on a fixed wall-clock schedule until the frame count is reached or the signal aborts.
+ * With auto-ramp, a locked exposure follows the scene's brightness from the first frame,
+ * in hardware where the track allows and as digital gain (passed to `grab`) beyond that.
+ */
+export const runTimelapse = async (
+  config: TimelapseConfig,
+  track: MediaStreamTrack | undefined,
+  grab: (gain: number) => Promise<TimelapseStill>,
+  onStatus: (status: TimelapseStatus) => void,
+  signal: AbortSignal
+): Promise<TimelapseRun> => {
+  const total = timelapseFrameCount(config);
+  const start = Date.now() + config.delay * 1000;
+  onStatus({ phase: 'DELAY', frame: 0, total, nextAt: start, ramp: 0 });
+  await sleepUntil(start, signal);
+  if (signal.aborted) return { stills: [], ramp: 0, exposureLocked: false, whiteBalanceLocked: false };
+
+  const lock = config.lockExposure ? await lockExposure(track) : null;
+  const stills: Blob[] = [];
+  let gain = 0;
+  let ramp = 0;
+  let target: number | undefined;
+
+  try {
+    for (let i = 0; i < total && !signal.aborted; i++) {
+      const due = start + i * config.interval * 1000;
+      await sleepUntil(due, signal);
+      if (signal.aborted) break;
+      const still = await grab(gain);
+      stills.push(still.blob);
+      onStatus({ phase: 'SHOOTING', frame: i + 1, total, nextAt: due + config.interval * 1000, ramp });
+
+      if (!config.autoRamp || !lock?.exposure) continue;
+      if (target === undefined) { target = still.luma; continue; }
+      const error = stopsBetween(target, still.luma);
+      if (Math.abs(error) < RAMP_DEADBAND) continue;
+      const step = Math.sign(error) * Math.min(Math.abs(error), RAMP_STEP);
+      const leftover = await lock.adjust(step);
+      const nextGain = Math.min(MAX_DIGITAL_RAMP, Math.max(-MAX_DIGITAL_RAMP, gain + leftover));
+      ramp += step - leftover + (nextGain - gain);
+      gain = nextGain;
+    }
+  } finally {
+    await lock?.release();
+  }
+
+  return { stills, ramp, exposureLocked: !!lock?.exposure, whiteBalanceLocked: !!lock?.whiteBalance };
+};
+
+/** Encodes stills into a clip at `fps` with the recording profile's codec and container, pacing a canvas stream in real time. */
+export const assembleClip = async (
+  stills: Blob[], fps: number, profile: RecordingProfile, onFrame?: (index: number) => void
+): Promise<RecordedClip> => {
+  if (stills.length === 0) throw new Error('No time-lapse frames to assemble');
+  const first = await createImageBitmap(stills[0]);
+  const canvas = document.createElement('canvas');
+  canvas.width = first.width;
+  canvas.height = first.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas unavailable');
+
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const clipProfile = { ...profile, fps };
+  const support = resolveCodec(clipProfile, clipProfile.container === 'webm' ? 'webm' : undefined);
+  const recorder = createRecorder(stream, recorderOptions(clipProfile, support));
+  // The canvas track reports no frame rate of its own; the clip plays at the assembly rate
+  const format = { ...clipFormat(clipProfile, recorder, support?.mimeType ?? '', track), width: canvas.width, height: canvas.height, fps };
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => { if (e.data.size > 0) chunks.push(e.data); };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  const frameMs = 1000 / fps;
+  const signal = new AbortController().signal;
+  recorder.start();
+  const t0 = Date.now();
+  try {
+    for (let i = 0; i < stills.length; i++) {
+      onFrame?.(i);
+      const bitmap = i === 0 ? first : await createImageBitmap(stills[i]);
+      ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+      bitmap.close();
+      track.requestFrame();
+      await sleepUntil(t0 + (i + 1) * frameMs, signal);
+    }
+  } finally {
+    recorder.stop();
+    await stopped;
+    stream.getTracks().forEach(t => t.stop());
+  }
+  return finishRecording(new Blob(chunks, { type: (recorder.mimeType || 'video/webm').split(';')[0] }), recordedFormat(format, recorder), clipProfile);
+};
+
+/** Packs a time-lapse's stills into a ZIP for export as an image sequence. */
+export const stillsArchive = async (assets: Record<string, string>): Promise<Blob> => {
+  const urls = timelapseStills(assets);
+  if (urls.length === 0) throw new Error('Time-lapse stills missing');
+  const entries = await Promise.all(urls.map(async (url, i) => ({
+    name: `${timelapseStillKey(i)}.jpg`,
+    data: new Uint8Array(await (await urlToBlob(url)).arrayBuffer()),
+  })));
+  return createZip(entries);
+};
@@ -0,0 +1,64 @@
+import { encodeWav, floatTo16BitPcm } from '../utils/audioUtils';
+
+/** Asset name of a clip's separate WAV track, kept on the stack root. */
+export const WAV_TRACK = 'audio';
+
+const BLOCK_SIZE = 4096;
+
+/**
+ * Captures a stream's microphone as uncompressed 16-bit PCM alongside a take.
+ * The source can be swapped mid-take (e.g. on a lens swap) without breaking the file.
+ */
+export class WavRecorder {
+  private ctx: AudioContext;
+  private processor: ScriptProcessorNode;
+  private source: MediaStreamAudioSourceNode | null = null;
+  private chunks: Int16Array[] = [];
+  private channels: number;
+  private recording = false;
+
+  constructor(stream: MediaStream, channels = 2) {
+    this.channels = channels;
+    this.ctx = new AudioContext();
+    this.processor = this.ctx.createScriptProcessor(BLOCK_SIZE, channels, channels);
+    this.processor.onaudioprocess = (e) => {
+      if (!this.recording) return;
+      const input = e.inputBuffer;
+      // A mono source is upmixed by the node, so every channel is present
+      const blocks = Array.from({ length: this.channels }, (_, c) => input.getChannelData(Math.min(c, input.numberOfChannels - 1)));
+      this.chunks.push(floatTo16BitPcm(blocks));
+    };
+    // The node only runs while connected to the output; it writes silence there
+    this.processor.connect(this.ctx.destination);
+    this.setSource(stream);
+  }
+
+  setSource(stream: MediaStream) {
+    this.source?.disconnect();
+    this.source = null;
+    if (stream.getAudioTracks().length === 0) return;
+    this.source = this.ctx.createMediaStreamSource(stream);
+    this.source.connect(this.processor);
+  }
+
+  start() {
+    this.chunks = [];
+    this.recording = true;
+    this.ctx.resume().catch(err => console.warn("WAV capture resume failed", err));
+  }
+
+  stop(): Blob {
+    this.recording = false;
+    const wav = encodeWav(this.chunks, this.ctx.sampleRate, this.channels);
+    this.chunks = [];
+    this.dispose();
+    return new Blob([wav as BlobPart], { type: 'audio/wav' });
+  }
+
+  dispose() {
+    this.recording = false;
+    this.source?.disconnect();
+    this.processor.disconnect();
+    this.ctx.close().catch(() => {});
+  }
+}
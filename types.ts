@@ -7,18 +7,74 @@ export interface CapturedImage {
   analysis?: string;
   tips?: string[];
   grounding?: GroundingSource[];
-  metadata?: {
-    iso: string;
-    shutter: string;
-    lens: string;
-    mode: string;
-    filter?: string;
-    role?: 'LEGATUS' | 'CENTURION';
-    syncOffset?: number;
-    enhanced?: boolean;
-    zoom?: number;
-    flash?: string;
-  };
+  metadata?: CaptureMetadata;
+  version?: VersionInfo;
+  /** Side files kept with a root capture as URLs, e.g. the sharp source and depth mask behind a portrait. */
+  assets?: Record<string, string>;
+}
+
+export type EditOperation =
+  | { type: 'enhance'; instruction: string }
+  | { type: 'stack'; kind: 'hdr' | 'night'; frames: number }
+  | { type: 'filter'; filter: string; label?: string }
+  | { type: 'portrait'; aperture: number; focus: number }
+  | { type: 'stitch'; frames: number; fov: number }
+  | { type: 'trim'; in: number; out: number };
+
+export interface VersionInfo {
+  rootId: string;
+  parentId?: string;
+  operation?: EditOperation;
+  appliedAt: number;
+  /** Set on the root only: the version that represents the stack in the Light Table. */
+  headId?: string;
+}
+
+export interface CaptureMetadata {
+  iso: string;
+  shutter: string;
+  lens: string;
+  mode: string;
+  filter?: string;
+  role?: 'LEGATUS' | 'CENTURION';
+  syncOffset?: number;
+  enhanced?: boolean;
+  zoom?: number;
+  flash?: string;
+  location?: CaptureLocation;
+  frameCount?: number;
+  ev?: number;
+  whiteBalance?: number;
+  /** Horizontal desqueeze already applied to the pixels, for anamorphic lenses. */
+  squeeze?: number;
+  /** Simulated f-number of a portrait blur. */
+  aperture?: number;
+  /** Depth value held sharp in a portrait, 1 = subject. */
+  focalPlane?: number;
+  segmentation?: string;
+  /** The camera that took the capture, as reported by enumerateDevices. */
+  deviceId?: string;
+  /** Seconds between time-lapse frames. */
+  interval?: number;
+  /** Total exposure ramp over a time-lapse, in stops. */
+  ramp?: number;
+  /** Seconds of a video recorded before its take was started; synced Legion takes line up at this offset. */
+  preRoll?: number;
+  /** Whether a video was recorded from the graded viewfinder, with grade and burn-ins in the pixels. */
+  processed?: boolean;
+  format?: ClipFormat;
+  /** Seconds into a video of the frame its poster was taken from. */
+  posterTime?: number;
+  /** For a still grabbed from a video: the clip, and the time in seconds it was taken at. */
+  frameOf?: { clipId: string; time: number };
+  audio?: AudioTakeInfo;
+}
+
+export interface CaptureLocation {
+  latitude: number;
+  longitude: number;
+  altitude?: number;
+  accuracy?: number;
 }
 
 export interface GroundingSource {
@@ -43,7 +99,10 @@ export enum CameraMode {
   AI_GENERATE = 'AI_GENERATE',
   LEGION_LINK = 'LEGION_LINK',
   M_PRO = 'M_PRO',
-  PORTRAIT = 'PORTRAIT'
+  PORTRAIT = 'PORTRAIT',
+  PANORAMA = 'PANORAMA',
+  TIME_LAPSE = 'TIME_LAPSE',
+  BURST = 'BURST'
 }
 
 export type LegionRole = 'LEGATUS' | 'CENTURION';
@@ -78,6 +137,14 @@ export enum CameraFilter {
   AURELIUS = 'AURELIUS',
 }
 
+/** A selectable look: a built-in CameraFilter or an imported .cube LUT (id prefixed `lut:`). */
+export interface FilterPreset {
+  id: string;
+  name: string;
+  builtin: boolean;
+  size: number;
+}
+
 export enum LensProfile {
   STANDARD = 'STANDARD',
   ANAMORPHIC_1_33 = 'ANAMORPHIC_1.33x',
@@ -87,6 +154,14 @@ export enum LensProfile {
   TELEPHOTO = 'TELEPHOTO'
 }
 
+/** A camera reported by enumerateDevices, physical or logical. */
+export interface CameraDevice {
+  deviceId: string;
+  groupId: string;
+  label: string;
+  facing: 'front' | 'back' | 'unknown';
+}
+
 export interface ManualConfig {
   iso: number;
   shutter: string;
@@ -94,6 +169,100 @@ export interface ManualConfig {
   wb: number;
   zoom: number;
   flashMode: 'off' | 'on' | 'torch';
+  /** Metres, for manual focus */
+  focus: number;
+  autoExposure: boolean;
+  autoWhiteBalance: boolean;
+  autoFocus: boolean;
+}
+
+export interface TimelapseConfig {
+  /** Seconds between frames */
+  interval: number;
+  /** Whether the run ends on a frame count or a duration */
+  limit: 'frames' | 'duration';
+  frames: number;
+  /** Minutes */
+  duration: number;
+  /** Seconds before the first frame */
+  delay: number;
+  lockExposure: boolean;
+  /** Follows a changing scene (e.g. day to night) in small steps while locked */
+  autoRamp: boolean;
+  /** Playback rate of the assembled clip */
+  fps: number;
+}
+
+export type VideoCodec = 'H264' | 'HEVC' | 'VP9' | 'VP8' | 'AV1';
+
+/** Requested encode settings; the recorder falls back when the device cannot honour them. */
+export interface RecordingProfile {
+  codec: VideoCodec;
+  /** Bits per second */
+  bitrate: number;
+  /** Frame height: 720, 1080 or 2160 */
+  resolution: number;
+  fps: number;
+  /** File the take should end up as; WebM recordings are remuxed when this is MP4 */
+  container: 'mp4' | 'webm';
+}
+
+/** How a clip was actually written, after codec fallback and any remux. */
+export interface ClipFormat {
+  codec?: VideoCodec;
+  mimeType: string;
+  bitrate: number;
+  width?: number;
+  height?: number;
+  fps?: number;
+  /** Recorded as WebM and rewritten to fragmented MP4 on device */
+  remuxed?: boolean;
+}
+
+/** Per-take recording options; burn-ins only apply to processed takes. */
+export interface RecordingConfig {
+  /** Records the graded viewfinder rather than the raw sensor stream */
+  processed: boolean;
+  burnTimecode: boolean;
+  burnRole: boolean;
+  burnGuide: boolean;
+}
+
+export interface AudioConfig {
+  /** Microphone to record from; undefined follows the system default */
+  deviceId?: string;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  /** Also capture an uncompressed WAV track alongside the clip */
+  recordWav: boolean;
+}
+
+/** How a take's audio was captured, as the track reported it. */
+export interface AudioTakeInfo {
+  input?: string;
+  echoCancellation?: boolean;
+  noiseSuppression?: boolean;
+  autoGainControl?: boolean;
+  /** Highest sample peak during the take, in dBFS */
+  peakDb?: number;
+  clipped?: boolean;
+  /** Seconds into the clip at which the WAV track starts */
+  wavOffset?: number;
+}
+
+export type PeakingColor = 'RED' | 'GREEN' | 'CYAN' | 'YELLOW' | 'WHITE';
+
+/** Viewfinder-only exposure and focus assists; never burned into captures. */
+export interface AssistConfig {
+  peaking: boolean;
+  peakingColor: PeakingColor;
+  /** Sobel magnitude on 0..1 luma above which an edge is painted. */
+  peakingThreshold: number;
+  zebra: boolean;
+  /** IRE, 0..100 */
+  zebraLevel: number;
+  falseColor: boolean;
 }
 
 export interface CameraXTelemetry {
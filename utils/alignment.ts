@@ -0,0 +1,94 @@
+import { Plane, RgbaFrame, pyrDown, toLuma } from './imaging';
+
+export interface Translation {
+  dx: number;
+  dy: number;
+  error: number;
+}
+
+interface Bitmaps {
+  threshold: Uint8Array;
+  exclusion: Uint8Array;
+  width: number;
+  height: number;
+}
+
+const EXCLUSION_RANGE = 4 / 255;
+
+const percentile = (plane: Plane, p: number) => {
+  const hist = new Uint32Array(256);
+  for (let i = 0; i < plane.data.length; i++) hist[Math.min(255, Math.max(0, Math.round(plane.data[i] * 255)))]++;
+  const target = plane.data.length * p;
+  let acc = 0;
+  for (let v = 0; v < 256; v++) {
+    acc += hist[v];
+    if (acc >= target) return v / 255;
+  }
+  return 1;
+};
+
+const toBitmaps = (plane: Plane): Bitmaps => {
+  const median = percentile(plane, 0.5);
+  const threshold = new Uint8Array(plane.data.length);
+  const exclusion = new Uint8Array(plane.data.length);
+  for (let i = 0; i < plane.data.length; i++) {
+    const v = plane.data[i];
+    threshold[i] = v > median ? 1 : 0;
+    exclusion[i] = Math.abs(v - median) > EXCLUSION_RANGE ? 1 : 0;
+  }
+  return { threshold, exclusion, width: plane.width, height: plane.height };
+};
+
+const bitmapDifference = (a: Bitmaps, b: Bitmaps, dx: number, dy: number) => {
+  const { width: w, height: h } = a;
+  let count = 0, total = 0;
+  const x0 = Math.max(0, -dx), x1 = Math.min(w, w - dx);
+  const y0 = Math.max(0, -dy), y1 = Math.min(h, h - dy);
+  for (let y = y0; y < y1; y++) {
+    const ra = y * w, rb = (y + dy) * w + dx;
+    for (let x = x0; x < x1; x++) {
+      if (a.exclusion[ra + x] & b.exclusion[rb + x]) {
+        total++;
+        count += a.threshold[ra + x] ^ b.threshold[rb + x];
+      }
+    }
+  }
+  return total > 0 ? count / total : 1;
+};
+
+/**
+ * Median threshold bitmap alignment (Ward 2003). Exposure-invariant, so it works
+ * across a bracket as well as between same-exposure burst frames.
+ * Returns the shift to apply to `target` (output(x, y) = target(x + dx, y + dy)).
+ */
+export const estimateTranslation = (reference: Plane, target: Plane, maxShift = 64): Translation => {
+  const levels = Math.max(1, Math.min(
+    Math.ceil(Math.log2(maxShift)),
+    Math.floor(Math.log2(Math.min(reference.width, reference.height) / 16))
+  ));
+  const refPyramid = [reference];
+  const tgtPyramid = [target];
+  for (let l = 1; l < levels; l++) {
+    refPyramid.push(pyrDown(refPyramid[l - 1]));
+    tgtPyramid.push(pyrDown(tgtPyramid[l - 1]));
+  }
+
+  let dx = 0, dy = 0, error = 1;
+  for (let l = levels - 1; l >= 0; l--) {
+    dx *= 2; dy *= 2;
+    const a = toBitmaps(refPyramid[l]);
+    const b = toBitmaps(tgtPyramid[l]);
+    let best = { dx, dy, error: Infinity };
+    for (let oy = -1; oy <= 1; oy++) {
+      for (let ox = -1; ox <= 1; ox++) {
+        const e = bitmapDifference(a, b, dx + ox, dy + oy);
+        if (e < best.error) best = { dx: dx + ox, dy: dy + oy, error: e };
+      }
+    }
+    dx = best.dx; dy = best.dy; error = best.error;
+  }
+  return { dx, dy, error };
+};
+
+export const estimateFrameTranslation = (reference: RgbaFrame, target: RgbaFrame, maxShift = 64) =>
+  estimateTranslation(toLuma(reference), toLuma(target), maxShift);
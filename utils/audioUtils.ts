@@ -36,3 +36,61 @@ export async function decodeAudioData(
   }
   return buffer;
 }
+
+/** Sample peak and RMS of a block of float samples, both linear in 0..1. */
+export function measureLevels(samples: Float32Array): { peak: number; rms: number } {
+  let peak = 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const v = Math.abs(samples[i]);
+    if (v > peak) peak = v;
+    sum += v * v;
+  }
+  return { peak, rms: samples.length ? Math.sqrt(sum / samples.length) : 0 };
+}
+
+export function toDbfs(level: number): number {
+  return level > 0 ? 20 * Math.log10(level) : -Infinity;
+}
+
+/** Interleaves float channels into 16-bit PCM, clamping anything past full scale. */
+export function floatTo16BitPcm(channels: Float32Array[]): Int16Array {
+  const frameCount = channels[0]?.length ?? 0;
+  const pcm = new Int16Array(frameCount * channels.length);
+  for (let i = 0; i < frameCount; i++) {
+    for (let channel = 0; channel < channels.length; channel++) {
+      const v = Math.max(-1, Math.min(1, channels[channel][i]));
+      pcm[i * channels.length + channel] = v < 0 ? v * 32768 : v * 32767;
+    }
+  }
+  return pcm;
+}
+
+/** A canonical 44-byte-header WAV file around interleaved 16-bit PCM chunks. */
+export function encodeWav(chunks: Int16Array[], sampleRate: number, numChannels: number): Uint8Array {
+  const dataLength = chunks.reduce((n, c) => n + c.byteLength, 0);
+  const out = new Uint8Array(44 + dataLength);
+  const view = new DataView(out.buffer);
+  const tag = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) out[offset + i] = text.charCodeAt(i);
+  };
+  tag(0, 'RIFF');
+  view.setUint32(4, 36 + dataLength, true);
+  tag(8, 'WAVE');
+  tag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * 2, true);
+  view.setUint16(32, numChannels * 2, true);
+  view.setUint16(34, 16, true);
+  tag(36, 'data');
+  view.setUint32(40, dataLength, true);
+  let offset = 44;
+  for (const chunk of chunks) {
+    out.set(new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength), offset);
+    offset += chunk.byteLength;
+  }
+  return out;
+}
@@ -0,0 +1,153 @@
+import { Plane, RgbaFrame, downscaleFrame, resizePlane } from './imaging';
+
+/** Synthetic lens for portrait blur. Depth and focus share the mask's 0..1 scale. */
+export interface BokehSettings {
+  /** Simulated f-number; blur radius scales with 1 / aperture. */
+  aperture: number;
+  /** Depth value that stays sharp (1 = the subject). */
+  focus: number;
+  /** Aperture blade count; 0 draws a round iris. */
+  blades: number;
+  /** Horizontal scale of the iris, below 1 for the oval bokeh of anamorphic glass. */
+  aspect: number;
+}
+
+export const APERTURE_STOPS = [1.4, 2, 2.8, 4, 5.6, 8, 11, 16];
+
+// Circle of confusion at f/1 for a full depth step, as a fraction of the long edge
+const COC_AT_F1 = 0.04;
+const MAX_RINGS = 5;
+const RING_SPACING = 3;
+const HIGHLIGHT_KNEE = 0.7;
+const HIGHLIGHT_GAIN = 4;
+const GAMMA = 2.2;
+// Gather large blurs at up to 1/4 scale, one step per this many pixels of radius
+const MAX_DOWNSCALE = 4;
+const RADIUS_PER_DOWNSCALE = 12;
+
+export const maxCocRadius = (settings: BokehSettings, longEdge: number) => longEdge * COC_AT_F1 / settings.aperture;
+
+/**
+ * Tap offsets inside a unit iris: concentric rings shaped by the blade polygon and
+ * squeezed horizontally by aspect. Returned as interleaved [x, y, distance] triples.
+ */
+export const irisKernel = (blades: number, aspect: number, rings: number): Float32Array => {
+  const taps: number[] = [0, 0, 0];
+  const sector = blades >= 3 ? (Math.PI * 2) / blades : 0;
+  for (let ring = 1; ring <= rings; ring++) {
+    const count = ring * 6;
+    const rho = ring / rings;
+    for (let k = 0; k < count; k++) {
+      const theta = (k / count) * Math.PI * 2 + (ring % 2) * (Math.PI / count);
+      const edge = sector ? Math.cos(sector / 2) / Math.cos((theta % sector) - sector / 2) : 1;
+      const x = Math.cos(theta) * rho * edge * aspect;
+      const y = Math.sin(theta) * rho * edge;
+      taps.push(x, y, Math.hypot(x, y));
+    }
+  }
+  return Float32Array.from(taps);
+};
+
+const cocPlane = (depth: Plane, settings: BokehSettings, maxRadius: number) => {
+  const coc = new Float32Array(depth.data.length);
+  for (let p = 0; p < coc.length; p++) coc[p] = maxRadius * Math.abs(depth.data[p] - settings.focus);
+  return coc;
+};
+
+/**
+ * Scatter-as-gather: each pixel averages taps across its own circle of confusion,
+ * keeping only samples whose own blur would reach it, so sharp subject pixels never
+ * bleed into the blurred background. Averaging happens in linear light with a
+ * highlight boost so specular points bloom into iris-shaped discs.
+ */
+const gatherBokeh = (frame: RgbaFrame, coc: Float32Array, settings: BokehSettings): RgbaFrame => {
+  const { data, width, height } = frame;
+  const total = width * height;
+  const toLinear = new Float32Array(256);
+  for (let v = 0; v < 256; v++) toLinear[v] = Math.pow(v / 255, GAMMA);
+  const linear = new Float32Array(total * 3);
+  const boost = new Float32Array(total);
+  for (let p = 0, i = 0; p < total; p++, i += 4) {
+    const r = toLinear[data[i]], g = toLinear[data[i + 1]], b = toLinear[data[i + 2]];
+    linear[p * 3] = r; linear[p * 3 + 1] = g; linear[p * 3 + 2] = b;
+    const luma = r * 0.2126 + g * 0.7152 + b * 0.0722;
+    boost[p] = 1 + HIGHLIGHT_GAIN * Math.max(0, luma - HIGHLIGHT_KNEE) / (1 - HIGHLIGHT_KNEE);
+  }
+
+  const kernels = Array.from({ length: MAX_RINGS }, (_, i) => irisKernel(settings.blades, settings.aspect, i + 1));
+  const out = new Uint8ClampedArray(data.length);
+  const invGamma = 1 / GAMMA;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const o = p * 4;
+      const radius = coc[p];
+      if (radius < 0.5) {
+        out[o] = data[o]; out[o + 1] = data[o + 1]; out[o + 2] = data[o + 2]; out[o + 3] = 255;
+        continue;
+      }
+      const kernel = kernels[Math.min(MAX_RINGS, Math.ceil(radius / RING_SPACING)) - 1];
+      let r = 0, g = 0, b = 0, weight = 0;
+      for (let t = 0; t < kernel.length; t += 3) {
+        const sx = Math.min(width - 1, Math.max(0, Math.round(x + kernel[t] * radius)));
+        const sy = Math.min(height - 1, Math.max(0, Math.round(y + kernel[t + 1] * radius)));
+        const q = sy * width + sx;
+        if (t > 0 && coc[q] < kernel[t + 2] * radius - 0.5) continue;
+        const w = boost[q];
+        r += linear[q * 3] * w; g += linear[q * 3 + 1] * w; b += linear[q * 3 + 2] * w;
+        weight += w;
+      }
+      out[o] = Math.pow(r / weight, invGamma) * 255;
+      out[o + 1] = Math.pow(g / weight, invGamma) * 255;
+      out[o + 2] = Math.pow(b / weight, invGamma) * 255;
+      out[o + 3] = 255;
+    }
+  }
+  return { data: out, width, height };
+};
+
+/**
+ * Portrait depth of field. Large blurs are gathered on a downscaled copy, where the
+ * same disc costs a fraction of the taps, and composited back over the sharp frame
+ * by circle of confusion so in-focus detail keeps full resolution.
+ */
+export const renderBokeh = (frame: RgbaFrame, depthMask: Plane, settings: BokehSettings): RgbaFrame => {
+  const { data, width, height } = frame;
+  const longEdge = Math.max(width, height);
+  const maxRadius = maxCocRadius(settings, longEdge);
+  const factor = Math.min(MAX_DOWNSCALE, Math.max(1, Math.floor(maxRadius / RADIUS_PER_DOWNSCALE)));
+  const fullCoc = cocPlane(resizePlane(depthMask, width, height), settings, maxRadius);
+  if (factor === 1) return gatherBokeh(frame, fullCoc, settings);
+
+  const low = downscaleFrame(frame, Math.round(longEdge / factor));
+  const lowCoc = cocPlane(resizePlane(depthMask, low.width, low.height), settings, maxRadius * low.width / width);
+  const blurred = gatherBokeh(low, lowCoc, settings).data;
+  const sx = low.width / width, sy = low.height / height;
+  const out = new Uint8ClampedArray(data.length);
+
+  for (let y = 0; y < height; y++) {
+    const fy = Math.min(low.height - 1, Math.max(0, (y + 0.5) * sy - 0.5));
+    const y0 = Math.floor(fy), y1 = Math.min(low.height - 1, y0 + 1), ty = fy - y0;
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const o = p * 4;
+      const blend = Math.min(1, Math.max(0, (fullCoc[p] - 0.5) / (factor * 1.5)));
+      if (blend === 0) {
+        out[o] = data[o]; out[o + 1] = data[o + 1]; out[o + 2] = data[o + 2]; out[o + 3] = 255;
+        continue;
+      }
+      const fx = Math.min(low.width - 1, Math.max(0, (x + 0.5) * sx - 0.5));
+      const x0 = Math.floor(fx), x1 = Math.min(low.width - 1, x0 + 1), tx = fx - x0;
+      const a = (y0 * low.width + x0) * 4, b = (y0 * low.width + x1) * 4;
+      const c = (y1 * low.width + x0) * 4, d = (y1 * low.width + x1) * 4;
+      for (let ch = 0; ch < 3; ch++) {
+        const top = blurred[a + ch] * (1 - tx) + blurred[b + ch] * tx;
+        const bottom = blurred[c + ch] * (1 - tx) + blurred[d + ch] * tx;
+        out[o + ch] = data[o + ch] * (1 - blend) + (top * (1 - ty) + bottom * ty) * blend;
+      }
+      out[o + 3] = 255;
+    }
+  }
+  return { data: out, width, height };
+};
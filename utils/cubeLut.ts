@@ -0,0 +1,116 @@
+import { RgbaFrame } from './imaging';
+
+export interface Lut3D {
+  title: string;
+  size: number;
+  domainMin: [number, number, number];
+  domainMax: [number, number, number];
+  /** RGB triplets, red varying fastest, as laid out in .cube files. */
+  data: Float32Array;
+}
+
+const MAX_LUT_SIZE = 128;
+
+export const parseCube = (text: string, fallbackTitle = 'Imported LUT'): Lut3D => {
+  let title = fallbackTitle;
+  let size = 0;
+  let domainMin: [number, number, number] = [0, 0, 0];
+  let domainMax: [number, number, number] = [1, 1, 1];
+  let data: Float32Array | null = null;
+  let count = 0;
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) continue;
+    const [keyword, ...rest] = line.split(/\s+/);
+
+    if (keyword === 'TITLE') {
+      title = line.slice(5).trim().replace(/^"|"$/g, '') || title;
+    } else if (keyword === 'LUT_3D_SIZE') {
+      size = parseInt(rest[0]);
+      if (!(size >= 2 && size <= MAX_LUT_SIZE)) throw new Error(`Unsupported LUT_3D_SIZE ${rest[0]}.`);
+      data = new Float32Array(size * size * size * 3);
+    } else if (keyword === 'LUT_1D_SIZE') {
+      throw new Error('1D LUTs are not supported; export a 3D .cube instead.');
+    } else if (keyword === 'DOMAIN_MIN') {
+      domainMin = rest.slice(0, 3).map(parseFloat) as [number, number, number];
+    } else if (keyword === 'DOMAIN_MAX') {
+      domainMax = rest.slice(0, 3).map(parseFloat) as [number, number, number];
+    } else if (/^[-+.\d]/.test(keyword)) {
+      if (!data) throw new Error('LUT data found before LUT_3D_SIZE.');
+      if (count >= data.length) throw new Error('LUT has more entries than LUT_3D_SIZE declares.');
+      const values = [keyword, ...rest].slice(0, 3).map(parseFloat);
+      if (values.length < 3 || values.some(isNaN)) throw new Error(`Malformed LUT entry "${line}".`);
+      data.set(values, count);
+      count += 3;
+    }
+  }
+
+  if (!data) throw new Error('Missing LUT_3D_SIZE.');
+  if (count !== data.length) throw new Error(`LUT is truncated: expected ${data.length / 3} entries, found ${count / 3}.`);
+  return { title, size, domainMin, domainMax, data };
+};
+
+export const serializeCube = (lut: Lut3D): string => {
+  const lines = [
+    `TITLE "${lut.title}"`,
+    `LUT_3D_SIZE ${lut.size}`,
+    `DOMAIN_MIN ${lut.domainMin.join(' ')}`,
+    `DOMAIN_MAX ${lut.domainMax.join(' ')}`,
+  ];
+  for (let i = 0; i < lut.data.length; i += 3) {
+    lines.push(`${lut.data[i].toFixed(6)} ${lut.data[i + 1].toFixed(6)} ${lut.data[i + 2].toFixed(6)}`);
+  }
+  return lines.join('\n') + '\n';
+};
+
+export const lutFromFunction = (
+  title: string,
+  size: number,
+  fn: (r: number, g: number, b: number) => [number, number, number]
+): Lut3D => {
+  const data = new Float32Array(size * size * size * 3);
+  let i = 0;
+  for (let b = 0; b < size; b++) {
+    for (let g = 0; g < size; g++) {
+      for (let r = 0; r < size; r++) {
+        const out = fn(r / (size - 1), g / (size - 1), b / (size - 1));
+        data[i++] = out[0]; data[i++] = out[1]; data[i++] = out[2];
+      }
+    }
+  }
+  return { title, size, domainMin: [0, 0, 0], domainMax: [1, 1, 1], data };
+};
+
+/** Trilinear CPU path for devices without WebGL2; `intensity` blends toward the source. */
+export const applyLutToFrame = (frame: RgbaFrame, lut: Lut3D, intensity = 1): RgbaFrame => {
+  const { size, data: table, domainMin, domainMax } = lut;
+  const max = size - 1;
+  const out = new Uint8ClampedArray(frame.data.length);
+  const src = frame.data;
+  const norm = [0, 1, 2].map(c => 1 / (domainMax[c] - domainMin[c]));
+  const idx = (r: number, g: number, b: number) => ((b * size + g) * size + r) * 3;
+
+  for (let i = 0; i < src.length; i += 4) {
+    const rf = Math.min(1, Math.max(0, (src[i] / 255 - domainMin[0]) * norm[0])) * max;
+    const gf = Math.min(1, Math.max(0, (src[i + 1] / 255 - domainMin[1]) * norm[1])) * max;
+    const bf = Math.min(1, Math.max(0, (src[i + 2] / 255 - domainMin[2]) * norm[2])) * max;
+    const r0 = Math.floor(rf), g0 = Math.floor(gf), b0 = Math.floor(bf);
+    const r1 = Math.min(max, r0 + 1), g1 = Math.min(max, g0 + 1), b1 = Math.min(max, b0 + 1);
+    const fr = rf - r0, fg = gf - g0, fb = bf - b0;
+
+    for (let c = 0; c < 3; c++) {
+      const c000 = table[idx(r0, g0, b0) + c], c100 = table[idx(r1, g0, b0) + c];
+      const c010 = table[idx(r0, g1, b0) + c], c110 = table[idx(r1, g1, b0) + c];
+      const c001 = table[idx(r0, g0, b1) + c], c101 = table[idx(r1, g0, b1) + c];
+      const c011 = table[idx(r0, g1, b1) + c], c111 = table[idx(r1, g1, b1) + c];
+      const c00 = c000 + (c100 - c000) * fr, c10 = c010 + (c110 - c010) * fr;
+      const c01 = c001 + (c101 - c001) * fr, c11 = c011 + (c111 - c011) * fr;
+      const c0 = c00 + (c10 - c00) * fg, c1 = c01 + (c11 - c01) * fg;
+      const graded = (c0 + (c1 - c0) * fb) * 255;
+      out[i + c] = src[i + c] + (graded - src[i + c]) * intensity;
+    }
+    out[i + 3] = 255;
+  }
+  return { data: out, width: frame.width, height: frame.height };
+};
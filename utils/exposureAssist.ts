@@ -0,0 +1,84 @@
+import { AssistConfig, PeakingColor } from '../types';
+import { RgbaFrame } from './imaging';
+
+export const PEAKING_COLORS: Record<PeakingColor, [number, number, number]> = {
+  RED: [1, 0.15, 0.15],
+  GREEN: [0.2, 1, 0.3],
+  CYAN: [0.13, 0.83, 0.93],
+  YELLOW: [1, 0.85, 0.1],
+  WHITE: [1, 1, 1],
+};
+
+// ARRI-style false color: each band paints a luma range (0..1) a signal color; gaps show grey
+export const FALSE_COLOR_BANDS: { max: number; color: [number, number, number] | null }[] = [
+  { max: 0.025, color: [0.5, 0, 0.6] },
+  { max: 0.04, color: [0.1, 0.3, 1] },
+  { max: 0.38, color: null },
+  { max: 0.42, color: [0.2, 0.8, 0.2] },
+  { max: 0.52, color: null },
+  { max: 0.56, color: [1, 0.5, 0.7] },
+  { max: 0.97, color: null },
+  { max: 0.99, color: [1, 0.9, 0] },
+  { max: Infinity, color: [1, 0, 0] },
+];
+
+export const ZEBRA_PERIOD = 8;
+
+export const hasAssists = (assists: AssistConfig) => assists.peaking || assists.zebra || assists.falseColor;
+
+/** GLSL for `vec3 falseColor(float y)`, generated from the band table so GPU and CPU agree. */
+export const falseColorGlsl = () => {
+  const branches = FALSE_COLOR_BANDS.map(({ max, color }) => {
+    const value = color ? `vec3(${color.map(c => c.toFixed(3)).join(', ')})` : 'vec3(y * 0.6)';
+    return isFinite(max) ? `  if (y < ${max.toFixed(3)}) return ${value};` : `  return ${value};`;
+  });
+  return `vec3 falseColor(float y) {\n${branches.join('\n')}\n}`;
+};
+
+const falseColor = (y: number): [number, number, number] => {
+  const band = FALSE_COLOR_BANDS.find(b => y < b.max)!;
+  return band.color ?? [y * 0.6, y * 0.6, y * 0.6];
+};
+
+/**
+ * CPU overlay for devices without WebGL2: writes an RGBA layer that is transparent
+ * wherever no assist fires, so it can sit over the graded preview.
+ */
+export const renderAssistOverlay = (frame: RgbaFrame, assists: AssistConfig, out: Uint8ClampedArray) => {
+  const { data, width, height } = frame;
+  const luma = new Float32Array(width * height);
+  for (let p = 0, i = 0; p < luma.length; p++, i += 4) {
+    luma[p] = (data[i] * 0.2126 + data[i + 1] * 0.7152 + data[i + 2] * 0.0722) / 255;
+  }
+  const zebraLevel = assists.zebraLevel / 100;
+  const peak = PEAKING_COLORS[assists.peakingColor];
+  const thresholdSq = assists.peakingThreshold * assists.peakingThreshold;
+  out.fill(0);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      const o = p * 4;
+      const v = luma[p];
+      let color: [number, number, number] | null = null;
+
+      if (assists.falseColor) color = falseColor(v);
+      if (assists.zebra && v >= zebraLevel && (x + y) % ZEBRA_PERIOD < ZEBRA_PERIOD / 2) color = [0, 0, 0];
+      if (assists.peaking && x > 0 && y > 0 && x < width - 1 && y < height - 1) {
+        const tl = luma[p - width - 1], t = luma[p - width], tr = luma[p - width + 1];
+        const l = luma[p - 1], r = luma[p + 1];
+        const bl = luma[p + width - 1], b = luma[p + width], br = luma[p + width + 1];
+        const gx = tr + 2 * r + br - tl - 2 * l - bl;
+        const gy = bl + 2 * b + br - tl - 2 * t - tr;
+        if (gx * gx + gy * gy > thresholdSq) color = peak;
+      }
+
+      if (color) {
+        out[o] = color[0] * 255;
+        out[o + 1] = color[1] * 255;
+        out[o + 2] = color[2] * 255;
+        out[o + 3] = 255;
+      }
+    }
+  }
+};
@@ -0,0 +1,75 @@
+import {
+  RgbaFrame, Plane, channel, collapsePyramid, fromChannels, gaussianPyramid, laplacianPyramid, pyramidLevels, toLuma
+} from './imaging';
+
+export interface FusionWeights {
+  contrast: number;
+  saturation: number;
+  exposure: number;
+}
+
+const DEFAULT_WEIGHTS: FusionWeights = { contrast: 1, saturation: 1, exposure: 1 };
+const EXPOSURE_SIGMA = 0.2;
+
+const qualityMap = (frame: RgbaFrame, w: FusionWeights): Plane => {
+  const { data, width, height } = frame;
+  const luma = toLuma(frame).data;
+  const out = new Float32Array(width * height);
+  const twoSigmaSq = 2 * EXPOSURE_SIGMA * EXPOSURE_SIGMA;
+
+  for (let y = 0; y < height; y++) {
+    const up = Math.max(0, y - 1) * width, row = y * width, down = Math.min(height - 1, y + 1) * width;
+    for (let x = 0; x < width; x++) {
+      const p = row + x;
+      const left = row + Math.max(0, x - 1), right = row + Math.min(width - 1, x + 1);
+      const contrast = Math.abs(luma[up + x] + luma[down + x] + luma[left] + luma[right] - 4 * luma[p]);
+
+      const i = p * 4;
+      const r = data[i] / 255, g = data[i + 1] / 255, b = data[i + 2] / 255;
+      const mean = (r + g + b) / 3;
+      const saturation = Math.sqrt(((r - mean) ** 2 + (g - mean) ** 2 + (b - mean) ** 2) / 3);
+      const exposure = Math.exp(-((r - 0.5) ** 2) / twoSigmaSq) *
+        Math.exp(-((g - 0.5) ** 2) / twoSigmaSq) *
+        Math.exp(-((b - 0.5) ** 2) / twoSigmaSq);
+
+      out[p] = Math.pow(contrast, w.contrast) * Math.pow(saturation, w.saturation) * Math.pow(exposure, w.exposure) + 1e-12;
+    }
+  }
+  return { data: out, width, height };
+};
+
+/**
+ * Mertens–Kautz–Van Reeth exposure fusion: per-pixel quality weights blended
+ * through Laplacian pyramids, so no HDR radiance map or tone mapping is needed.
+ * Frames must be pre-aligned and share dimensions.
+ */
+export const fuseExposures = (frames: RgbaFrame[], weights: FusionWeights = DEFAULT_WEIGHTS): RgbaFrame => {
+  const { width, height } = frames[0];
+  const levels = pyramidLevels(width, height);
+
+  const maps = frames.map(f => qualityMap(f, weights));
+  for (let p = 0; p < width * height; p++) {
+    let sum = 0;
+    for (const m of maps) sum += m.data[p];
+    for (const m of maps) m.data[p] /= sum;
+  }
+
+  const blended: Plane[][] = [];
+  frames.forEach((frame, k) => {
+    const weightPyramid = gaussianPyramid(maps[k], levels);
+    for (let c = 0; c < 3; c++) {
+      const lap = laplacianPyramid(channel(frame, c), levels);
+      if (!blended[c]) {
+        blended[c] = lap.map(l => ({ data: new Float32Array(l.data.length), width: l.width, height: l.height }));
+      }
+      lap.forEach((l, level) => {
+        const acc = blended[c][level].data;
+        const wgt = weightPyramid[level].data;
+        for (let i = 0; i < acc.length; i++) acc[i] += wgt[i] * l.data[i];
+      });
+    }
+  });
+
+  const [r, g, b] = blended.map(collapsePyramid);
+  return fromChannels(r, g, b);
+};
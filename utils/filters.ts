@@ -0,0 +1,75 @@
+import { CameraFilter } from '../types';
+import { Lut3D, lutFromFunction } from './cubeLut';
+
+// Recipes for the built-in looks, written in CSS filter syntax and baked into
+// LUTs by evaluating the Filter Effects color matrices directly.
+export const FILTER_MAPPING: Record<CameraFilter, string> = {
+  [CameraFilter.NONE]: 'none',
+  [CameraFilter.VINTAGE_ROMA]: 'sepia(0.6) contrast(1.1) brightness(0.9) saturate(0.8)',
+  [CameraFilter.IMPERIAL_MONO]: 'grayscale(1) contrast(1.2) brightness(1.1)',
+  [CameraFilter.NEURAL_VIBRANCE]: 'saturate(1.8) contrast(1.1) brightness(1.05)',
+  [CameraFilter.CYBER_LATIUM]: 'hue-rotate(180deg) saturate(1.4) contrast(1.2) brightness(0.8)',
+  [CameraFilter.GLOAMING]: 'contrast(1.1) brightness(0.8) sepia(0.3) saturate(1.5)',
+  [CameraFilter.MARBLE_STATUE]: 'grayscale(0.4) contrast(0.9) brightness(1.2) saturate(0.2)',
+  [CameraFilter.AURELIUS]: 'contrast(1.1) saturate(1.2) brightness(1.05) sepia(0.1)',
+};
+
+export const BUILTIN_LUT_SIZE = 33;
+
+type Rgb = [number, number, number];
+type ColorOp = (c: Rgb) => Rgb;
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+const matrixOp = (m: number[]): ColorOp => ([r, g, b]) => [
+  clamp01(m[0] * r + m[1] * g + m[2] * b),
+  clamp01(m[3] * r + m[4] * g + m[5] * b),
+  clamp01(m[6] * r + m[7] * g + m[8] * b),
+];
+
+const OPS: Record<string, (amount: number) => ColorOp> = {
+  brightness: a => c => c.map(v => clamp01(v * a)) as Rgb,
+  contrast: a => c => c.map(v => clamp01((v - 0.5) * a + 0.5)) as Rgb,
+  grayscale: a => {
+    const s = 1 - Math.min(1, a);
+    return matrixOp([
+      0.2126 + 0.7874 * s, 0.7152 - 0.7152 * s, 0.0722 - 0.0722 * s,
+      0.2126 - 0.2126 * s, 0.7152 + 0.2848 * s, 0.0722 - 0.0722 * s,
+      0.2126 - 0.2126 * s, 0.7152 - 0.7152 * s, 0.0722 + 0.9278 * s,
+    ]);
+  },
+  sepia: a => {
+    const s = 1 - Math.min(1, a);
+    return matrixOp([
+      0.393 + 0.607 * s, 0.769 - 0.769 * s, 0.189 - 0.189 * s,
+      0.349 - 0.349 * s, 0.686 + 0.314 * s, 0.168 - 0.168 * s,
+      0.272 - 0.272 * s, 0.534 - 0.534 * s, 0.131 + 0.869 * s,
+    ]);
+  },
+  saturate: s => matrixOp([
+    0.213 + 0.787 * s, 0.715 - 0.715 * s, 0.072 - 0.072 * s,
+    0.213 - 0.213 * s, 0.715 + 0.285 * s, 0.072 - 0.072 * s,
+    0.213 - 0.213 * s, 0.715 - 0.715 * s, 0.072 + 0.928 * s,
+  ]),
+  'hue-rotate': deg => {
+    const rad = deg * Math.PI / 180;
+    const cos = Math.cos(rad), sin = Math.sin(rad);
+    return matrixOp([
+      0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928,
+      0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.140, 0.072 - cos * 0.072 - sin * 0.283,
+      0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072,
+    ]);
+  },
+};
+
+const parseFilterRecipe = (recipe: string): ColorOp[] =>
+  Array.from(recipe.matchAll(/([a-z-]+)\(([-\d.]+)(deg)?\)/g)).map(([, name, amount]) => {
+    const op = OPS[name];
+    if (!op) throw new Error(`Unsupported filter function ${name}`);
+    return op(parseFloat(amount));
+  });
+
+export const bakeFilterLut = (filter: CameraFilter, size = BUILTIN_LUT_SIZE): Lut3D => {
+  const ops = parseFilterRecipe(FILTER_MAPPING[filter]);
+  return lutFromFunction(filter, size, (r, g, b) => ops.reduce<Rgb>((c, op) => op(c), [r, g, b]));
+};
@@ -0,0 +1,77 @@
+import { estimateTranslation } from './alignment';
+import { Plane, RgbaFrame, toLuma } from './imaging';
+import { HistogramData, computeHistogram, computeVectorscope, computeWaveform, paintDensity } from './scopes';
+
+export type TraceKind = 'waveform' | 'parade' | 'vectorscope';
+
+/** What a frame-tap subscriber wants, how often, and at what sampling size. */
+export type TapSpec =
+  | { kind: 'histogram'; fps: number; maxEdge: number }
+  | { kind: TraceKind; fps: number; maxEdge: number; width: number; height: number }
+  | { kind: 'motion'; fps: number; maxEdge: number }
+  | { kind: 'jpeg'; fps: number; maxEdge: number; quality: number };
+
+export type TapResult =
+  | { kind: 'histogram'; histogram: HistogramData }
+  | { kind: 'trace'; image: RgbaFrame }
+  | { kind: 'motion'; score: number; dx: number; dy: number }
+  | { kind: 'jpeg'; base64: string };
+
+const CHANNEL_COLORS: [number, number, number][] = [[255, 70, 70], [70, 255, 110], [80, 140, 255]];
+const TRACE_COLOR: [number, number, number] = [190, 255, 210];
+const MOTION_MAX_SHIFT = 16;
+
+/** Renders a waveform, RGB parade or vectorscope trace as an RGBA image of the given size. */
+export const renderTrace = (frame: RgbaFrame, kind: TraceKind, width: number, height: number): RgbaFrame => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  const total = frame.width * frame.height;
+  if (kind === 'parade') {
+    const columns = Math.floor(width / 3);
+    [0, 1, 2].forEach(c => {
+      const density = computeWaveform(frame, columns, height, c as 0 | 1 | 2);
+      paintDensity(density, columns, height, data, width, c * columns, CHANNEL_COLORS[c], total / columns / height);
+    });
+  } else if (kind === 'waveform') {
+    const density = computeWaveform(frame, width, height, 'luma');
+    paintDensity(density, width, height, data, width, 0, TRACE_COLOR, total / width / height);
+  } else {
+    const density = computeVectorscope(frame, width);
+    paintDensity(density, width, width, data, width, 0, TRACE_COLOR, total / (width * width) * 4);
+  }
+  return { data, width, height };
+};
+
+/**
+ * Global motion between two luma planes: mean absolute difference (0..1) and the
+ * dominant translation, with dx/dy the offset that maps the current frame onto the previous one.
+ */
+export const measureMotion = (previous: Plane, current: Plane) => {
+  let diff = 0;
+  for (let i = 0; i < current.data.length; i++) diff += Math.abs(current.data[i] - previous.data[i]);
+  const { dx, dy } = estimateTranslation(previous, current, MOTION_MAX_SHIFT);
+  return { score: diff / current.data.length, dx, dy };
+};
+
+/**
+ * Pixel analyses shared by the frame-tap worker and its main-thread fallback.
+ * `previous` carries per-subscriber state (the last luma plane for motion).
+ */
+export const analyzeFrame = (
+  frame: RgbaFrame, spec: TapSpec, previous?: Plane
+): { result: TapResult | null; plane?: Plane } => {
+  switch (spec.kind) {
+    case 'histogram':
+      return { result: { kind: 'histogram', histogram: computeHistogram(frame) } };
+    case 'waveform':
+    case 'parade':
+    case 'vectorscope':
+      return { result: { kind: 'trace', image: renderTrace(frame, spec.kind, spec.width, spec.height) } };
+    case 'motion': {
+      const plane = toLuma(frame);
+      const sameSize = previous && previous.width === plane.width && previous.height === plane.height;
+      return { result: sameSize ? { kind: 'motion', ...measureMotion(previous, plane) } : null, plane };
+    }
+    case 'jpeg':
+      throw new Error('JPEG taps are encoded by the caller');
+  }
+};
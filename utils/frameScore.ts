@@ -0,0 +1,64 @@
+import { RgbaFrame, toLuma } from './imaging';
+
+export interface FrameScore {
+  /** Variance of the Laplacian on 0..1 luma */
+  sharpness: number;
+  /** Gradient coherence: 0 for edges in every direction, toward 1 as motion smears them into one */
+  motionBlur: number;
+  /** 0..1, penalising clipped shadows and highlights and a mean far from mid-grey */
+  exposure: number;
+}
+
+const CLIP_LOW = 0.02;
+const CLIP_HIGH = 0.98;
+const TARGET_MEAN = 0.45;
+// A frame this many stops of Laplacian variance below the burst's sharpest rates zero
+const SHARPNESS_RANGE = 3;
+
+export const scoreFrame = (frame: RgbaFrame): FrameScore => {
+  const { data, width, height } = toLuma(frame);
+  let sum = 0, clipped = 0;
+  for (let p = 0; p < data.length; p++) {
+    sum += data[p];
+    if (data[p] <= CLIP_LOW || data[p] >= CLIP_HIGH) clipped++;
+  }
+  const mean = sum / data.length;
+
+  let lapSum = 0, lapSq = 0, jxx = 0, jyy = 0, jxy = 0, n = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1, p = y * width + 1; x < width - 1; x++, p++) {
+      const lap = data[p - 1] + data[p + 1] + data[p - width] + data[p + width] - 4 * data[p];
+      lapSum += lap;
+      lapSq += lap * lap;
+      const gx = data[p + 1] - data[p - 1];
+      const gy = data[p + width] - data[p - width];
+      jxx += gx * gx;
+      jyy += gy * gy;
+      jxy += gx * gy;
+      n++;
+    }
+  }
+  const lapMean = n ? lapSum / n : 0;
+  const sharpness = n ? lapSq / n - lapMean * lapMean : 0;
+  const trace = jxx + jyy;
+  const motionBlur = trace > 0 ? Math.sqrt((jxx - jyy) ** 2 + 4 * jxy * jxy) / trace : 0;
+  const exposure = Math.max(0, 1 - (4 * clipped) / data.length) * (1 - 0.5 * Math.min(1, Math.abs(mean - TARGET_MEAN) / TARGET_MEAN));
+
+  return { sharpness, motionBlur, exposure };
+};
+
+/**
+ * Rates each frame of a burst 0..1 against the rest of the burst: sharpness on a log
+ * scale relative to the sharpest frame, less any extra smear over the steadiest frame,
+ * times exposure. Ratings are only comparable within one burst.
+ */
+export const rateBurst = (scores: FrameScore[]): number[] => {
+  if (scores.length === 0) return [];
+  const best = Math.max(1e-9, ...scores.map(s => s.sharpness));
+  const steadiest = Math.min(...scores.map(s => s.motionBlur));
+  return scores.map(s => {
+    const sharp = Math.max(0, 1 + Math.log2(Math.max(s.sharpness, 1e-12) / best) / SHARPNESS_RANGE);
+    const steady = 1 - Math.min(1, 2 * Math.max(0, s.motionBlur - steadiest));
+    return sharp * steady * s.exposure;
+  });
+};
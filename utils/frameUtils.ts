@@ -0,0 +1,86 @@
+import { Plane, RgbaFrame } from './imaging';
+import { loadImage } from './mediaUtils';
+
+let scratch: HTMLCanvasElement | null = null;
+
+const getScratch = (width: number, height: number) => {
+  if (!scratch) scratch = document.createElement('canvas');
+  if (scratch.width !== width) scratch.width = width;
+  if (scratch.height !== height) scratch.height = height;
+  return scratch;
+};
+
+const drawFrame = (source: CanvasImageSource, srcWidth: number, srcHeight: number, maxEdge: number): RgbaFrame => {
+  const scale = Math.min(1, maxEdge / Math.max(srcWidth, srcHeight));
+  const width = Math.max(1, Math.round(srcWidth * scale));
+  const height = Math.max(1, Math.round(srcHeight * scale));
+  const ctx = getScratch(width, height).getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas unavailable');
+  ctx.drawImage(source, 0, 0, width, height);
+  const image = ctx.getImageData(0, 0, width, height);
+  return { data: image.data, width, height };
+};
+
+/** Draws the current video frame into RGBA pixels, downscaled so the long edge fits maxEdge. */
+export const grabFrame = (video: HTMLVideoElement, maxEdge = Infinity): RgbaFrame =>
+  drawFrame(video, video.videoWidth, video.videoHeight, maxEdge);
+
+export const canvasToFrame = (canvas: HTMLCanvasElement, maxEdge = Infinity): RgbaFrame =>
+  drawFrame(canvas, canvas.width, canvas.height, maxEdge);
+
+export const loadFrame = async (url: string, maxEdge = Infinity): Promise<RgbaFrame> => {
+  const img = await loadImage(url);
+  return drawFrame(img, img.naturalWidth, img.naturalHeight, maxEdge);
+};
+
+export const frameToDataUrl = (frame: RgbaFrame, quality = 0.92): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = frame.width;
+  canvas.height = frame.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas unavailable');
+  const image = ctx.createImageData(frame.width, frame.height);
+  image.data.set(frame.data);
+  ctx.putImageData(image, 0, 0);
+  return canvas.toDataURL('image/jpeg', quality);
+};
+
+/** Encodes a 0..1 plane (masks, depth) as a lossless greyscale PNG. */
+export const planeToDataUrl = (plane: Plane): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = plane.width;
+  canvas.height = plane.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas unavailable');
+  const image = ctx.createImageData(plane.width, plane.height);
+  for (let p = 0, i = 0; p < plane.data.length; p++, i += 4) {
+    const v = plane.data[p] * 255;
+    image.data[i] = v; image.data[i + 1] = v; image.data[i + 2] = v; image.data[i + 3] = 255;
+  }
+  ctx.putImageData(image, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+/** Decodes a greyscale image back into a 0..1 plane, optionally resized to width x height. */
+export const loadPlane = async (url: string, width?: number, height?: number): Promise<Plane> => {
+  const img = await loadImage(url);
+  const frame = width && height
+    ? drawFrame(img, width, height, Infinity)
+    : drawFrame(img, img.naturalWidth, img.naturalHeight, Infinity);
+  const data = new Float32Array(frame.width * frame.height);
+  for (let p = 0, i = 0; p < data.length; p++, i += 4) data[p] = frame.data[i] / 255;
+  return { data, width: frame.width, height: frame.height };
+};
+
+/** Resolves after `count` new frames have been presented by the video element. */
+export const waitForFrames = (video: HTMLVideoElement, count = 1): Promise<void> =>
+  new Promise(resolve => {
+    let remaining = count;
+    const v = video as HTMLVideoElement & { requestVideoFrameCallback?: (cb: () => void) => number };
+    const tick = () => {
+      if (--remaining <= 0) resolve();
+      else schedule();
+    };
+    const schedule = () => v.requestVideoFrameCallback ? v.requestVideoFrameCallback(tick) : requestAnimationFrame(tick);
+    schedule();
+  });
@@ -0,0 +1,215 @@
+// Planar float helpers shared by the on-device stacking, fusion and stitching pipelines.
+// Everything here is DOM-free so it can run inside workers.
+
+export interface RgbaFrame {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+export interface Plane {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+export const toLuma = (frame: RgbaFrame): Plane => {
+  const { data, width, height } = frame;
+  const out = new Float32Array(width * height);
+  for (let i = 0, p = 0; p < out.length; i += 4, p++) {
+    out[p] = (data[i] * 0.2126 + data[i + 1] * 0.7152 + data[i + 2] * 0.0722) / 255;
+  }
+  return { data: out, width, height };
+};
+
+export const channel = (frame: RgbaFrame, c: number): Plane => {
+  const { data, width, height } = frame;
+  const out = new Float32Array(width * height);
+  for (let i = c, p = 0; p < out.length; i += 4, p++) out[p] = data[i] / 255;
+  return { data: out, width, height };
+};
+
+export const fromChannels = (r: Plane, g: Plane, b: Plane): RgbaFrame => {
+  const { width, height } = r;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let p = 0, i = 0; p < width * height; p++, i += 4) {
+    data[i] = r.data[p] * 255;
+    data[i + 1] = g.data[p] * 255;
+    data[i + 2] = b.data[p] * 255;
+    data[i + 3] = 255;
+  }
+  return { data, width, height };
+};
+
+/** Box-downscales an RGBA frame so its longest edge fits maxEdge. */
+export const downscaleFrame = (frame: RgbaFrame, maxEdge: number): RgbaFrame => {
+  const scale = Math.min(1, maxEdge / Math.max(frame.width, frame.height));
+  if (scale >= 1) return frame;
+  const width = Math.max(1, Math.round(frame.width * scale));
+  const height = Math.max(1, Math.round(frame.height * scale));
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const sy0 = Math.floor(y / scale), sy1 = Math.min(frame.height, Math.floor((y + 1) / scale));
+    for (let x = 0; x < width; x++) {
+      const sx0 = Math.floor(x / scale), sx1 = Math.min(frame.width, Math.floor((x + 1) / scale));
+      let r = 0, g = 0, b = 0, n = 0;
+      for (let sy = sy0; sy < Math.max(sy1, sy0 + 1); sy++) {
+        for (let sx = sx0; sx < Math.max(sx1, sx0 + 1); sx++) {
+          const i = (sy * frame.width + sx) * 4;
+          r += frame.data[i]; g += frame.data[i + 1]; b += frame.data[i + 2]; n++;
+        }
+      }
+      const o = (y * width + x) * 4;
+      data[o] = r / n; data[o + 1] = g / n; data[o + 2] = b / n; data[o + 3] = 255;
+    }
+  }
+  return { data, width, height };
+};
+
+/** Integer translation with edge clamping: output(x, y) = input(x + dx, y + dy). */
+export const shiftFrame = (frame: RgbaFrame, dx: number, dy: number): RgbaFrame => {
+  if (dx === 0 && dy === 0) return frame;
+  const { width, height } = frame;
+  const data = new Uint8ClampedArray(frame.data.length);
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(height - 1, Math.max(0, y + dy));
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(width - 1, Math.max(0, x + dx));
+      const o = (y * width + x) * 4;
+      const s = (sy * width + sx) * 4;
+      data[o] = frame.data[s]; data[o + 1] = frame.data[s + 1]; data[o + 2] = frame.data[s + 2]; data[o + 3] = 255;
+    }
+  }
+  return { data, width, height };
+};
+
+const clampIndex = (i: number, n: number) => (i < 0 ? 0 : i >= n ? n - 1 : i);
+
+/** 5-tap binomial blur followed by 2x decimation. */
+export const pyrDown = (src: Plane): Plane => {
+  const { width: w, height: h, data } = src;
+  const ow = Math.ceil(w / 2), oh = Math.ceil(h / 2);
+  const tmp = new Float32Array(ow * h);
+  for (let y = 0; y < h; y++) {
+    const row = y * w;
+    for (let x = 0; x < ow; x++) {
+      const cx = x * 2;
+      tmp[y * ow + x] = (
+        data[row + clampIndex(cx - 2, w)] + 4 * data[row + clampIndex(cx - 1, w)] + 6 * data[row + cx] +
+        4 * data[row + clampIndex(cx + 1, w)] + data[row + clampIndex(cx + 2, w)]
+      ) / 16;
+    }
+  }
+  const out = new Float32Array(ow * oh);
+  for (let y = 0; y < oh; y++) {
+    const cy = y * 2;
+    const r0 = clampIndex(cy - 2, h) * ow, r1 = clampIndex(cy - 1, h) * ow, r2 = cy * ow;
+    const r3 = clampIndex(cy + 1, h) * ow, r4 = clampIndex(cy + 2, h) * ow;
+    for (let x = 0; x < ow; x++) {
+      out[y * ow + x] = (tmp[r0 + x] + 4 * tmp[r1 + x] + 6 * tmp[r2 + x] + 4 * tmp[r3 + x] + tmp[r4 + x]) / 16;
+    }
+  }
+  return { data: out, width: ow, height: oh };
+};
+
+/** Zero-insert 2x upsampling with the matching binomial interpolation kernel. */
+export const pyrUp = (src: Plane, width: number, height: number): Plane => {
+  const { width: sw, height: sh, data } = src;
+  const tmp = new Float32Array(width * sh);
+  for (let y = 0; y < sh; y++) {
+    const row = y * sw;
+    for (let x = 0; x < width; x++) {
+      const half = x >> 1;
+      tmp[y * width + x] = x & 1
+        ? (data[row + clampIndex(half, sw)] + data[row + clampIndex(half + 1, sw)]) / 2
+        : (data[row + clampIndex(half - 1, sw)] + 6 * data[row + clampIndex(half, sw)] + data[row + clampIndex(half + 1, sw)]) / 8;
+    }
+  }
+  const out = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const half = y >> 1;
+    const odd = y & 1;
+    const ra = clampIndex(half - 1, sh) * width, rb = clampIndex(half, sh) * width, rc = clampIndex(half + 1, sh) * width;
+    for (let x = 0; x < width; x++) {
+      out[y * width + x] = odd
+        ? (tmp[rb + x] + tmp[rc + x]) / 2
+        : (tmp[ra + x] + 6 * tmp[rb + x] + tmp[rc + x]) / 8;
+    }
+  }
+  return { data: out, width, height };
+};
+
+export const gaussianPyramid = (src: Plane, levels: number): Plane[] => {
+  const pyramid = [src];
+  for (let l = 1; l < levels; l++) pyramid.push(pyrDown(pyramid[l - 1]));
+  return pyramid;
+};
+
+export const laplacianPyramid = (src: Plane, levels: number): Plane[] => {
+  const gauss = gaussianPyramid(src, levels);
+  return gauss.map((g, l) => {
+    if (l === levels - 1) return g;
+    const up = pyrUp(gauss[l + 1], g.width, g.height);
+    const data = new Float32Array(g.data.length);
+    for (let i = 0; i < data.length; i++) data[i] = g.data[i] - up.data[i];
+    return { data, width: g.width, height: g.height };
+  });
+};
+
+export const collapsePyramid = (pyramid: Plane[]): Plane => {
+  let result = pyramid[pyramid.length - 1];
+  for (let l = pyramid.length - 2; l >= 0; l--) {
+    const up = pyrUp(result, pyramid[l].width, pyramid[l].height);
+    for (let i = 0; i < up.data.length; i++) up.data[i] += pyramid[l].data[i];
+    result = up;
+  }
+  return result;
+};
+
+export const pyramidLevels = (width: number, height: number, minSize = 8) =>
+  Math.max(1, Math.floor(Math.log2(Math.min(width, height) / minSize)) + 1);
+
+/** Bilinear resample of a plane to the given size. */
+export const resizePlane = (src: Plane, width: number, height: number): Plane => {
+  if (src.width === width && src.height === height) return src;
+  const out = new Float32Array(width * height);
+  const sx = src.width / width, sy = src.height / height;
+  for (let y = 0; y < height; y++) {
+    const fy = Math.min(src.height - 1, Math.max(0, (y + 0.5) * sy - 0.5));
+    const y0 = Math.floor(fy), y1 = Math.min(src.height - 1, y0 + 1), ty = fy - y0;
+    for (let x = 0; x < width; x++) {
+      const fx = Math.min(src.width - 1, Math.max(0, (x + 0.5) * sx - 0.5));
+      const x0 = Math.floor(fx), x1 = Math.min(src.width - 1, x0 + 1), tx = fx - x0;
+      const top = src.data[y0 * src.width + x0] * (1 - tx) + src.data[y0 * src.width + x1] * tx;
+      const bottom = src.data[y1 * src.width + x0] * (1 - tx) + src.data[y1 * src.width + x1] * tx;
+      out[y * width + x] = top * (1 - ty) + bottom * ty;
+    }
+  }
+  return { data: out, width, height };
+};
+
+/** Separable box blur of a plane, in place. */
+export const boxBlurPlane = (plane: Plane, radius: number) => {
+  const { data, width, height } = plane;
+  if (radius < 1) return plane;
+  const tmp = new Float32Array(data.length);
+  const norm = 1 / (radius * 2 + 1);
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    let sum = 0;
+    for (let k = -radius; k <= radius; k++) sum += data[row + Math.min(width - 1, Math.max(0, k))];
+    for (let x = 0; x < width; x++) {
+      tmp[row + x] = sum * norm;
+      sum += data[row + Math.min(width - 1, x + radius + 1)] - data[row + Math.max(0, x - radius)];
+    }
+  }
+  for (let x = 0; x < width; x++) {
+    let sum = 0;
+    for (let k = -radius; k <= radius; k++) sum += tmp[Math.min(height - 1, Math.max(0, k)) * width + x];
+    for (let y = 0; y < height; y++) {
+      data[y * width + x] = sum * norm;
+      sum += tmp[Math.min(height - 1, y + radius + 1) * width + x] - tmp[Math.max(0, y - radius) * width + x];
+    }
+  }
+  return plane;
+};
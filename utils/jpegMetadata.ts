@@ -0,0 +1,288 @@
+import { CapturedImage } from '../types';
+import { decode, encode } from './audioUtils';
+
+const SOFTWARE = 'Quan AI Camera 2.1.0';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const EXIF_HEADER = 'Exif\0\0';
+const QUAN_NS = 'http://ns.quan-ai.camera/1.0/';
+// Equivalent focal length of the main sensor at 1x, used to derive 35mm focal length from zoom
+const BASE_FOCAL_35MM = 26;
+const MAX_SEGMENT = 65533;
+
+type ExifType = 1 | 2 | 3 | 4 | 5 | 7 | 10;
+
+interface IfdEntry {
+  tag: number;
+  type: ExifType;
+  values: number[] | string;
+}
+
+const TYPE_SIZE: Record<ExifType, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 10: 8 };
+
+const entryCount = (e: IfdEntry) => typeof e.values === 'string'
+  ? e.values.length + (e.type === 2 ? 1 : 0)
+  : e.type === 5 || e.type === 10 ? e.values.length / 2 : e.values.length;
+
+const entryDataSize = (e: IfdEntry) => entryCount(e) * TYPE_SIZE[e.type];
+
+const ifdSize = (entries: IfdEntry[]) => 2 + entries.length * 12 + 4 +
+  entries.reduce((sum, e) => {
+    const size = entryDataSize(e);
+    return sum + (size > 4 ? size + (size % 2) : 0);
+  }, 0);
+
+const writeIfd = (view: DataView, offset: number, entries: IfdEntry[]) => {
+  const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+  view.setUint16(offset, sorted.length, true);
+  let dataOffset = offset + 2 + sorted.length * 12 + 4;
+  sorted.forEach((e, i) => {
+    const pos = offset + 2 + i * 12;
+    const count = entryCount(e);
+    const size = entryDataSize(e);
+    view.setUint16(pos, e.tag, true);
+    view.setUint16(pos + 2, e.type, true);
+    view.setUint32(pos + 4, count, true);
+    let target = pos + 8;
+    if (size > 4) {
+      view.setUint32(pos + 8, dataOffset, true);
+      target = dataOffset;
+      dataOffset += size + (size % 2);
+    }
+    if (typeof e.values === 'string') {
+      for (let c = 0; c < e.values.length; c++) view.setUint8(target + c, e.values.charCodeAt(c) & 0x7f);
+      if (e.type === 2) view.setUint8(target + e.values.length, 0);
+    } else {
+      e.values.forEach((v, j) => {
+        if (e.type === 1 || e.type === 7) view.setUint8(target + j, v);
+        else if (e.type === 3) view.setUint16(target + j * 2, v, true);
+        else if (e.type === 10) view.setInt32(target + j * 4, v, true);
+        else view.setUint32(target + j * 4, v, true);
+      });
+    }
+  });
+  view.setUint32(offset + 2 + sorted.length * 12, 0, true);
+};
+
+const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+
+const exifDate = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}:${pad(d.getMonth() + 1)}:${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+};
+
+const timezoneOffset = (timestamp: number) => {
+  const minutes = -new Date(timestamp).getTimezoneOffset();
+  const sign = minutes >= 0 ? '+' : '-';
+  return `${sign}${pad(Math.floor(Math.abs(minutes) / 60))}:${pad(Math.abs(minutes) % 60)}`;
+};
+
+const toRational = (value: number, denominator = 1000): number[] => [Math.round(value * denominator), denominator];
+
+const parseShutter = (shutter?: string): number[] | null => {
+  if (!shutter) return null;
+  const fraction = shutter.match(/^(\d+)\s*\/\s*(\d+)$/);
+  if (fraction) return [parseInt(fraction[1]), parseInt(fraction[2])];
+  const seconds = parseFloat(shutter);
+  return isNaN(seconds) ? null : toRational(seconds, 10000);
+};
+
+const toDms = (decimal: number): number[] => {
+  const abs = Math.abs(decimal);
+  const deg = Math.floor(abs);
+  const minFloat = (abs - deg) * 60;
+  const min = Math.floor(minFloat);
+  const sec = (minFloat - min) * 60;
+  return [deg, 1, min, 1, Math.round(sec * 1000), 1000];
+};
+
+const buildExif = (image: Pick<CapturedImage, 'timestamp' | 'metadata'>): Uint8Array => {
+  const meta = image.metadata;
+  const date = exifDate(image.timestamp);
+
+  const ifd0: IfdEntry[] = [
+    { tag: 0x010f, type: 2, values: 'Quan AI' },
+    { tag: 0x0110, type: 2, values: 'Quan AI Camera' },
+    { tag: 0x0131, type: 2, values: SOFTWARE },
+    { tag: 0x0132, type: 2, values: date },
+    { tag: 0x8769, type: 4, values: [0] },
+  ];
+
+  const exifIfd: IfdEntry[] = [
+    { tag: 0x9000, type: 7, values: '0232' },
+    { tag: 0x9003, type: 2, values: date },
+    { tag: 0x9004, type: 2, values: date },
+    { tag: 0x9011, type: 2, values: timezoneOffset(image.timestamp) },
+    { tag: 0x9291, type: 2, values: pad(image.timestamp % 1000, 3) },
+  ];
+  const iso = meta?.iso ? parseInt(meta.iso) : NaN;
+  if (!isNaN(iso)) exifIfd.push({ tag: 0x8827, type: 3, values: [Math.min(iso, 65535)] });
+  const exposure = parseShutter(meta?.shutter);
+  if (exposure) exifIfd.push({ tag: 0x829a, type: 5, values: exposure });
+  if (meta?.ev !== undefined) exifIfd.push({ tag: 0x9204, type: 10, values: [Math.round(meta.ev * 10), 10] });
+  const zoom = meta?.zoom || 1;
+  exifIfd.push({ tag: 0xa404, type: 5, values: toRational(zoom, 100) });
+  exifIfd.push({ tag: 0xa405, type: 3, values: [Math.round(BASE_FOCAL_35MM * zoom)] });
+
+  let gpsIfd: IfdEntry[] | null = null;
+  const loc = meta?.location;
+  if (loc) {
+    ifd0.push({ tag: 0x8825, type: 4, values: [0] });
+    const d = new Date(image.timestamp);
+    gpsIfd = [
+      { tag: 0x0000, type: 1, values: [2, 3, 0, 0] },
+      { tag: 0x0001, type: 2, values: loc.latitude >= 0 ? 'N' : 'S' },
+      { tag: 0x0002, type: 5, values: toDms(loc.latitude) },
+      { tag: 0x0003, type: 2, values: loc.longitude >= 0 ? 'E' : 'W' },
+      { tag: 0x0004, type: 5, values: toDms(loc.longitude) },
+      { tag: 0x0007, type: 5, values: [d.getUTCHours(), 1, d.getUTCMinutes(), 1, d.getUTCSeconds(), 1] },
+      { tag: 0x001d, type: 2, values: `${d.getUTCFullYear()}:${pad(d.getUTCMonth() + 1)}:${pad(d.getUTCDate())}` },
+    ];
+    if (loc.altitude !== undefined && loc.altitude !== null) {
+      gpsIfd.push({ tag: 0x0005, type: 1, values: [loc.altitude < 0 ? 1 : 0] });
+      gpsIfd.push({ tag: 0x0006, type: 5, values: toRational(Math.abs(loc.altitude), 100) });
+    }
+  }
+
+  const ifd0Offset = 8;
+  const exifOffset = ifd0Offset + ifdSize(ifd0);
+  const gpsOffset = exifOffset + ifdSize(exifIfd);
+  ifd0.find(e => e.tag === 0x8769)!.values = [exifOffset];
+  if (gpsIfd) ifd0.find(e => e.tag === 0x8825)!.values = [gpsOffset];
+
+  const tiffSize = gpsOffset + (gpsIfd ? ifdSize(gpsIfd) : 0);
+  const tiff = new DataView(new ArrayBuffer(tiffSize));
+  tiff.setUint16(0, 0x4949);
+  tiff.setUint16(2, 42, true);
+  tiff.setUint32(4, ifd0Offset, true);
+  writeIfd(tiff, ifd0Offset, ifd0);
+  writeIfd(tiff, exifOffset, exifIfd);
+  if (gpsIfd) writeIfd(tiff, gpsOffset, gpsIfd);
+
+  const header = new TextEncoder().encode(EXIF_HEADER);
+  const payload = new Uint8Array(header.length + tiffSize);
+  payload.set(header, 0);
+  payload.set(new Uint8Array(tiff.buffer), header.length);
+  return payload;
+};
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const buildXmp = (image: Pick<CapturedImage, 'timestamp' | 'metadata' | 'analysis'>, maxAnalysis = 8000): Uint8Array => {
+  const meta = image.metadata;
+  const analysis = (image.analysis || '').slice(0, maxAnalysis);
+  const attrs: Record<string, string | number | boolean | undefined> = {
+    'quan:Mode': meta?.mode,
+    'quan:Filter': meta?.filter,
+    'quan:Lens': meta?.lens,
+    'quan:LegionRole': meta?.role,
+    'quan:SyncOffset': meta?.syncOffset,
+    'quan:Enhanced': meta?.enhanced ?? false,
+    'quan:Zoom': meta?.zoom,
+    'quan:ExposureBias': meta?.ev,
+    'quan:WhiteBalance': meta?.whiteBalance,
+    'quan:Desqueeze': meta?.squeeze,
+    'quan:SimulatedAperture': meta?.aperture,
+    'quan:FocalPlane': meta?.focalPlane,
+    'quan:Segmentation': meta?.segmentation,
+    'quan:DeviceId': meta?.deviceId,
+  };
+  const attrText = Object.entries(attrs)
+    .filter(([, v]) => v !== undefined && v !== null)
+    .map(([k, v]) => `\n    ${k}="${escapeXml(String(v))}"`)
+    .join('');
+
+  const packet = `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+    xmlns:dc="http://purl.org/dc/elements/1.1/"
+    xmlns:quan="${QUAN_NS}"
+    xmp:CreatorTool="${SOFTWARE}"
+    xmp:CreateDate="${new Date(image.timestamp).toISOString()}"${attrText}>
+   <quan:Analysis>${escapeXml(analysis)}</quan:Analysis>
+   <dc:description>
+    <rdf:Alt>
+     <rdf:li xml:lang="x-default">${escapeXml(analysis)}</rdf:li>
+    </rdf:Alt>
+   </dc:description>
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+
+  const payload = new TextEncoder().encode(XMP_HEADER + packet);
+  if (payload.length > MAX_SEGMENT && maxAnalysis > 0) return buildXmp(image, Math.floor(maxAnalysis / 2));
+  return payload;
+};
+
+const segment = (marker: number, payload: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(payload.length + 4);
+  out[0] = 0xff;
+  out[1] = marker;
+  out[2] = ((payload.length + 2) >> 8) & 0xff;
+  out[3] = (payload.length + 2) & 0xff;
+  out.set(payload, 4);
+  return out;
+};
+
+const startsWith = (bytes: Uint8Array, offset: number, text: string) => {
+  for (let i = 0; i < text.length; i++) if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+  return true;
+};
+
+/**
+ * Injects EXIF and XMP APP1 segments into a JPEG, replacing any existing ones.
+ * Non-JPEG input is returned unchanged.
+ */
+export const writeJpegMetadata = (
+  jpeg: Uint8Array,
+  image: Pick<CapturedImage, 'timestamp' | 'metadata' | 'analysis'>
+): Uint8Array => {
+  if (jpeg[0] !== 0xff || jpeg[1] !== 0xd8) return jpeg;
+
+  const kept: Uint8Array[] = [];
+  let insertAt = 0;
+  let offset = 2;
+  while (offset + 4 <= jpeg.length && jpeg[offset] === 0xff) {
+    const marker = jpeg[offset + 1];
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = (jpeg[offset + 2] << 8) | jpeg[offset + 3];
+    const isExif = marker === 0xe1 && startsWith(jpeg, offset + 4, EXIF_HEADER);
+    const isXmp = marker === 0xe1 && startsWith(jpeg, offset + 4, XMP_HEADER);
+    if (!isExif && !isXmp) {
+      kept.push(jpeg.subarray(offset, offset + 2 + length));
+      if (marker === 0xe0) insertAt = kept.length;
+    }
+    offset += 2 + length;
+  }
+
+  kept.splice(insertAt, 0, segment(0xe1, buildExif(image)), segment(0xe1, buildXmp(image)));
+  const rest = jpeg.subarray(offset);
+  const total = 2 + kept.reduce((sum, s) => sum + s.length, 0) + rest.length;
+  const out = new Uint8Array(total);
+  out[0] = 0xff;
+  out[1] = 0xd8;
+  let cursor = 2;
+  for (const s of kept) { out.set(s, cursor); cursor += s.length; }
+  out.set(rest, cursor);
+  return out;
+};
+
+export const embedJpegMetadata = (
+  dataUrl: string,
+  image: Pick<CapturedImage, 'timestamp' | 'metadata' | 'analysis'>
+): string => {
+  if (!dataUrl.startsWith('data:image/jpeg;base64,')) return dataUrl;
+  try {
+    const bytes = writeJpegMetadata(decode(dataUrl.split(',')[1]), image);
+    return `data:image/jpeg;base64,${encode(bytes)}`;
+  } catch (e) {
+    console.warn("Metadata embedding failed", e);
+    return dataUrl;
+  }
+};
@@ -0,0 +1,45 @@
+import { RgbaFrame } from './imaging';
+import { DISPLAY_GAMMA } from './tone';
+
+/** A point in frame coordinates, 0..1 on both axes. */
+export interface MeterPoint {
+  x: number;
+  y: number;
+}
+
+// Spot meters aim the metered region at mid-grey, in display-referred luma
+const SPOT_TARGET = 0.46;
+const MAX_SPOT_BIAS = 3;
+
+/**
+ * Maps a point on an element that shows a frame with `object-fit: cover` back to
+ * frame coordinates, undoing the crop on whichever axis overflows.
+ */
+export const viewToFrame = (
+  viewX: number, viewY: number, viewWidth: number, viewHeight: number, frameWidth: number, frameHeight: number
+): MeterPoint => {
+  const scale = Math.max(viewWidth / frameWidth, viewHeight / frameHeight);
+  const x = (viewX - (viewWidth - frameWidth * scale) / 2) / (frameWidth * scale);
+  const y = (viewY - (viewHeight - frameHeight * scale) / 2) / (frameHeight * scale);
+  return { x: Math.min(1, Math.max(0, x)), y: Math.min(1, Math.max(0, y)) };
+};
+
+/** Stops of gain that bring a square spot around `point` to mid-grey; `radius` is a fraction of the short edge. */
+export const spotMeter = (frame: RgbaFrame, point: MeterPoint, radius = 0.08): number => {
+  const { data, width, height } = frame;
+  const r = Math.max(1, Math.round(Math.min(width, height) * radius));
+  const cx = Math.round(point.x * (width - 1));
+  const cy = Math.round(point.y * (height - 1));
+  let sum = 0, count = 0;
+  for (let y = Math.max(0, cy - r); y <= Math.min(height - 1, cy + r); y++) {
+    for (let x = Math.max(0, cx - r); x <= Math.min(width - 1, cx + r); x++) {
+      const i = (y * width + x) * 4;
+      // Average in linear light so a few highlights weigh as much as they do on a sensor
+      sum += Math.pow((data[i] * 0.2126 + data[i + 1] * 0.7152 + data[i + 2] * 0.0722) / 255, DISPLAY_GAMMA);
+      count++;
+    }
+  }
+  const linear = Math.max(sum / count, 1e-4);
+  const bias = Math.log2(Math.pow(SPOT_TARGET, DISPLAY_GAMMA) / linear);
+  return Math.min(MAX_SPOT_BIAS, Math.max(-MAX_SPOT_BIAS, bias));
+};
@@ -0,0 +1,245 @@
+import { WebmFile, WebmTrack } from './webm';
+
+export interface Mp4Sample {
+  /** Milliseconds */
+  time: number;
+  keyframe: boolean;
+  data: Uint8Array;
+}
+
+export interface Mp4Track {
+  id: number;
+  kind: 'video' | 'audio';
+  timescale: number;
+  /** The stsd entry, e.g. a vp09 or Opus box */
+  sampleEntry: Uint8Array;
+  width?: number;
+  height?: number;
+  samples: Mp4Sample[];
+}
+
+// Sample flags: sync samples depend on nothing; others depend on earlier samples and are not sync points
+const SYNC_SAMPLE = 0x02000000;
+const NON_SYNC_SAMPLE = 0x01010000;
+const FRAGMENT_MS = 1000;
+const VIDEO_TIMESCALE = 90000;
+const UNITY_MATRIX = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000];
+
+const encoder = new TextEncoder();
+
+const u8 = (...values: number[]) => new Uint8Array(values);
+
+const u16 = (value: number) => u8((value >> 8) & 0xff, value & 0xff);
+
+const u32 = (value: number) => u8((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+
+const u64 = (value: number) => {
+  const high = Math.floor(value / 0x100000000);
+  return concat([u32(high), u32(value - high * 0x100000000)]);
+};
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => { out.set(p, offset); offset += p.length; });
+  return out;
+};
+
+const box = (type: string, ...payload: Uint8Array[]) => {
+  const body = concat(payload);
+  return concat([u32(body.length + 8), encoder.encode(type), body]);
+};
+
+const fullBox = (type: string, version: number, flags: number, ...payload: Uint8Array[]) =>
+  box(type, u8(version, (flags >> 16) & 0xff, (flags >> 8) & 0xff, flags & 0xff), ...payload);
+
+const zeros = (length: number) => new Uint8Array(length);
+
+const matrix = () => concat(UNITY_MATRIX.map(u32));
+
+const visualEntry = (type: string, width: number, height: number, ...children: Uint8Array[]) => box(
+  type,
+  zeros(6), u16(1), zeros(16),
+  u16(width), u16(height),
+  u32(0x00480000), u32(0x00480000), zeros(4), u16(1), zeros(32), u16(0x0018), u16(0xffff),
+  ...children,
+);
+
+const audioEntry = (type: string, channels: number, sampleRate: number, ...children: Uint8Array[]) => box(
+  type,
+  zeros(6), u16(1), zeros(8),
+  u16(channels), u16(16), zeros(4), u32(Math.round(sampleRate) * 0x10000),
+  ...children,
+);
+
+// VP9 levels by luma picture size, per the VP9 level definitions
+const VP9_LEVELS: [number, number][] = [
+  [36864, 10], [73728, 11], [122880, 20], [245760, 21], [552960, 30], [983040, 31],
+  [2228224, 40], [8912896, 50], [35651584, 60],
+];
+
+const vpcC = (profile: number, width: number, height: number) => {
+  const level = (VP9_LEVELS.find(([size]) => width * height <= size) ?? VP9_LEVELS[VP9_LEVELS.length - 1])[1];
+  const bitDepth = profile >= 2 ? 10 : 8;
+  // 4:2:0 sampling, unspecified colour description, limited range
+  return fullBox('vpcC', 1, 0, u8(profile, level, (bitDepth << 4) | (1 << 1), 2, 2, 2), u16(0));
+};
+
+/** dOps from an Ogg OpusHead: the same fields, big-endian, without the magic. */
+const dOps = (head: Uint8Array) => {
+  const view = new DataView(head.buffer, head.byteOffset, head.byteLength);
+  const channels = head[9];
+  const family = head[18];
+  return box(
+    'dOps',
+    u8(0, channels), u16(view.getUint16(10, true)), u32(view.getUint32(12, true)), u16(view.getInt16(16, true) & 0xffff), u8(family),
+    ...(family ? [head.subarray(19, 21 + channels)] : []),
+  );
+};
+
+const sampleEntry = (track: WebmTrack, firstFrame?: Uint8Array): Uint8Array | null => {
+  const width = track.width ?? 0;
+  const height = track.height ?? 0;
+  switch (track.codecId) {
+    case 'V_VP9':
+      // Profile bits follow the frame marker in the first byte of every frame
+      return visualEntry('vp09', width, height, vpcC(firstFrame ? ((firstFrame[0] >> 5) & 1) | (((firstFrame[0] >> 4) & 1) << 1) : 0, width, height));
+    case 'V_VP8':
+      return visualEntry('vp08', width, height, vpcC(0, width, height));
+    case 'V_AV1':
+      return track.codecPrivate ? visualEntry('av01', width, height, box('av1C', track.codecPrivate)) : null;
+    case 'V_MPEG4/ISO/AVC':
+      return track.codecPrivate ? visualEntry('avc1', width, height, box('avcC', track.codecPrivate)) : null;
+    case 'V_MPEGH/ISO/HEVC':
+      return track.codecPrivate ? visualEntry('hvc1', width, height, box('hvcC', track.codecPrivate)) : null;
+    case 'A_OPUS':
+      return track.codecPrivate ? audioEntry('Opus', track.channels ?? 2, 48000, dOps(track.codecPrivate)) : null;
+    default:
+      return null;
+  }
+};
+
+/** Maps a demuxed WebM onto MP4 tracks. Null if any track's codec has no MP4 mapping we can write. */
+export const mp4TracksFromWebm = (file: WebmFile): Mp4Track[] | null => {
+  const tracks: Mp4Track[] = [];
+  for (const track of file.tracks) {
+    const samples = file.frames.filter(f => f.track === track.number);
+    const entry = sampleEntry(track, samples[0]?.data);
+    if (!entry) return null;
+    tracks.push({
+      id: tracks.length + 1,
+      kind: track.type,
+      timescale: track.type === 'video' ? VIDEO_TIMESCALE : 48000,
+      sampleEntry: entry,
+      width: track.width,
+      height: track.height,
+      samples,
+    });
+  }
+  return tracks;
+};
+
+const initSegment = (tracks: Mp4Track[]) => {
+  const brands = ['isom', 'iso5', 'iso6', 'mp41'];
+  const ftyp = box('ftyp', encoder.encode('isom'), u32(0x200), ...brands.map(b => encoder.encode(b)));
+  const mvhd = fullBox('mvhd', 0, 0, zeros(8), u32(1000), u32(0), u32(0x00010000), u16(0x0100), zeros(10), matrix(), zeros(24), u32(tracks.length + 1));
+  const traks = tracks.map(t => {
+    const video = t.kind === 'video';
+    const tkhd = fullBox(
+      'tkhd', 0, 3, zeros(8), u32(t.id), zeros(4), u32(0), zeros(8), u16(0), u16(0), u16(video ? 0 : 0x0100), zeros(2),
+      matrix(), u32((video ? t.width ?? 0 : 0) * 0x10000), u32((video ? t.height ?? 0 : 0) * 0x10000),
+    );
+    // Language "und", packed as three 5-bit letters
+    const mdhd = fullBox('mdhd', 0, 0, zeros(8), u32(t.timescale), u32(0), u16(0x55c4), zeros(2));
+    const hdlr = fullBox('hdlr', 0, 0, zeros(4), encoder.encode(video ? 'vide' : 'soun'), zeros(12), encoder.encode(video ? 'VideoHandler\0' : 'SoundHandler\0'));
+    const header = video ? fullBox('vmhd', 0, 1, zeros(8)) : fullBox('smhd', 0, 0, zeros(4));
+    const dinf = box('dinf', fullBox('dref', 0, 0, u32(1), fullBox('url ', 0, 1)));
+    const stbl = box(
+      'stbl',
+      fullBox('stsd', 0, 0, u32(1), t.sampleEntry),
+      fullBox('stts', 0, 0, u32(0)),
+      fullBox('stsc', 0, 0, u32(0)),
+      fullBox('stsz', 0, 0, u32(0), u32(0)),
+      fullBox('stco', 0, 0, u32(0)),
+    );
+    return box('trak', tkhd, box('mdia', mdhd, hdlr, box('minf', header, dinf, stbl)));
+  });
+  const mvex = box('mvex', ...tracks.map(t => fullBox('trex', 0, 0, u32(t.id), u32(1), u32(0), u32(0), u32(0))));
+  return concat([ftyp, box('moov', mvhd, ...traks, mvex)]);
+};
+
+interface TrackRun {
+  track: Mp4Track;
+  samples: { sample: Mp4Sample; duration: number }[];
+  decodeTime: number;
+}
+
+const fragment = (sequence: number, runs: TrackRun[]): Uint8Array[] => {
+  const trafs = (dataOffsets: number[]) => runs.map((run, i) => box(
+    'traf',
+    // default-base-is-moof: data offsets count from the start of this moof
+    fullBox('tfhd', 0, 0x020000, u32(run.track.id)),
+    fullBox('tfdt', 1, 0, u64(run.decodeTime)),
+    fullBox(
+      'trun', 0, 0x000701, u32(run.samples.length), u32(dataOffsets[i]),
+      ...run.samples.map(({ sample, duration }) => concat([u32(duration), u32(sample.data.length), u32(sample.keyframe ? SYNC_SAMPLE : NON_SYNC_SAMPLE)])),
+    ),
+  ));
+  const sizes = runs.map(run => run.samples.reduce((n, s) => n + s.sample.data.length, 0));
+  // Offsets depend on the moof's size, which does not depend on the offsets' values
+  const moofSize = box('moof', fullBox('mfhd', 0, 0, u32(sequence)), ...trafs(runs.map(() => 0))).length;
+  const offsets = sizes.map((_, i) => moofSize + 8 + sizes.slice(0, i).reduce((a, b) => a + b, 0));
+  const moof = box('moof', fullBox('mfhd', 0, 0, u32(sequence)), ...trafs(offsets));
+  const mdatHeader = concat([u32(8 + sizes.reduce((a, b) => a + b, 0)), encoder.encode('mdat')]);
+  return [moof, mdatHeader, ...runs.flatMap(run => run.samples.map(s => s.sample.data))];
+};
+
+/**
+ * Writes tracks as a fragmented MP4: an empty moov, then roughly one-second fragments
+ * that start on video keyframes. Returned as parts so large clips need not be copied into one buffer.
+ */
+export const fragmentedMp4 = (tracks: Mp4Track[]): Uint8Array[] => {
+  const start = Math.min(...tracks.map(t => t.samples[0]?.time ?? Infinity));
+  const durations = new Map(tracks.map(t => [t, t.samples.map((s, i) => {
+    const next = t.samples[i + 1] ?? t.samples[i - 1];
+    const ms = next ? Math.abs(next.time - s.time) : 0;
+    return Math.max(1, Math.round(ms * t.timescale / 1000));
+  })]));
+
+  // Fragment boundaries: the first video keyframe at least FRAGMENT_MS after the last boundary
+  const lead = tracks.find(t => t.kind === 'video') ?? tracks[0];
+  const cuts: number[] = [];
+  let last = -Infinity;
+  lead?.samples.forEach(s => {
+    if ((s.keyframe || lead.kind !== 'video') && s.time - last >= FRAGMENT_MS) {
+      cuts.push(s.time);
+      last = s.time;
+    }
+  });
+  if (cuts.length === 0) cuts.push(start);
+  cuts[0] = -Infinity;
+
+  const parts: Uint8Array[] = [initSegment(tracks)];
+  const cursors = tracks.map(() => 0);
+  const decodeTimes = tracks.map(t => Math.round(((t.samples[0]?.time ?? start) - start) * t.timescale / 1000));
+  cuts.forEach((_, c) => {
+    const end = cuts[c + 1] ?? Infinity;
+    const runs: TrackRun[] = [];
+    tracks.forEach((track, i) => {
+      const from = cursors[i];
+      let to = from;
+      while (to < track.samples.length && track.samples[to].time < end) to++;
+      if (to === from) return;
+      const lengths = durations.get(track)!;
+      runs.push({
+        track,
+        decodeTime: decodeTimes[i],
+        samples: track.samples.slice(from, to).map((sample, k) => ({ sample, duration: lengths[from + k] })),
+      });
+      decodeTimes[i] += lengths.slice(from, to).reduce((a, b) => a + b, 0);
+      cursors[i] = to;
+    });
+    if (runs.length) parts.push(...fragment(c + 1, runs));
+  });
+  return parts;
+};
@@ -0,0 +1,109 @@
+import { RgbaFrame, toLuma } from './imaging';
+
+// Pixels deviating more than this many noise sigmas from the reference are treated as motion
+const GHOST_SIGMAS = 4;
+// Soft weighting scale: deviations of this many sigmas halve a sample's weight
+const WEIGHT_SIGMAS = 2;
+const TARGET_MEAN = 0.3;
+const MAX_GAIN = 4;
+const DISPLAY_GAMMA = 2.2;
+
+/** Immerkær's fast noise variance estimate on the luma plane, in 0..1 units. */
+export const estimateNoise = (frame: RgbaFrame): number => {
+  const { data, width: w, height: h } = toLuma(frame);
+  let sum = 0;
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const p = y * w + x;
+      sum += Math.abs(
+        data[p - w - 1] - 2 * data[p - w] + data[p - w + 1] -
+        2 * data[p - 1] + 4 * data[p] - 2 * data[p + 1] +
+        data[p + w - 1] - 2 * data[p + w] + data[p + w + 1]
+      );
+    }
+  }
+  return Math.max(1 / 255, sum * Math.sqrt(Math.PI / 2) / (6 * (w - 2) * (h - 2)));
+};
+
+/**
+ * Streaming robust temporal average. Each aligned frame is merged against the
+ * reference with per-pixel weights that fall off with the deviation measured in
+ * noise sigmas, and pixels beyond the ghost threshold are rejected outright.
+ */
+export class TemporalStacker {
+  private sum: Float32Array;
+  private weight: Float32Array;
+  private reference: RgbaFrame;
+  private sigma: number;
+  private accepted = 0;
+
+  constructor(reference: RgbaFrame) {
+    const n = reference.width * reference.height;
+    this.reference = reference;
+    this.sigma = estimateNoise(reference) * Math.SQRT2;
+    this.sum = new Float32Array(n * 3);
+    this.weight = new Float32Array(n);
+    this.add(reference);
+  }
+
+  get frameCount() {
+    return this.accepted;
+  }
+
+  get noiseSigma() {
+    return this.sigma / Math.SQRT2;
+  }
+
+  add(frame: RgbaFrame) {
+    const ref = this.reference.data;
+    const src = frame.data;
+    const ghost = GHOST_SIGMAS * this.sigma * 255;
+    const scale = WEIGHT_SIGMAS * this.sigma * 255;
+    const invScaleSq = 1 / (scale * scale);
+
+    for (let p = 0, i = 0; p < this.weight.length; p++, i += 4) {
+      const d = Math.max(
+        Math.abs(src[i] - ref[i]),
+        Math.abs(src[i + 1] - ref[i + 1]),
+        Math.abs(src[i + 2] - ref[i + 2])
+      );
+      if (d > ghost) continue;
+      const w = 1 / (1 + d * d * invScaleSq);
+      this.sum[p * 3] += src[i] * w;
+      this.sum[p * 3 + 1] += src[i + 1] * w;
+      this.sum[p * 3 + 2] += src[i + 2] * w;
+      this.weight[p] += w;
+    }
+    this.accepted++;
+  }
+
+  /** Normalizes the accumulation and lifts underexposed stacks in linear light. */
+  finish(autoGain = true): RgbaFrame {
+    const { width, height } = this.reference;
+    const data = new Uint8ClampedArray(width * height * 4);
+    let lumaSum = 0;
+    for (let p = 0; p < this.weight.length; p++) {
+      const w = this.weight[p];
+      const i = p * 4;
+      data[i] = this.sum[p * 3] / w;
+      data[i + 1] = this.sum[p * 3 + 1] / w;
+      data[i + 2] = this.sum[p * 3 + 2] / w;
+      data[i + 3] = 255;
+      lumaSum += data[i] * 0.2126 + data[i + 1] * 0.7152 + data[i + 2] * 0.0722;
+    }
+
+    const mean = lumaSum / this.weight.length / 255;
+    if (autoGain && mean > 0 && mean < TARGET_MEAN) {
+      const linearMean = Math.pow(mean, DISPLAY_GAMMA);
+      const gain = Math.min(MAX_GAIN, Math.pow(TARGET_MEAN, DISPLAY_GAMMA) / linearMean);
+      const lut = new Uint8ClampedArray(256);
+      for (let v = 0; v < 256; v++) lut[v] = Math.pow(Math.pow(v / 255, DISPLAY_GAMMA) * gain, 1 / DISPLAY_GAMMA) * 255;
+      for (let i = 0; i < data.length; i += 4) {
+        data[i] = lut[data[i]];
+        data[i + 1] = lut[data[i + 1]];
+        data[i + 2] = lut[data[i + 2]];
+      }
+    }
+    return { data, width, height };
+  }
+}
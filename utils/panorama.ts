@@ -0,0 +1,327 @@
+import {
+  Plane, RgbaFrame, boxBlurPlane, channel, collapsePyramid, gaussianPyramid, laplacianPyramid, pyrDown, pyramidLevels, toLuma
+} from './imaging';
+
+export interface Offset {
+  dx: number;
+  dy: number;
+}
+
+interface Feature {
+  x: number;
+  y: number;
+  descriptor: Float32Array;
+}
+
+interface WarpedFrame {
+  frame: RgbaFrame;
+  /** 1 where the cylinder maps back inside the source frame. */
+  valid: Uint8Array;
+}
+
+// Consecutive sweep frames overlap by at least this fraction of their width
+export const PANORAMA_OVERLAP = 0.4;
+const FEATURE_CELL = 16;
+const PATCH_GRID = 8;
+const PATCH_STEP = 3;
+const PATCH_RADIUS = (PATCH_GRID / 2) * PATCH_STEP;
+const RATIO_TEST = 0.75;
+const RANSAC_TOLERANCE = 2;
+const MIN_INLIERS = 6;
+const SEAM_LEVELS = 5;
+
+/**
+ * Projects a frame onto a cylinder of focal length derived from the horizontal field
+ * of view, so a camera rotating about its vertical axis reduces to pure translation.
+ */
+export const cylindricalWarp = (frame: RgbaFrame, fovDegrees: number): WarpedFrame => {
+  const { data, width, height } = frame;
+  const focal = (width / 2) / Math.tan((fovDegrees * Math.PI) / 360);
+  const cx = (width - 1) / 2, cy = (height - 1) / 2;
+  const out = new Uint8ClampedArray(data.length);
+  const valid = new Uint8Array(width * height);
+
+  for (let x = 0; x < width; x++) {
+    const theta = (x - cx) / focal;
+    const sx = focal * Math.tan(theta) + cx;
+    const scaleY = 1 / Math.cos(theta);
+    if (sx < 0 || sx > width - 1) continue;
+    const x0 = Math.floor(sx), x1 = Math.min(width - 1, x0 + 1), tx = sx - x0;
+    for (let y = 0; y < height; y++) {
+      const sy = (y - cy) * scaleY + cy;
+      if (sy < 0 || sy > height - 1) continue;
+      const y0 = Math.floor(sy), y1 = Math.min(height - 1, y0 + 1), ty = sy - y0;
+      const a = (y0 * width + x0) * 4, b = (y0 * width + x1) * 4;
+      const c = (y1 * width + x0) * 4, d = (y1 * width + x1) * 4;
+      const o = (y * width + x) * 4;
+      for (let ch = 0; ch < 3; ch++) {
+        const top = data[a + ch] * (1 - tx) + data[b + ch] * tx;
+        const bottom = data[c + ch] * (1 - tx) + data[d + ch] * tx;
+        out[o + ch] = top * (1 - ty) + bottom * ty;
+      }
+      out[o + 3] = 255;
+      valid[y * width + x] = 1;
+    }
+  }
+  return { frame: { data: out, width, height }, valid };
+};
+
+/** Harris corners, one per grid cell, each with a normalized 8x8 patch descriptor. */
+export const detectFeatures = (luma: Plane, valid: Uint8Array, validWidth: number): Feature[] => {
+  const { data, width, height } = luma;
+  const scale = validWidth / width;
+  const ixx = new Float32Array(data.length), iyy = new Float32Array(data.length), ixy = new Float32Array(data.length);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const p = y * width + x;
+      const gx = (data[p + 1] - data[p - 1]) / 2;
+      const gy = (data[p + width] - data[p - width]) / 2;
+      ixx[p] = gx * gx; iyy[p] = gy * gy; ixy[p] = gx * gy;
+    }
+  }
+  const sxx = boxBlurPlane({ data: ixx, width, height }, 2).data;
+  const syy = boxBlurPlane({ data: iyy, width, height }, 2).data;
+  const sxy = boxBlurPlane({ data: ixy, width, height }, 2).data;
+  const smooth = boxBlurPlane({ data: Float32Array.from(data), width, height }, 1).data;
+
+  const validHeight = valid.length / validWidth;
+  const isValid = (x: number, y: number) =>
+    valid[Math.min(validHeight - 1, Math.round(y * scale)) * validWidth + Math.min(validWidth - 1, Math.round(x * scale))] === 1;
+
+  const features: Feature[] = [];
+  const margin = PATCH_RADIUS + 1;
+  for (let cy = margin; cy < height - margin; cy += FEATURE_CELL) {
+    for (let cx = margin; cx < width - margin; cx += FEATURE_CELL) {
+      let best = 0, bx = -1, by = -1;
+      for (let y = cy; y < Math.min(cy + FEATURE_CELL, height - margin); y++) {
+        for (let x = cx; x < Math.min(cx + FEATURE_CELL, width - margin); x++) {
+          const p = y * width + x;
+          const trace = sxx[p] + syy[p];
+          const response = sxx[p] * syy[p] - sxy[p] * sxy[p] - 0.04 * trace * trace;
+          if (response > best) { best = response; bx = x; by = y; }
+        }
+      }
+      if (bx < 0 || best < 1e-7) continue;
+      if (!isValid(bx - PATCH_RADIUS, by - PATCH_RADIUS) || !isValid(bx + PATCH_RADIUS, by + PATCH_RADIUS)
+        || !isValid(bx - PATCH_RADIUS, by + PATCH_RADIUS) || !isValid(bx + PATCH_RADIUS, by - PATCH_RADIUS)) continue;
+
+      const descriptor = new Float32Array(PATCH_GRID * PATCH_GRID);
+      let mean = 0;
+      for (let j = 0; j < PATCH_GRID; j++) {
+        for (let i = 0; i < PATCH_GRID; i++) {
+          const v = smooth[(by - PATCH_RADIUS + j * PATCH_STEP) * width + (bx - PATCH_RADIUS + i * PATCH_STEP)];
+          descriptor[j * PATCH_GRID + i] = v;
+          mean += v;
+        }
+      }
+      mean /= descriptor.length;
+      let variance = 0;
+      for (let k = 0; k < descriptor.length; k++) { descriptor[k] -= mean; variance += descriptor[k] * descriptor[k]; }
+      const norm = Math.sqrt(variance) || 1;
+      for (let k = 0; k < descriptor.length; k++) descriptor[k] /= norm;
+      features.push({ x: bx, y: by, descriptor });
+    }
+  }
+  return features;
+};
+
+const distance = (a: Float32Array, b: Float32Array) => {
+  let sum = 0;
+  for (let k = 0; k < a.length; k++) { const d = a[k] - b[k]; sum += d * d; }
+  return sum;
+};
+
+/**
+ * Matches descriptors with a ratio test, then finds the translation with the most
+ * inliers (every match is a hypothesis, so this is exhaustive RANSAC for a 2-DOF model).
+ * Returns the position of `b` in `a`'s coordinates, or null without enough support.
+ */
+export const matchTranslation = (a: Feature[], b: Feature[]): (Offset & { inliers: number }) | null => {
+  const candidates: Offset[] = [];
+  for (const fa of a) {
+    let best = Infinity, second = Infinity, match: Feature | null = null;
+    for (const fb of b) {
+      const d = distance(fa.descriptor, fb.descriptor);
+      if (d < best) { second = best; best = d; match = fb; } else if (d < second) second = d;
+    }
+    if (match && best < RATIO_TEST * RATIO_TEST * second) candidates.push({ dx: fa.x - match.x, dy: fa.y - match.y });
+  }
+
+  let bestInliers: Offset[] = [];
+  for (const hypothesis of candidates) {
+    const inliers = candidates.filter(c => Math.abs(c.dx - hypothesis.dx) <= RANSAC_TOLERANCE && Math.abs(c.dy - hypothesis.dy) <= RANSAC_TOLERANCE);
+    if (inliers.length > bestInliers.length) bestInliers = inliers;
+  }
+  if (bestInliers.length < MIN_INLIERS) return null;
+  return {
+    dx: bestInliers.reduce((s, c) => s + c.dx, 0) / bestInliers.length,
+    dy: bestInliers.reduce((s, c) => s + c.dy, 0) / bestInliers.length,
+    inliers: bestInliers.length,
+  };
+};
+
+/** Minimum-difference vertical seam through an overlap; returns the seam column per row. */
+const findSeam = (cost: Float32Array, width: number, height: number): Int32Array => {
+  const acc = Float32Array.from(cost);
+  for (let y = 1; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let m = acc[(y - 1) * width + x];
+      if (x > 0) m = Math.min(m, acc[(y - 1) * width + x - 1]);
+      if (x < width - 1) m = Math.min(m, acc[(y - 1) * width + x + 1]);
+      acc[y * width + x] += m;
+    }
+  }
+  const seam = new Int32Array(height);
+  let x = 0;
+  for (let i = 1; i < width; i++) if (acc[(height - 1) * width + i] < acc[(height - 1) * width + x]) x = i;
+  seam[height - 1] = x;
+  for (let y = height - 2; y >= 0; y--) {
+    let bx = x;
+    for (const nx of [x - 1, x + 1]) {
+      if (nx >= 0 && nx < width && acc[y * width + nx] < acc[y * width + bx]) bx = nx;
+    }
+    x = bx;
+    seam[y] = x;
+  }
+  return seam;
+};
+
+const blendPlanes = (a: Plane, b: Plane, mask: Plane, levels: number): Plane => {
+  const la = laplacianPyramid(a, levels);
+  const lb = laplacianPyramid(b, levels);
+  const gm = gaussianPyramid(mask, levels);
+  return collapsePyramid(la.map((level, l) => {
+    const data = new Float32Array(level.data.length);
+    for (let i = 0; i < data.length; i++) data[i] = level.data[i] * (1 - gm[l].data[i]) + lb[l].data[i] * gm[l].data[i];
+    return { data, width: level.width, height: level.height };
+  }));
+};
+
+/**
+ * Stitches a horizontal sweep: cylindrical projection, feature-matched translations
+ * between neighbours (falling back to the sweep tracker's hint, then to the median
+ * stride), a minimum-difference seam per overlap and multi-band blending across it.
+ * The result is cropped to the rows every column covers.
+ */
+export const stitchPanorama = (frames: RgbaFrame[], fovDegrees: number, hints: (Offset | undefined)[] = []): { frame: RgbaFrame; used: number } => {
+  if (frames.length === 0) throw new Error('No frames to stitch');
+  const warped = frames.map(f => cylindricalWarp(f, fovDegrees));
+  const features = warped.map(w => {
+    const luma = pyrDown(toLuma(w.frame));
+    return detectFeatures(luma, w.valid, w.frame.width).map(f => ({ ...f, x: f.x * 2, y: f.y * 2 }));
+  });
+
+  const steps: (Offset | null)[] = [null];
+  for (let i = 1; i < warped.length; i++) {
+    const matched = matchTranslation(features[i - 1], features[i]);
+    steps.push(matched ?? hints[i] ?? null);
+  }
+  const known = steps.filter((s): s is Offset => !!s);
+  const median = (values: number[]) => values.sort((x, y) => x - y)[Math.floor(values.length / 2)] ?? 0;
+  const fallback: Offset | null = known.length ? { dx: median(known.map(s => s.dx)), dy: median(known.map(s => s.dy)) } : null;
+
+  const positions: Offset[] = [{ dx: 0, dy: 0 }];
+  const used = [0];
+  for (let i = 1; i < warped.length; i++) {
+    const step = steps[i] ?? fallback;
+    if (!step) continue;
+    const prev = positions[positions.length - 1];
+    positions.push({ dx: prev.dx + step.dx, dy: prev.dy + step.dy });
+    used.push(i);
+  }
+
+  const { width: fw, height: fh } = frames[0];
+  const minX = Math.floor(Math.min(...positions.map(p => p.dx)));
+  const minY = Math.floor(Math.min(...positions.map(p => p.dy)));
+  const width = Math.ceil(Math.max(...positions.map(p => p.dx))) - minX + fw;
+  const height = Math.ceil(Math.max(...positions.map(p => p.dy))) - minY + fh;
+  const canvas = [0, 1, 2].map(() => new Float32Array(width * height));
+  const coverage = new Uint8Array(width * height);
+
+  used.forEach((frameIndex, k) => {
+    const { frame, valid } = warped[frameIndex];
+    const ox = Math.round(positions[k].dx) - minX;
+    const oy = Math.round(positions[k].dy) - minY;
+    const planes = [0, 1, 2].map(c => channel(frame, c));
+
+    // Working box: the new frame's footprint on the canvas
+    const mask = new Float32Array(fw * fh);
+    const existing = [0, 1, 2].map(() => new Float32Array(fw * fh));
+    let overlapMin = fw, overlapMax = -1;
+    for (let y = 0; y < fh; y++) {
+      for (let x = 0; x < fw; x++) {
+        const p = y * fw + x;
+        const q = (y + oy) * width + (x + ox);
+        const covered = coverage[q] === 1;
+        for (let c = 0; c < 3; c++) existing[c][p] = covered ? canvas[c][q] : planes[c].data[p];
+        if (!valid[p]) for (let c = 0; c < 3; c++) planes[c].data[p] = existing[c][p];
+        if (valid[p] && covered) { overlapMin = Math.min(overlapMin, x); overlapMax = Math.max(overlapMax, x); }
+        mask[p] = valid[p] && !covered ? 1 : 0;
+      }
+    }
+
+    if (overlapMax > overlapMin) {
+      // Cut the overlap along the seam; the new frame owns the side away from what is already placed
+      const span = overlapMax - overlapMin + 1;
+      const cost = new Float32Array(span * fh);
+      for (let y = 0; y < fh; y++) {
+        for (let x = 0; x < span; x++) {
+          const p = y * fw + overlapMin + x;
+          let d = 0;
+          for (let c = 0; c < 3; c++) d += Math.abs(existing[c][p] - planes[c].data[p]);
+          cost[y * span + x] = valid[p] ? d : 1e3;
+        }
+      }
+      const seam = findSeam(cost, span, fh);
+      const newOnRight = positions[k].dx >= (k > 0 ? positions[k - 1].dx : 0);
+      for (let y = 0; y < fh; y++) {
+        for (let x = overlapMin; x <= overlapMax; x++) {
+          const p = y * fw + x;
+          if (!valid[p]) continue;
+          const beyond = newOnRight ? x - overlapMin > seam[y] : x - overlapMin < seam[y];
+          if (beyond) mask[p] = 1;
+        }
+      }
+    }
+
+    const levels = Math.min(SEAM_LEVELS, pyramidLevels(fw, fh));
+    const maskPlane = { data: mask, width: fw, height: fh };
+    for (let c = 0; c < 3; c++) {
+      const blended = k === 0 ? planes[c] : blendPlanes({ data: existing[c], width: fw, height: fh }, planes[c], maskPlane, levels);
+      for (let y = 0; y < fh; y++) {
+        for (let x = 0; x < fw; x++) {
+          const p = y * fw + x;
+          const q = (y + oy) * width + (x + ox);
+          if (valid[p] || coverage[q]) canvas[c][q] = blended.data[p];
+        }
+      }
+    }
+    for (let y = 0; y < fh; y++) {
+      for (let x = 0; x < fw; x++) if (valid[y * fw + x]) coverage[(y + oy) * width + x + ox] = 1;
+    }
+  });
+
+  // Crop to columns with any coverage and rows that every such column covers
+  let left = width, right = -1, top = 0, bottom = height - 1;
+  for (let x = 0; x < width; x++) {
+    let first = -1, last = -1;
+    for (let y = 0; y < height; y++) {
+      if (coverage[y * width + x]) { if (first < 0) first = y; last = y; }
+    }
+    if (first < 0) continue;
+    left = Math.min(left, x); right = Math.max(right, x);
+    top = Math.max(top, first); bottom = Math.min(bottom, last);
+  }
+  if (bottom - top < fh / 2) { top = 0; bottom = height - 1; }
+
+  const outWidth = right - left + 1, outHeight = bottom - top + 1;
+  const data = new Uint8ClampedArray(outWidth * outHeight * 4);
+  for (let y = 0; y < outHeight; y++) {
+    for (let x = 0; x < outWidth; x++) {
+      const q = (y + top) * width + x + left;
+      const o = (y * outWidth + x) * 4;
+      data[o] = canvas[0][q] * 255; data[o + 1] = canvas[1][q] * 255; data[o + 2] = canvas[2][q] * 255; data[o + 3] = 255;
+    }
+  }
+  return { frame: { data, width: outWidth, height: outHeight }, used: used.length };
+};
@@ -0,0 +1,98 @@
+import { RgbaFrame } from './imaging';
+
+export type ScopeType = 'HISTOGRAM' | 'WAVEFORM' | 'PARADE' | 'VECTORSCOPE';
+
+export interface HistogramData {
+  r: Uint32Array;
+  g: Uint32Array;
+  b: Uint32Array;
+  luma: Uint32Array;
+  /** Percent of pixels with any channel at or above the highlight clip level. */
+  highlightClip: number;
+  /** Percent of pixels with every channel at or below the shadow clip level. */
+  shadowClip: number;
+}
+
+const HIGHLIGHT_CLIP = 254;
+const SHADOW_CLIP = 2;
+
+const luma709 = (r: number, g: number, b: number) => r * 0.2126 + g * 0.7152 + b * 0.0722;
+
+export const computeHistogram = (frame: RgbaFrame): HistogramData => {
+  const r = new Uint32Array(256), g = new Uint32Array(256), b = new Uint32Array(256), luma = new Uint32Array(256);
+  const { data } = frame;
+  let high = 0, low = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    const R = data[i], G = data[i + 1], B = data[i + 2];
+    r[R]++; g[G]++; b[B]++;
+    luma[Math.round(luma709(R, G, B))]++;
+    const max = Math.max(R, G, B);
+    if (max >= HIGHLIGHT_CLIP) high++;
+    else if (max <= SHADOW_CLIP) low++;
+  }
+  const total = data.length / 4;
+  return { r, g, b, luma, highlightClip: (high / total) * 100, shadowClip: (low / total) * 100 };
+};
+
+/**
+ * Column-by-level density for a waveform: `channel` 0..2 picks R/G/B, 'luma' uses Rec.709 weights.
+ * Returned row-major with level 0 on the bottom row.
+ */
+export const computeWaveform = (frame: RgbaFrame, columns: number, levels: number, channel: 0 | 1 | 2 | 'luma'): Uint32Array => {
+  const { data, width, height } = frame;
+  const density = new Uint32Array(columns * levels);
+  const scale = (levels - 1) / 255;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const value = channel === 'luma' ? luma709(data[i], data[i + 1], data[i + 2]) : data[i + channel];
+      const col = Math.min(columns - 1, Math.floor(x * columns / width));
+      const row = levels - 1 - Math.round(value * scale);
+      density[row * columns + col]++;
+    }
+  }
+  return density;
+};
+
+/** Rec.709 Cb/Cr scatter on a size×size grid, +Cb to the right and +Cr up. */
+export const computeVectorscope = (frame: RgbaFrame, size: number): Uint32Array => {
+  const { data } = frame;
+  const density = new Uint32Array(size * size);
+  for (let i = 0; i < data.length; i += 4) {
+    const [x, y] = chromaToPoint(data[i] / 255, data[i + 1] / 255, data[i + 2] / 255, size);
+    density[y * size + x]++;
+  }
+  return density;
+};
+
+export const chromaToPoint = (r: number, g: number, b: number, size: number): [number, number] => {
+  const cb = -0.1146 * r - 0.3854 * g + 0.5 * b;
+  const cr = 0.5 * r - 0.4542 * g - 0.0458 * b;
+  const x = Math.min(size - 1, Math.max(0, Math.round((cb + 0.5) * (size - 1))));
+  const y = Math.min(size - 1, Math.max(0, Math.round((0.5 - cr) * (size - 1))));
+  return [x, y];
+};
+
+/**
+ * Adds a density map into an RGBA buffer as glowing trace color. `expected` is the
+ * density a bin would hold if samples were spread evenly; it sets the exposure of the trace.
+ */
+export const paintDensity = (
+  density: Uint32Array, width: number, height: number,
+  out: Uint8ClampedArray, outWidth: number, offsetX: number,
+  color: [number, number, number], expected: number
+) => {
+  const k = 1 / Math.max(expected, 1e-6);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const d = density[y * width + x];
+      if (!d) continue;
+      const intensity = 1 - Math.exp(-d * k);
+      const o = (y * outWidth + x + offsetX) * 4;
+      out[o] += color[0] * intensity;
+      out[o + 1] += color[1] * intensity;
+      out[o + 2] += color[2] * intensity;
+      out[o + 3] = 255;
+    }
+  }
+};
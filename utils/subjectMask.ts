@@ -0,0 +1,109 @@
+import { Plane, RgbaFrame, boxBlurPlane } from './imaging';
+
+// Colour model: 3 bits per channel
+const BIN_SHIFT = 5;
+const BIN_COUNT = 512;
+const ITERATIONS = 3;
+// Where a portrait subject usually sits, as fractions of the frame
+const PRIOR_CENTER_X = 0.5;
+const PRIOR_CENTER_Y = 0.55;
+const PRIOR_SIGMA_X = 0.22;
+const PRIOR_SIGMA_Y = 0.32;
+const BORDER = 0.06;
+// Background depth falls off toward the top of the frame: lower rows are usually nearer ground
+const GROUND_DEPTH = 0.35;
+
+const binOf = (data: Uint8ClampedArray, i: number) =>
+  ((data[i] >> BIN_SHIFT) << 6) | ((data[i + 1] >> BIN_SHIFT) << 3) | (data[i + 2] >> BIN_SHIFT);
+
+/** Pulls soft mask edges toward colour edges in the frame (3x3 cross-bilateral passes). */
+const refineEdges = (mask: Plane, frame: RgbaFrame, passes: number) => {
+  const { width, height } = mask;
+  const { data } = frame;
+  let src = mask.data;
+  for (let pass = 0; pass < passes; pass++) {
+    const out = new Float32Array(src.length);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const p = y * width + x;
+        const i = p * 4;
+        let sum = 0, weight = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+          const ny = Math.min(height - 1, Math.max(0, y + dy));
+          for (let dx = -1; dx <= 1; dx++) {
+            const q = ny * width + Math.min(width - 1, Math.max(0, x + dx));
+            const j = q * 4;
+            const dist = Math.abs(data[i] - data[j]) + Math.abs(data[i + 1] - data[j + 1]) + Math.abs(data[i + 2] - data[j + 2]);
+            const w = Math.exp(-dist / 30);
+            sum += src[q] * w;
+            weight += w;
+          }
+        }
+        out[p] = sum / weight;
+      }
+    }
+    src = out;
+  }
+  return { data: src, width, height };
+};
+
+/**
+ * On-device subject matte for portrait mode. A centre-weighted spatial prior seeds
+ * foreground and border colour models, which are re-estimated a few times (a cheap
+ * GrabCut without the graph cut), then smoothed and snapped to colour edges.
+ * Returns a depth-like plane: 1 on the subject, GROUND_DEPTH..0 behind it.
+ */
+export const estimateSubjectDepth = (frame: RgbaFrame): Plane => {
+  const { data, width, height } = frame;
+  const total = width * height;
+  const bins = new Uint16Array(total);
+  const prior = new Float32Array(total);
+  const border = Math.max(1, Math.round(Math.min(width, height) * BORDER));
+
+  for (let y = 0, p = 0; y < height; y++) {
+    const ny = (y / height - PRIOR_CENTER_Y) / PRIOR_SIGMA_Y;
+    for (let x = 0; x < width; x++, p++) {
+      const nx = (x / width - PRIOR_CENTER_X) / PRIOR_SIGMA_X;
+      const onBorder = x < border || y < border || x >= width - border;
+      prior[p] = onBorder ? 0.02 : 0.05 + 0.9 * Math.exp(-(nx * nx + ny * ny) / 2);
+      bins[p] = binOf(data, p * 4);
+    }
+  }
+
+  const mask: Plane = { data: Float32Array.from(prior), width, height };
+  const smoothRadius = Math.max(1, Math.round(Math.min(width, height) / 64));
+  for (let iter = 0; iter < ITERATIONS; iter++) {
+    const fg = new Float32Array(BIN_COUNT);
+    const bg = new Float32Array(BIN_COUNT);
+    let fgTotal = 0, bgTotal = 0;
+    for (let p = 0; p < total; p++) {
+      fg[bins[p]] += mask.data[p];
+      bg[bins[p]] += 1 - mask.data[p];
+      fgTotal += mask.data[p];
+      bgTotal += 1 - mask.data[p];
+    }
+    for (let p = 0; p < total; p++) {
+      const pf = fg[bins[p]] / fgTotal + 1e-5;
+      const pb = bg[bins[p]] / bgTotal + 1e-5;
+      const likelihood = pf / (pf + pb);
+      const s = prior[p];
+      mask.data[p] = likelihood * s / (likelihood * s + (1 - likelihood) * (1 - s));
+    }
+    boxBlurPlane(mask, smoothRadius);
+  }
+
+  for (let p = 0; p < total; p++) {
+    const t = Math.min(1, Math.max(0, (mask.data[p] - 0.35) / 0.3));
+    mask.data[p] = t * t * (3 - 2 * t);
+  }
+  const refined = refineEdges(mask, frame, 2);
+
+  for (let y = 0, p = 0; y < height; y++) {
+    const ground = GROUND_DEPTH * (y / (height - 1 || 1)) ** 2;
+    for (let x = 0; x < width; x++, p++) {
+      const m = refined.data[p];
+      refined.data[p] = m + (1 - m) * ground;
+    }
+  }
+  return refined;
+};
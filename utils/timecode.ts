@@ -0,0 +1,17 @@
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+/** Time-of-day timecode, HH:MM:SS:FF, for a clock in epoch milliseconds. */
+export const formatTimecode = (ms: number, fps: number) => {
+  const date = new Date(ms);
+  const frame = Math.floor((ms % 1000) / (1000 / fps));
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}:${pad(frame)}`;
+};
+
+/** Elapsed timecode within a clip, MM:SS:FF, with hours once a clip runs past one. */
+export const formatClipTimecode = (seconds: number, fps: number) => {
+  const frames = Math.max(0, Math.floor(seconds * fps + 1e-6));
+  const whole = Math.floor(frames / fps);
+  const hours = Math.floor(whole / 3600);
+  const clock = `${pad(Math.floor(whole / 60) % 60)}:${pad(whole % 60)}:${pad(frames % fps)}`;
+  return hours ? `${pad(hours)}:${clock}` : clock;
+};
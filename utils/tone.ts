@@ -0,0 +1,38 @@
+export const DISPLAY_GAMMA = 2.2;
+export const NEUTRAL_KELVIN = 5600;
+
+const MIN_KELVIN = 2000;
+const MAX_KELVIN = 12000;
+
+/** Helland's blackbody fit: the sRGB color of a light source at the given temperature, 0..1. */
+export const kelvinToRgb = (kelvin: number): [number, number, number] => {
+  const t = Math.min(MAX_KELVIN, Math.max(MIN_KELVIN, kelvin)) / 100;
+  const r = t <= 66 ? 255 : 329.698727446 * Math.pow(t - 60, -0.1332047592);
+  const g = t <= 66 ? 99.4708025861 * Math.log(t) - 161.1195681661 : 288.1221695283 * Math.pow(t - 60, -0.0755148492);
+  const b = t >= 66 ? 255 : 138.5177312231 * Math.log(t - 10) - 305.0447927307;
+  return [r, g, b].map(v => Math.min(255, Math.max(1, v)) / 255) as [number, number, number];
+};
+
+/**
+ * Linear-light channel gains that neutralize a light source of `kelvin` relative
+ * to the daylight reference, normalized to preserve luminance.
+ */
+export const whiteBalanceGains = (kelvin: number, reference = NEUTRAL_KELVIN): [number, number, number] => {
+  const source = kelvinToRgb(kelvin).map(v => Math.pow(v, DISPLAY_GAMMA));
+  const target = kelvinToRgb(reference).map(v => Math.pow(v, DISPLAY_GAMMA));
+  const gains = target.map((v, c) => v / source[c]);
+  const luma = gains[0] * 0.2126 + gains[1] * 0.7152 + gains[2] * 0.0722;
+  return gains.map(g => g / luma) as [number, number, number];
+};
+
+/** Per-channel byte tables applying exposure (in stops) and white-balance gains in linear light. */
+export const toneTables = (ev: number, kelvin: number): Uint8ClampedArray[] => {
+  const exposure = Math.pow(2, ev);
+  return whiteBalanceGains(kelvin).map(gain => {
+    const table = new Uint8ClampedArray(256);
+    for (let v = 0; v < 256; v++) {
+      table[v] = Math.pow(Math.min(1, Math.pow(v / 255, DISPLAY_GAMMA) * exposure * gain), 1 / DISPLAY_GAMMA) * 255;
+    }
+    return table;
+  });
+};
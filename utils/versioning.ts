@@ -0,0 +1,78 @@
+import { CameraMode, CaptureMetadata, CapturedImage, EditOperation, LensProfile } from '../types';
+
+export interface VersionStack {
+  rootId: string;
+  root: CapturedImage;
+  head: CapturedImage;
+  versions: CapturedImage[];
+}
+
+export const rootIdOf = (image: CapturedImage) => image.version?.rootId ?? image.id;
+
+/** A capture's metadata, or what an untagged capture (e.g. an imported file) is assumed to have been shot with. */
+export const metadataOf = (image: CapturedImage): CaptureMetadata => image.metadata ?? {
+  iso: 'Auto',
+  shutter: 'Auto',
+  lens: LensProfile.STANDARD,
+  mode: image.mediaType === 'video' ? CameraMode.VIDEO : CameraMode.PHOTO,
+};
+
+export const createVersion = (source: CapturedImage, url: string, operation: EditOperation): CapturedImage => {
+  const now = Date.now();
+  return {
+    ...source,
+    id: crypto.randomUUID(),
+    url,
+    timestamp: now,
+    metadata: {
+      ...metadataOf(source),
+      enhanced: operation.type === 'enhance' || source.metadata?.enhanced,
+      filter: operation.type === 'filter' ? operation.label ?? operation.filter : source.metadata?.filter,
+      ...(operation.type === 'portrait' ? { aperture: operation.aperture, focalPlane: operation.focus } : {}),
+      // A trim moves the start, so the pre-roll mark moves with it or falls off the front
+      ...(operation.type === 'trim' && source.metadata?.preRoll !== undefined ? { preRoll: Math.max(0, source.metadata.preRoll - operation.in) } : {}),
+    },
+    // Assets stay on the root; versions resolve them through rootId
+    assets: undefined,
+    version: { rootId: rootIdOf(source), parentId: source.id, operation, appliedAt: now },
+  };
+};
+
+export const groupStacks = (gallery: CapturedImage[]): VersionStack[] => {
+  const byRoot = new Map<string, CapturedImage[]>();
+  gallery.forEach(image => {
+    const rootId = rootIdOf(image);
+    byRoot.set(rootId, [...(byRoot.get(rootId) || []), image]);
+  });
+
+  return Array.from(byRoot.entries())
+    .map(([rootId, items]) => {
+      const versions = [...items].sort((a, b) => (a.version?.appliedAt ?? a.timestamp) - (b.version?.appliedAt ?? b.timestamp));
+      const root = versions.find(v => v.id === rootId) || versions[0];
+      const head = versions.find(v => v.id === root.version?.headId) || versions[versions.length - 1];
+      return { rootId, root, head, versions };
+    })
+    .sort((a, b) => b.head.timestamp - a.head.timestamp);
+};
+
+export const versionDepth = (image: CapturedImage, gallery: CapturedImage[]): number => {
+  let depth = 0;
+  let parentId = image.version?.parentId;
+  while (parentId) {
+    const parent = gallery.find(g => g.id === parentId);
+    if (!parent) break;
+    depth++;
+    parentId = parent.version?.parentId;
+  }
+  return depth;
+};
+
+export const describeOperation = (operation?: EditOperation): string => {
+  if (!operation) return 'Original';
+  if (operation.type === 'enhance') return 'Quantum Enhance';
+  if (operation.type === 'stitch') return `Panorama x${operation.frames} @ ${operation.fov}°`;
+  if (operation.type === 'portrait') return `Portrait f/${operation.aperture}`;
+  if (operation.type === 'trim') return `Trim ${operation.in.toFixed(2)}s–${operation.out.toFixed(2)}s`;
+  if (operation.type === 'stack') return `${operation.kind === 'hdr' ? 'HDR' : 'Night'} Stack x${operation.frames}`;
+  return `Filter: ${operation.label ?? operation.filter.replace('_', ' ')}`;
+};
@@ -0,0 +1,302 @@
+// EBML element IDs, as written by MediaRecorder's WebM muxer
+const CLUSTER_ID = [0x1f, 0x43, 0xb6, 0x75];
+const TIMECODE_ID = 0xe7;
+const SIMPLE_BLOCK_ID = 0xa3;
+const KEYFRAME_FLAG = 0x80;
+
+/** A cluster start found in a WebM byte stream. */
+export interface WebmCluster {
+  offset: number;
+  /** Milliseconds at the default timecode scale */
+  timecode: number;
+  /** Where the timecode value's bytes start, and how many there are */
+  timecodeOffset: number;
+  timecodeLength: number;
+  /** Whether the cluster's first video block is a keyframe, so playback can start there */
+  keyframe: boolean;
+}
+
+const CLUSTER_ID_VALUE = 0x1f43b675;
+const BLOCK_GROUP_ID = 0xa0;
+const BLOCK_ID = 0xa1;
+const REFERENCE_BLOCK_ID = 0xfb;
+
+/** Length of the variable-size integer at `offset`, or 0 for an invalid lead byte. */
+const vintLength = (bytes: Uint8Array, offset: number) => {
+  const lead = bytes[offset];
+  if (!lead) return 0;
+  let length = 1;
+  while (!(lead & (0x80 >> (length - 1)))) length++;
+  return length;
+};
+
+const vintValue = (bytes: Uint8Array, offset: number, length: number) => {
+  let value = bytes[offset] & (0xff >> length);
+  for (let i = 1; i < length; i++) value = value * 256 + bytes[offset + i];
+  return value;
+};
+
+const uintValue = (bytes: Uint8Array, offset: number, length: number) => {
+  let value = 0;
+  for (let i = 0; i < length; i++) value = value * 256 + bytes[offset + i];
+  return value;
+};
+
+/**
+ * Whether the first block of `videoTrack` from `p` on is a keyframe; any track's first block when
+ * the video track is unknown. Undefined when the buffer ends first. Audio blocks (Opus marks every
+ * one as a keyframe) are skipped, and a cluster with no video block is not a place to start.
+ */
+const opensOnKeyframe = (bytes: Uint8Array, p: number, videoTrack?: number): boolean | undefined => {
+  while (p < bytes.length) {
+    const idLength = vintLength(bytes, p);
+    if (!idLength || idLength > 4) return false;
+    if (p + idLength >= bytes.length) return undefined;
+    const id = uintValue(bytes, p, idLength);
+    if (id === CLUSTER_ID_VALUE) return false;
+    const sizeLength = vintLength(bytes, p + idLength);
+    if (!sizeLength) return false;
+    const start = p + idLength + sizeLength;
+    if (start > bytes.length) return undefined;
+    const end = start + vintValue(bytes, p + idLength, sizeLength);
+
+    if (id === SIMPLE_BLOCK_ID) {
+      const trackLength = vintLength(bytes, start);
+      if (!trackLength) return false;
+      const flags = start + trackLength + 2;
+      if (flags >= bytes.length) return undefined;
+      if (videoTrack === undefined || vintValue(bytes, start, trackLength) === videoTrack) return !!(bytes[flags] & KEYFRAME_FLAG);
+    } else if (id === BLOCK_GROUP_ID) {
+      // A grouped block is a keyframe unless it references another
+      if (end > bytes.length) return undefined;
+      let track: number | undefined;
+      let referenced = false;
+      for (let c = start; c < end;) {
+        const childIdLength = vintLength(bytes, c);
+        const childSizeLength = childIdLength ? vintLength(bytes, c + childIdLength) : 0;
+        if (!childIdLength || !childSizeLength) return false;
+        const childId = uintValue(bytes, c, childIdLength);
+        const childStart = c + childIdLength + childSizeLength;
+        if (childId === BLOCK_ID) {
+          const trackLength = vintLength(bytes, childStart);
+          if (!trackLength) return false;
+          track = vintValue(bytes, childStart, trackLength);
+        } else if (childId === REFERENCE_BLOCK_ID) {
+          referenced = true;
+        }
+        c = childStart + vintValue(bytes, c + childIdLength, childSizeLength);
+      }
+      if (track !== undefined && (videoTrack === undefined || track === videoTrack)) return !referenced;
+    }
+    p = end;
+  }
+  return undefined;
+};
+
+/**
+ * Parses the cluster header at `offset`. Returns null when the bytes there are not a cluster,
+ * and undefined when the buffer ends before the header and first video block can be read.
+ */
+const readCluster = (bytes: Uint8Array, offset: number, videoTrack?: number): WebmCluster | null | undefined => {
+  for (let i = 0; i < CLUSTER_ID.length; i++) {
+    if (offset + i >= bytes.length) return undefined;
+    if (bytes[offset + i] !== CLUSTER_ID[i]) return null;
+  }
+  let p = offset + CLUSTER_ID.length;
+  if (p >= bytes.length) return undefined;
+  const sizeLength = vintLength(bytes, p);
+  if (!sizeLength) return null;
+  p += sizeLength;
+  if (p + 1 >= bytes.length) return undefined;
+  // The timecode always leads the cluster; checking it rules out the ID turning up in compressed data
+  if (bytes[p] !== TIMECODE_ID) return null;
+  if (vintLength(bytes, p + 1) !== 1) return null;
+  const valueLength = vintValue(bytes, p + 1, 1);
+  if (valueLength < 1 || valueLength > 8) return null;
+  const timecodeOffset = p + 2;
+  p = timecodeOffset + valueLength;
+  if (p >= bytes.length) return undefined;
+
+  const keyframe = opensOnKeyframe(bytes, p, videoTrack);
+  if (keyframe === undefined) return undefined;
+  return {
+    offset,
+    timecode: uintValue(bytes, timecodeOffset, valueLength),
+    timecodeOffset: timecodeOffset - offset,
+    timecodeLength: valueLength,
+    keyframe,
+  };
+};
+
+/**
+ * Cluster starts in `bytes` from `from` onwards. `pending` is the offset of a possible cluster
+ * whose header runs past the end of the buffer; scanning should resume there once more bytes arrive.
+ * `videoTrack` decides which blocks make a cluster keyframe-safe; without it, it is read from the
+ * header in front of the first cluster when `bytes` holds one.
+ */
+export const scanClusters = (bytes: Uint8Array, from = 0, videoTrack?: number): { clusters: WebmCluster[]; pending: number | null } => {
+  const clusters: WebmCluster[] = [];
+  let track = videoTrack;
+  for (let i = from; i < bytes.length; i++) {
+    if (bytes[i] !== CLUSTER_ID[0]) continue;
+    if (track === undefined && !clusters.length && CLUSTER_ID.every((b, k) => bytes[i + k] === b)) track = videoTrackOf(bytes.subarray(0, i));
+    const cluster = readCluster(bytes, i, track);
+    if (cluster === undefined) return { clusters, pending: i };
+    if (cluster) clusters.push(cluster);
+  }
+  return { clusters, pending: null };
+};
+
+/**
+ * Shifts a cluster's timecode back by `base` ms, in place; `bytes` starts at the cluster's ID.
+ * Block timecodes are relative to their cluster, so rebasing every cluster moves the whole stream.
+ */
+export const rebaseCluster = (bytes: Uint8Array, cluster: Pick<WebmCluster, 'timecode' | 'timecodeOffset' | 'timecodeLength'>, base: number) => {
+  let value = Math.max(0, cluster.timecode - base);
+  for (let i = cluster.timecodeLength - 1; i >= 0; i--) {
+    bytes[cluster.timecodeOffset + i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+};
+
+const ids = {
+  segment: 0x18538067,
+  info: 0x1549a966,
+  timecodeScale: 0x2ad7b1,
+  tracks: 0x1654ae6b,
+  trackEntry: 0xae,
+  trackNumber: 0xd7,
+  trackType: 0x83,
+  codecId: 0x86,
+  codecPrivate: 0x63a2,
+  video: 0xe0,
+  pixelWidth: 0xb0,
+  pixelHeight: 0xba,
+  audio: 0xe1,
+  samplingFrequency: 0xb5,
+  channels: 0x9f,
+  cluster: 0x1f43b675,
+  timecode: TIMECODE_ID,
+  simpleBlock: SIMPLE_BLOCK_ID,
+  blockGroup: 0xa0,
+  block: 0xa1,
+  referenceBlock: 0xfb,
+};
+
+// Masters whose children we need; everything else is skipped whole
+const MASTERS = new Set([ids.segment, ids.info, ids.tracks, ids.trackEntry, ids.video, ids.audio, ids.cluster, ids.blockGroup]);
+const LACING_MASK = 0x06;
+
+export interface WebmTrack {
+  number: number;
+  type: 'video' | 'audio';
+  codecId: string;
+  codecPrivate?: Uint8Array;
+  width?: number;
+  height?: number;
+  sampleRate?: number;
+  channels?: number;
+}
+
+export interface WebmFrame {
+  track: number;
+  /** Milliseconds */
+  time: number;
+  keyframe: boolean;
+  data: Uint8Array;
+}
+
+export interface WebmFile {
+  tracks: WebmTrack[];
+  frames: WebmFrame[];
+}
+
+// All value bits set marks a master element whose size was not known when it was written
+const isUnknownSize = (bytes: Uint8Array, offset: number, length: number) => {
+  if ((bytes[offset] & (0xff >> length)) !== 0xff >> length) return false;
+  for (let i = 1; i < length; i++) if (bytes[offset + i] !== 0xff) return false;
+  return true;
+};
+
+const readFloat = (bytes: Uint8Array, offset: number, length: number) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset + offset, length);
+  return length === 4 ? view.getFloat32(0) : view.getFloat64(0);
+};
+
+/**
+ * Demuxes a WebM file as MediaRecorder writes it: unknown-size segment and clusters,
+ * no lacing. Frame data is a view into `bytes`. Returns null for anything else.
+ */
+export const demuxWebm = (bytes: Uint8Array): WebmFile | null => {
+  const tracks: WebmTrack[] = [];
+  const frames: WebmFrame[] = [];
+  let track: Partial<WebmTrack> | null = null;
+  let scale = 1000000;
+  let clusterTime = 0;
+  let p = 0;
+
+  const readBlock = (start: number, end: number, keyframe?: boolean) => {
+    const trackLength = vintLength(bytes, start);
+    if (!trackLength) return false;
+    const number = vintValue(bytes, start, trackLength);
+    const header = start + trackLength;
+    const flags = bytes[header + 2];
+    if (flags & LACING_MASK) return false;
+    const relative = (bytes[header] << 24 >> 16) | bytes[header + 1];
+    frames.push({
+      track: number,
+      time: (clusterTime + relative) * scale / 1000000,
+      keyframe: keyframe ?? !!(flags & KEYFRAME_FLAG),
+      data: bytes.subarray(header + 3, end),
+    });
+    return true;
+  };
+
+  while (p < bytes.length) {
+    const idLength = vintLength(bytes, p);
+    if (!idLength || idLength > 4) return null;
+    const id = uintValue(bytes, p, idLength);
+    const sizeLength = vintLength(bytes, p + idLength);
+    if (!sizeLength) return null;
+    const size = vintValue(bytes, p + idLength, sizeLength);
+    const unknownSize = isUnknownSize(bytes, p + idLength, sizeLength);
+    const start = p + idLength + sizeLength;
+    const end = unknownSize ? bytes.length : Math.min(bytes.length, start + size);
+
+    if (id === ids.trackEntry) {
+      if (track?.number && track.codecId) tracks.push(track as WebmTrack);
+      track = {};
+    } else if (id === ids.cluster && track) {
+      if (track.number && track.codecId) tracks.push(track as WebmTrack);
+      track = null;
+    }
+    if (MASTERS.has(id)) {
+      p = start;
+      continue;
+    }
+    if (unknownSize) return null;
+
+    switch (id) {
+      case ids.timecodeScale: scale = uintValue(bytes, start, size); break;
+      case ids.trackNumber: if (track) track.number = uintValue(bytes, start, size); break;
+      case ids.trackType: if (track) track.type = uintValue(bytes, start, size) === 1 ? 'video' : 'audio'; break;
+      case ids.codecId: if (track) track.codecId = new TextDecoder().decode(bytes.subarray(start, end)).replace(/\0+$/, ''); break;
+      case ids.codecPrivate: if (track) track.codecPrivate = bytes.slice(start, end); break;
+      case ids.pixelWidth: if (track) track.width = uintValue(bytes, start, size); break;
+      case ids.pixelHeight: if (track) track.height = uintValue(bytes, start, size); break;
+      case ids.samplingFrequency: if (track) track.sampleRate = readFloat(bytes, start, size); break;
+      case ids.channels: if (track) track.channels = uintValue(bytes, start, size); break;
+      case ids.timecode: clusterTime = uintValue(bytes, start, size); break;
+      case ids.simpleBlock: if (!readBlock(start, end)) return null; break;
+      case ids.block: if (!readBlock(start, end, true)) return null; break;
+      case ids.referenceBlock: if (frames.length) frames[frames.length - 1].keyframe = false; break;
+    }
+    p = end;
+  }
+  if (track?.number && track.codecId) tracks.push(track as WebmTrack);
+  return tracks.length ? { tracks, frames } : null;
+};
+
+/** Number of the video track declared in a WebM header, if there is one. */
+export const videoTrackOf = (header: Uint8Array): number | undefined =>
+  demuxWebm(header)?.tracks.find(t => t.type === 'video')?.number;
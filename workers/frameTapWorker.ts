@@ -0,0 +1,71 @@
+import { encode } from '../utils/audioUtils';
+import { TapResult, TapSpec, analyzeFrame } from '../utils/frameAnalysis';
+import { Plane } from '../utils/imaging';
+
+export interface TapJob {
+  subscription: number;
+  spec: TapSpec;
+}
+
+export type TapRequest =
+  | { type: 'frame'; id: number; bitmap: ImageBitmap; jobs: TapJob[] }
+  | { type: 'release'; subscription: number };
+
+export type TapResponse =
+  | { id: number; results: { subscription: number; result: TapResult }[] }
+  | { id: number; error: string };
+
+const scope = self as unknown as Worker;
+const previousPlanes = new Map<number, Plane>();
+let canvas: OffscreenCanvas | null = null;
+
+const sample = (bitmap: ImageBitmap, maxEdge: number) => {
+  const scale = Math.min(1, maxEdge / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+  if (!canvas) canvas = new OffscreenCanvas(width, height);
+  if (canvas.width !== width) canvas.width = width;
+  if (canvas.height !== height) canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true }) as OffscreenCanvasRenderingContext2D | null;
+  if (!ctx) throw new Error('OffscreenCanvas 2D context unavailable');
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  return { ctx, width, height };
+};
+
+const run = async (bitmap: ImageBitmap, jobs: TapJob[]) => {
+  const results: { subscription: number; result: TapResult }[] = [];
+  const transfer: Transferable[] = [];
+  for (const { subscription, spec } of jobs) {
+    const { ctx, width, height } = sample(bitmap, spec.maxEdge);
+    if (spec.kind === 'jpeg') {
+      const blob = await canvas!.convertToBlob({ type: 'image/jpeg', quality: spec.quality });
+      results.push({ subscription, result: { kind: 'jpeg', base64: encode(new Uint8Array(await blob.arrayBuffer())) } });
+      continue;
+    }
+    const frame = { data: ctx.getImageData(0, 0, width, height).data, width, height };
+    const { result, plane } = analyzeFrame(frame, spec, previousPlanes.get(subscription));
+    if (plane) previousPlanes.set(subscription, plane);
+    if (!result) continue;
+    if (result.kind === 'trace') transfer.push(result.image.data.buffer);
+    results.push({ subscription, result });
+  }
+  return { results, transfer };
+};
+
+scope.onmessage = async (e: MessageEvent<TapRequest>) => {
+  const request = e.data;
+  if (request.type === 'release') {
+    previousPlanes.delete(request.subscription);
+    return;
+  }
+  try {
+    const { results, transfer } = await run(request.bitmap, request.jobs);
+    const response: TapResponse = { id: request.id, results };
+    scope.postMessage(response, transfer);
+  } catch (err) {
+    const response: TapResponse = { id: request.id, error: err instanceof Error ? err.message : String(err) };
+    scope.postMessage(response);
+  } finally {
+    request.bitmap.close();
+  }
+};
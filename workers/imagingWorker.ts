@@ -0,0 +1,110 @@
+import { estimateFrameTranslation } from '../utils/alignment';
+import { BokehSettings, renderBokeh } from '../utils/bokeh';
+import { fuseExposures } from '../utils/exposureFusion';
+import { FrameScore, scoreFrame } from '../utils/frameScore';
+import { Plane, RgbaFrame, shiftFrame, toLuma } from '../utils/imaging';
+import { TemporalStacker } from '../utils/nightStack';
+import { Offset, stitchPanorama } from '../utils/panorama';
+import { estimateSubjectDepth } from '../utils/subjectMask';
+
+export type ImagingJob =
+  | { type: 'hdr'; frames: RgbaFrame[]; referenceIndex: number; align: boolean }
+  | { type: 'night-start'; session: number; reference: RgbaFrame }
+  | { type: 'night-add'; session: number; frame: RgbaFrame }
+  | { type: 'night-finish'; session: number }
+  | { type: 'segment'; frame: RgbaFrame }
+  | { type: 'bokeh'; frame: RgbaFrame; depth: Plane; settings: BokehSettings }
+  | { type: 'stitch'; frames: RgbaFrame[]; fov: number; hints: (Offset | undefined)[] }
+  | { type: 'score'; frame: RgbaFrame };
+
+export interface ImagingRequest {
+  id: number;
+  job: ImagingJob;
+}
+
+export interface ImagingResult {
+  id: number;
+  frame?: RgbaFrame;
+  plane?: Plane;
+  shifts?: { dx: number; dy: number }[];
+  accepted?: boolean;
+  frameCount?: number;
+  score?: FrameScore;
+}
+
+export type ImagingResponse = ImagingResult | { id: number; error: string };
+
+// Whole-frame rejection thresholds for night stacking
+const MAX_ALIGNMENT_ERROR = 0.2;
+const MAX_BRIGHTNESS_DRIFT = 0.15;
+
+const scope = self as unknown as Worker;
+const sessions = new Map<number, { stacker: TemporalStacker; reference: RgbaFrame; referenceMean: number }>();
+
+const meanLuma = (frame: RgbaFrame) => {
+  const { data } = toLuma(frame);
+  let sum = 0;
+  for (let i = 0; i < data.length; i++) sum += data[i];
+  return sum / data.length;
+};
+
+const run = (job: ImagingJob): Omit<ImagingResult, 'id'> => {
+  switch (job.type) {
+    case 'hdr': {
+      const reference = job.frames[job.referenceIndex];
+      const shifts = job.frames.map((f, i) =>
+        job.align && i !== job.referenceIndex ? estimateFrameTranslation(reference, f) : { dx: 0, dy: 0 }
+      );
+      const aligned = job.frames.map((f, i) => shiftFrame(f, shifts[i].dx, shifts[i].dy));
+      return { frame: fuseExposures(aligned), shifts: shifts.map(({ dx, dy }) => ({ dx, dy })) };
+    }
+    case 'night-start': {
+      sessions.set(job.session, {
+        stacker: new TemporalStacker(job.reference),
+        reference: job.reference,
+        referenceMean: meanLuma(job.reference),
+      });
+      return { accepted: true, frameCount: 1 };
+    }
+    case 'night-add': {
+      const session = sessions.get(job.session);
+      if (!session) throw new Error(`Unknown stacking session ${job.session}`);
+      const shift = estimateFrameTranslation(session.reference, job.frame);
+      const drift = Math.abs(meanLuma(job.frame) - session.referenceMean) / Math.max(session.referenceMean, 1e-3);
+      const accepted = shift.error <= MAX_ALIGNMENT_ERROR && drift <= MAX_BRIGHTNESS_DRIFT;
+      if (accepted) session.stacker.add(shiftFrame(job.frame, shift.dx, shift.dy));
+      return { accepted, shifts: [{ dx: shift.dx, dy: shift.dy }], frameCount: session.stacker.frameCount };
+    }
+    case 'night-finish': {
+      const session = sessions.get(job.session);
+      if (!session) throw new Error(`Unknown stacking session ${job.session}`);
+      sessions.delete(job.session);
+      return { frame: session.stacker.finish(), frameCount: session.stacker.frameCount };
+    }
+    case 'segment':
+      return { plane: estimateSubjectDepth(job.frame) };
+    case 'bokeh':
+      return { frame: renderBokeh(job.frame, job.depth, job.settings) };
+    case 'stitch': {
+      const { frame, used } = stitchPanorama(job.frames, job.fov, job.hints);
+      return { frame, frameCount: used };
+    }
+    case 'score':
+      return { score: scoreFrame(job.frame) };
+  }
+};
+
+scope.onmessage = (e: MessageEvent<ImagingRequest>) => {
+  const { id, job } = e.data;
+  try {
+    const result = run(job);
+    const response: ImagingResponse = { id, ...result };
+    const transfer: Transferable[] = [];
+    if (result.frame) transfer.push(result.frame.data.buffer);
+    if (result.plane) transfer.push(result.plane.data.buffer);
+    scope.postMessage(response, transfer);
+  } catch (err) {
+    const response: ImagingResponse = { id, error: err instanceof Error ? err.message : String(err) };
+    scope.postMessage(response);
+  }
+};